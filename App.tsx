@@ -1,31 +1,409 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import * as Tone from 'tone';
-import { Play, Pause, RotateCcw, Volume2, Music2, Info } from 'lucide-react';
+import { Play, Pause, RotateCcw, Volume2, Music2, Info, Mic, Square, ArrowLeft, Library, Download, PenLine, Printer, Piano, Rows2 } from 'lucide-react';
 import SheetMusic from './components/SheetMusic';
 import MusicTutor from './components/MusicTutor';
-import { MidiData } from './types';
+import MidiUploader from './components/MidiUploader';
+import TrackSelector from './components/TrackSelector';
+import FingeringChart from './components/FingeringChart';
+import RecorderSettings from './components/RecorderSettings';
+import PracticeReport from './components/PracticeReport';
+import FollowModePanel from './components/FollowModePanel';
+import ProgressBar from './components/ProgressBar';
+import LoopControls from './components/LoopControls';
+import MetronomePanel from './components/MetronomePanel';
+import MixerPanel from './components/MixerPanel';
+import ProgressPanel from './components/ProgressPanel';
+import SongLibrary from './components/SongLibrary';
+import AbcEditor from './components/AbcEditor';
+import MidiExportMenu, { MidiExportChoices } from './components/MidiExportMenu';
+import PrintableScore from './components/PrintableScore';
+import PianoRoll from './components/PianoRoll';
+import { MidiData, Note } from './types';
+import { WarmUpExercise } from './services/warmUps';
+import { NextStep, PracticeDigest, digestPractice } from './services/practiceFeedback';
+import { PracticeSession, createSessionId, exportHistory, importHistory, listSessions, saveSession } from './services/practiceHistory';
+import { songHash } from './services/tutorService';
+import { LibrarySong, SongChanges, SongSettings, addSong, deleteSong, listSongs, updateSong } from './services/songLibrary';
+import { detectMelodyTrack, getActiveTrack } from './services/trackSelection';
+import { detectKey, keyDisplayName } from './services/pitchSpelling';
+import { FingeringSystem, getFingering } from './services/recorderFingerings';
+import { RECORDERS, RecorderType } from './services/recorders';
+import { NO_TRANSPOSITION, TranspositionSettings, applyTransposition } from './services/transposition';
+import { PitchFrame } from './services/pitchDetection';
+import { PitchTracker, startPitchTracker, MicrophoneError } from './services/microphone';
+import { NoteResult, NoteStatus, PracticeSummary, scorePerformance, summarizeResults } from './services/practiceScoring';
+import { MidiInputListener, MidiInputError, startMidiInput } from './services/midiInput';
+import {
+  DEFAULT_FOLLOW_SETTINGS,
+  FollowSettings,
+  FollowStop,
+  STABLE_FRAMES,
+  buildFollowStops,
+  matchesExpectedPitch,
+} from './services/followMode';
+import { bpmAtSeconds, buildMeasures, buildTempoSegments, measureAtBeat, secondsToBeats } from './services/tempoMap';
+import {
+  Click,
+  ClickVoice,
+  DEFAULT_METRONOME,
+  MetronomeSettings,
+  buildClicks,
+  buildCountIn,
+  createClickVoice,
+  pulsePattern,
+} from './services/metronome';
+import { PlaybackEngine, PlaybackPart, createPlaybackEngine } from './services/playbackEngine';
+import {
+  ChannelSettings,
+  MixerChannel,
+  MixerSettings,
+  applyChannelSettings,
+  channelSettings,
+  createMixerChannel,
+  disposeMixerChannel,
+  createTrackVoice,
+  instrumentKind,
+} from './services/mixer';
+import { MelodyInstrument, createMelodyVoice } from './services/instruments';
+import {
+  DEFAULT_SPEED_TRAINER,
+  LoopRegion,
+  SpeedTrainerSettings,
+  isCleanRepetition,
+  loopTimes,
+  measureIndexAtTime,
+  nextTrainerRate,
+  notesInLoop,
+} from './services/loopRegion';
+import { canExportMusicXml, exportMusicXml } from './services/musicXml';
+import { ABC_TEMPLATE, exportAbc } from './services/abcNotation';
+import { exportMidi } from './services/midiExport';
 
-function App() {
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Song names become file names, without characters file systems reject
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '').trim() || 'cancion';
+
+// How the song is shown: the staff, a piano roll or both stacked
+type ScoreView = 'staff' | 'roll' | 'split';
+
+const SCORE_VIEWS: { id: ScoreView; label: string; icon: React.ReactNode }[] = [
+  { id: 'staff', label: 'Pentagrama', icon: <Music2 size={14} /> },
+  { id: 'roll', label: 'Piano roll', icon: <Piano size={14} /> },
+  { id: 'split', label: 'Ambos', icon: <Rows2 size={14} /> },
+];
+
+interface StudioProps {
+  engine: PlaybackEngine;
+  clickVoice: ClickVoice;
+}
+
+function Studio({ engine, clickVoice }: StudioProps) {
   const [midiData, setMidiData] = useState<MidiData | null>(null);
+  const [melodyTrack, setMelodyTrack] = useState(0);
+  const [selectedTrack, setSelectedTrack] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [currentTime, setCurrentTime] = useState(0);
   const [isReady, setIsReady] = useState(false);
+  const [fingeringSystem, setFingeringSystem] = useState<FingeringSystem>('baroque');
+  const [selectedNote, setSelectedNote] = useState<Note | null>(null);
+  const [recorderType, setRecorderType] = useState<RecorderType>('soprano');
+  const [transposition, setTransposition] = useState<TranspositionSettings>(NO_TRANSPOSITION);
+  const [isPracticing, setIsPracticing] = useState(false);
+  const [noteResults, setNoteResults] = useState<NoteResult[]>([]);
+  const [practiceSummary, setPracticeSummary] = useState<PracticeSummary | null>(null);
+  const [practiceError, setPracticeError] = useState<string | null>(null);
+  // The last finished run, for the tutor's feedback
+  const [practiceDigest, setPracticeDigest] = useState<PracticeDigest | null>(null);
+  const [history, setHistory] = useState<PracticeSession[]>([]);
+  const [historyMessage, setHistoryMessage] = useState<string | null>(null);
+  const [library, setLibrary] = useState<LibrarySong[]>([]);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  // Library entry of the loaded song, whose settings are kept up to date
+  const [libraryId, setLibraryId] = useState<string | null>(null);
+  // Text in the ABC editor, null while it is closed
+  const [abcText, setAbcText] = useState<string | null>(null);
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
+  const [scoreView, setScoreView] = useState<ScoreView>('staff');
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [followSettings, setFollowSettings] = useState<FollowSettings>(DEFAULT_FOLLOW_SETTINGS);
+  const [targetNote, setTargetNote] = useState<Note | null>(null);
+  const [showHint, setShowHint] = useState(false);
+  const [followError, setFollowError] = useState<string | null>(null);
+  // Inputs seen by "Espérame" with a MIDI keyboard, null when not listening to one
+  const [midiDeviceCount, setMidiDeviceCount] = useState<number | null>(null);
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  const [trainer, setTrainer] = useState<SpeedTrainerSettings>(DEFAULT_SPEED_TRAINER);
+  const [cleanRepetitions, setCleanRepetitions] = useState(0);
+  const [metronome, setMetronome] = useState<MetronomeSettings>(DEFAULT_METRONOME);
+  const [countInBeat, setCountInBeat] = useState<number | null>(null);
+  const [mixer, setMixer] = useState<MixerSettings>({});
+  const [melodyInstrument, setMelodyInstrument] = useState<MelodyInstrument>('recorder');
+  // The song to go back to while a warm-up exercise is loaded
+  const [warmUpSong, setWarmUpSong] = useState<{
+    data: MidiData;
+    practiceData: MidiData;
+    track: number;
+    transposition: TranspositionSettings;
+    libraryId: string | null;
+    // Where the student was in the song, and its length in measures
+    time: number;
+    measureCount: number;
+  } | null>(null);
+
+  const recorder = RECORDERS[recorderType];
+
+  // The song as the student practices it: playback, staff and tutor all use this
+  const practiceData = useMemo(
+    () => midiData && applyTransposition(midiData, selectedTrack, recorder, transposition),
+    [midiData, selectedTrack, recorder, transposition]
+  );
   
   // Refs for Tone.js objects
-  const synthsRef = useRef<Tone.PolySynth[]>([]);
-  const partRef = useRef<Tone.Part | null>(null);
-  const transportRef = useRef(Tone.Transport);
+  // One channel, instrument and part per track with notes
+  const tracksRef = useRef<{ trackIndex: number; mixer: MixerChannel; part: PlaybackPart }[]>([]);
 
-  // Load the song immediately on mount (simulating the uploaded file)
-  useEffect(() => {
-    loadUserSong();
-  }, []);
+  // Microphone capture for "Tocar yo" mode
+  const trackerRef = useRef<PitchTracker | null>(null);
+  const practiceStartedAtRef = useRef(0);
+  const framesRef = useRef<PitchFrame[]>([]);
+
+  // "Espérame" mode: input listeners read these instead of stale state
+  const followInputRef = useRef<PitchTracker | MidiInputListener | null>(null);
+  const targetRef = useRef<Note | null>(null);
+  const nextStopRef = useRef(0);
+  const stableFramesRef = useRef(0);
+  const ignoreInputUntilRef = useRef(0);
+  const followSettingsRef = useRef(followSettings);
+  followSettingsRef.current = followSettings;
+  const followStopsRef = useRef<FollowStop[]>([]);
+
+  const tempoSegments = useMemo(
+    () => buildTempoSegments(practiceData?.header.tempos ?? []),
+    [practiceData]
+  );
+  const measures = useMemo(
+    () => (practiceData ? buildMeasures(practiceData, tempoSegments) : []),
+    [practiceData, tempoSegments]
+  );
+  const loopRange = useMemo(
+    () => (loop && measures.length ? loopTimes(measures, tempoSegments, loop) : null),
+    [loop, measures, tempoSegments]
+  );
+
+  // Tear down the scheduled part so it gets rebuilt on the next play
+  const resetPlayback = () => {
+    engine.stop();
+    engine.clearScheduled();
+    // Drop pending count-in and follow-mode UI updates
+    Tone.getDraw().cancel();
+    setCountInBeat(null);
+    disposeTracks();
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setSelectedNote(null);
+    stopTracker();
+    setIsPracticing(false);
+    setNoteResults([]);
+    setPracticeSummary(null);
+    stopFollowInput();
+    targetRef.current = null;
+    setIsFollowing(false);
+    setTargetNote(null);
+    setShowHint(false);
+  };
+
+  const disposeTracks = () => {
+    tracksRef.current.forEach(({ mixer, part }) => {
+      part.dispose();
+      disposeMixerChannel(mixer);
+    });
+    tracksRef.current = [];
+  };
+
+  const stopTracker = () => {
+    trackerRef.current?.stop();
+    trackerRef.current = null;
+  };
+
+  const stopFollowInput = () => {
+    followInputRef.current?.stop();
+    followInputRef.current = null;
+    setMidiDeviceCount(null);
+  };
 
-  const loadUserSong = () => {
-    // THIS REPRESENTS THE MIDI FILE UPLOADED BY THE USER
-    // Since we cannot read files directly from the chat context, we use this data structure
-    // which mimics the parsed result of the user's MIDI file.
+  const loadSong = (data: MidiData) => {
+    resetPlayback();
+    const melody = detectMelodyTrack(data);
+    setMelodyTrack(melody);
+    setSelectedTrack(melody);
+    setTransposition(NO_TRANSPOSITION);
+    setLoop(null);
+    setCleanRepetitions(0);
+    setMixer({});
+    setWarmUpSong(null);
+    setPracticeDigest(null);
+    setLibraryId(null);
+    setMidiData(data);
+  };
+
+  const upsertLibrarySong = (song: LibrarySong) =>
+    setLibrary(current => [song, ...current.filter(s => s.id !== song.id)]);
+
+  const restoreSettings = (data: MidiData, settings: SongSettings) => {
+    if (data.tracks[settings.selectedTrack]) setSelectedTrack(settings.selectedTrack);
+    setTransposition(settings.transposition);
+    setLoop(settings.loop);
+    applyRate(settings.rate);
+  };
+
+  // New files go into the library; a file that is already there opens as it was left
+  const handleUpload = (data: MidiData) => {
+    loadSong(data);
+    addSong(data, recorderType)
+      .then(song => {
+        upsertLibrarySong(song);
+        setLibraryId(song.id);
+        if (song.settings) restoreSettings(data, song.settings);
+      })
+      .catch(err => setLibraryError(err.message));
+  };
+
+  const openLibrarySong = (song: LibrarySong) => {
+    loadSong(song.data);
+    setLibraryId(song.id);
+    setRecorderType(song.recorderType);
+    if (song.settings) restoreSettings(song.data, song.settings);
+    updateSong(song.id, { lastOpenedAt: Date.now() })
+      .then(updated => updated && upsertLibrarySong(updated))
+      .catch(err => setLibraryError(err.message));
+  };
+
+  const handleLibraryUpdate = (id: string, changes: SongChanges) => {
+    updateSong(id, changes)
+      .then(updated => updated && setLibrary(current => current.map(s => (s.id === id ? updated : s))))
+      .catch(err => setLibraryError(err.message));
+  };
+
+  const handleLibraryDelete = (id: string) => {
+    deleteSong(id)
+      .then(() => setLibrary(current => current.filter(s => s.id !== id)))
+      .catch(err => setLibraryError(err.message));
+    if (id === libraryId) setLibraryId(null);
+  };
+
+  const closeSong = () => {
+    resetPlayback();
+    setWarmUpSong(null);
+    setLibraryId(null);
+    setIsPrintOpen(false);
+    setMidiData(null);
+  };
+
+  // What the student is playing, transposition included, with the title and
+  // composer from the library
+  const exportableSong = () => {
+    if (!practiceData) return null;
+    const entry = library.find(s => s.id === libraryId);
+    return entry
+      ? { ...practiceData, header: { ...practiceData.header, name: entry.title, composer: entry.composer || undefined } }
+      : practiceData;
+  };
+
+  const handleExportMusicXml = () => {
+    const song = exportableSong();
+    if (!song) return;
+    const xml = exportMusicXml(song);
+    downloadBlob(new Blob([xml], { type: 'application/vnd.recordare.musicxml+xml' }), `${safeFileName(song.header.name)}.musicxml`);
+  };
+
+  const handleExportAbc = () => {
+    const song = exportableSong();
+    if (!song) return;
+    downloadBlob(new Blob([exportAbc(song, selectedTrack)], { type: 'text/vnd.abc' }), `${safeFileName(song.header.name)}.abc`);
+  };
+
+  const handleExportMidi = (choices: MidiExportChoices) => {
+    const song = exportableSong();
+    if (!song || !midiData) return;
+    const source = choices.transposed ? song : { ...midiData, header: song.header };
+    const bytes = exportMidi(source, {
+      trackIndex: choices.melodyOnly ? selectedTrack : null,
+      rate: choices.practiceTempo ? playbackRate : 1,
+    });
+    downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `${safeFileName(song.header.name)}.mid`);
+  };
+
+  const printedSong = isPrintOpen ? exportableSong() : null;
+
+  // Opens the current track in the ABC editor, e.g. to fix a note
+  const handleEditAbc = () => {
+    const song = exportableSong();
+    if (!song) return;
+    setAbcText(exportAbc(song, selectedTrack));
+    closeSong();
+  };
+
+  const handleDownloadAbcText = (text: string) => {
+    const title = text.match(/^T:(.*)$/m)?.[1]?.trim() || 'melodia';
+    downloadBlob(new Blob([text], { type: 'text/vnd.abc' }), `${safeFileName(title)}.abc`);
+  };
+
+  const handleOpenAbc = (data: MidiData) => {
+    setAbcText(null);
+    handleUpload(data);
+  };
+
+  const handleLoadExercise = (exercise: WarmUpExercise) => {
+    if (!midiData || !practiceData) return;
+    // Chained exercises still return to the song, not to the previous exercise
+    const song = warmUpSong ?? {
+      data: midiData,
+      practiceData,
+      track: selectedTrack,
+      transposition,
+      libraryId,
+      time: currentTime,
+      measureCount: measures.length,
+    };
+    loadSong(exercise.data);
+    setWarmUpSong(song);
+  };
+
+  const handleReturnToSong = () => {
+    if (!warmUpSong) return;
+    loadSong(warmUpSong.data);
+    setSelectedTrack(warmUpSong.track);
+    setTransposition(warmUpSong.transposition);
+    setLibraryId(warmUpSong.libraryId);
+  };
+
+  const handleTrackChange = (trackIndex: number) => {
+    resetPlayback();
+    setSelectedTrack(trackIndex);
+  };
+
+  const handleRecorderChange = (type: RecorderType) => {
+    resetPlayback();
+    setRecorderType(type);
+  };
+
+  const handleTranspositionChange = (settings: TranspositionSettings) => {
+    resetPlayback();
+    setTransposition(settings);
+  };
+
+  const loadDemoSong = () => {
+    // Built-in example so students can try the app without a file of their own
     const bpm = 120;
     const quarter = 60 / bpm; // 0.5s
     
@@ -83,9 +461,9 @@ function App() {
 
     const songData: MidiData = {
         header: {
-            name: "Canción para Estudiar", // Generic title for the uploaded file
-            tempos: [{ bpm }],
-            timeSignatures: [{ timeSignature: [4, 4] }]
+            name: "Canción para Estudiar",
+            tempos: [{ bpm, time: 0 }],
+            timeSignatures: [{ timeSignature: [4, 4], time: 0 }]
         },
         duration: 32 * quarter,
         tracks: [{
@@ -95,96 +473,504 @@ function App() {
         }]
     };
 
-    setMidiData(songData);
+    loadSong(songData);
   };
 
   // Initialize Tone.js context on first interaction
   const initializeAudio = async () => {
-    if (!isReady && midiData) {
+    if (!isReady && practiceData) {
       await Tone.start();
-      setupSynthesizers(midiData);
+      setupSynthesizers(practiceData, selectedTrack);
       setIsReady(true);
     }
   };
 
-  const setupSynthesizers = (data: MidiData) => {
-    transportRef.current.stop();
-    transportRef.current.cancel();
-    if (partRef.current) partRef.current.dispose();
-    synthsRef.current.forEach(s => s.dispose());
-    synthsRef.current = [];
-
-    // Flute-like synth configuration
-    const fluteSynth = new Tone.PolySynth(Tone.Synth, {
-      oscillator: { type: "sine" },
-      envelope: {
-        attack: 0.1,
-        decay: 0.2,
-        sustain: 0.8,
-        release: 0.5
-      },
-      volume: -6
-    }).toDestination();
-    
-    const vibrato = new Tone.Vibrato(4.5, 0.1).toDestination();
-    fluteSynth.connect(vibrato);
+  const setupSynthesizers = (data: MidiData, trackIndex: number) => {
+    disposeTracks();
+    const melody = data.tracks[trackIndex] ? trackIndex : 0;
 
-    synthsRef.current.push(fluteSynth);
+    data.tracks.forEach((track, index) => {
+      if (track.notes.length === 0) return;
+      // The practiced track always sounds like a recorder; soprano parts are
+      // written an octave below where they sound
+      const isMelody = index === melody;
+      const offset = isMelody ? recorder.soundingOffset : 0;
+      const channel = createMixerChannel(channelSettings(mixer, index), destination =>
+          isMelody ? createMelodyVoice(melodyInstrument, destination) : createTrackVoice(instrumentKind(track), destination)
+      );
+      const part = engine.addPart(track.notes, (time, note, duration) => {
+          channel.voice.play(time, note.midi + offset, duration, note.velocity);
+      });
+      tracksRef.current.push({ trackIndex: index, mixer: channel, part });
+    });
+  };
 
-    const notesToPlay = data.tracks[0].notes.map(n => ({
-        time: n.time,
-        note: n.name,
-        duration: n.duration,
-        velocity: n.velocity
-    }));
+  const melodyTrackIndex = practiceData?.tracks[selectedTrack] ? selectedTrack : 0;
+  const melodyChannel = () => tracksRef.current.find(t => t.trackIndex === melodyTrackIndex);
+
+  // Swap the melody's sound in place, even mid-song
+  const handleInstrumentChange = (instrument: MelodyInstrument) => {
+    setMelodyInstrument(instrument);
+    const melody = melodyChannel();
+    if (melody) {
+      melody.mixer.voice.dispose();
+      melody.mixer.voice = createMelodyVoice(instrument, melody.mixer.channel);
+    }
+  };
 
-    partRef.current = new Tone.Part((time, value) => {
-        fluteSynth.triggerAttackRelease(value.note, value.duration, time, value.velocity);
-    }, notesToPlay).start(0);
+  // A few notes up from the bottom of the recorder, soft to hard
+  const previewInstrument = async () => {
+    await Tone.start();
+    const voice = createMelodyVoice(melodyInstrument, Tone.getDestination());
+    const now = Tone.now() + 0.05;
+    [0, 2, 4, 5, 7].forEach((step, i) => {
+      voice.play(now + i * 0.4, recorder.lowestNote + 12 + step + recorder.soundingOffset, 0.35, 0.4 + i * 0.15);
+    });
+    setTimeout(() => voice.dispose(), 3000);
+  };
 
-    transportRef.current.bpm.value = data.header.tempos[0].bpm;
+  // The student plays the melody themselves; the accompaniment keeps sounding
+  const muteMelodyPart = () => {
+    const melody = melodyChannel();
+    if (melody) melody.part.mute = true;
+  };
+
+  // Clicks one or two bars in the meter and tempo of `songTime`, starting at
+  // audio time `startAt`. Returns how long they take at the current speed.
+  const playCountIn = (startAt: number, songTime: number) => {
+    const measure = measureAtBeat(measures, secondsToBeats(tempoSegments, songTime));
+    if (!measure || metronome.countInBars === 0) return 0;
+    const { clicks, length } = buildCountIn(
+      measure,
+      bpmAtSeconds(tempoSegments, songTime),
+      metronome.countInBars,
+      metronome.subdivide
+    );
+    const draw = Tone.getDraw();
+    clicks.forEach(click => {
+      const time = startAt + click.time / playbackRate;
+      clickVoice.play(time, click.accent);
+      if (click.accent !== 'subdivision') draw.schedule(() => setCountInBeat(click.pulse + 1), time);
+    });
+    draw.schedule(() => setCountInBeat(null), startAt + length / playbackRate);
+    return length / playbackRate;
+  };
+
+  // Start from the loop when the playhead is outside it, after the count-in
+  const startTransport = () => {
+    let from = engine.getPosition().time;
+    if (loopRange && (from < loopRange.start - 0.01 || from >= loopRange.end)) {
+      from = loopRange.start;
+      engine.seek(from);
+    }
+    if (metronome.countInBars > 0) {
+      const startAt = Tone.now() + 0.1;
+      engine.play(startAt + playCountIn(startAt, from));
+    } else {
+      engine.play();
+    }
   };
 
   const togglePlay = async () => {
     await initializeAudio();
     
-    if (!partRef.current && midiData) {
-        setupSynthesizers(midiData);
+    if (tracksRef.current.length === 0 && practiceData) {
+        setupSynthesizers(practiceData, selectedTrack);
     }
 
     if (isPlaying) {
-      transportRef.current.pause();
+      engine.pause();
     } else {
-      transportRef.current.start();
+      setSelectedNote(null);
+      startTransport();
     }
     setIsPlaying(!isPlaying);
   };
 
   const handleStop = () => {
-    transportRef.current.stop();
+    if (isPracticing) {
+      finishPractice();
+      return;
+    }
+    if (isFollowing) {
+      resetPlayback();
+      return;
+    }
+    engine.stop();
     setIsPlaying(false);
-    setCurrentTime(0);
   };
 
-  const handleSpeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const rate = parseFloat(e.target.value);
-    setPlaybackRate(rate);
-    
-    if (midiData) {
-        const originalBpm = midiData.header.tempos[0].bpm;
-        transportRef.current.bpm.value = originalBpm * rate;
+  // Jump anywhere while listening; practice runs keep their own clock
+  const handleSeek = (seconds: number) => {
+    if (isPracticing || isFollowing) return;
+    setSelectedNote(null);
+    engine.seek(seconds);
+  };
+
+  const handleMeasureClick = (index: number) => {
+    if (isPracticing || isFollowing) return;
+    setSelectedNote(null);
+    engine.seekToMeasure(index);
+  };
+
+  const activeNotes = useMemo(
+    () => (practiceData ? getActiveTrack(practiceData, selectedTrack)?.notes ?? [] : []),
+    [practiceData, selectedTrack]
+  );
+
+  // While looping, only the notes inside the loop are scored
+  const practiceNotes = useMemo(
+    () => (loopRange ? notesInLoop(activeNotes, loopRange.start, loopRange.end) : activeNotes),
+    [activeNotes, loopRange]
+  );
+
+  const scoringOptions = { soundingOffset: recorder.soundingOffset };
+
+  // "Tocar yo": the melody is muted and the microphone is scored against it
+  const startPractice = async () => {
+    if (!practiceData) return;
+    resetPlayback();
+    setPracticeError(null);
+    try {
+      await Tone.start();
+      framesRef.current = [];
+      trackerRef.current = await startPitchTracker((pitch, rms) => {
+        framesRef.current.push({ time: engine.getPosition().time, rms, pitch });
+      });
+    } catch (err) {
+      setPracticeError(err instanceof MicrophoneError ? err.message : "No pudimos empezar la práctica.");
+      return;
+    }
+    setupSynthesizers(practiceData, selectedTrack);
+    setIsReady(true);
+    muteMelodyPart();
+    setIsPracticing(true);
+    setCleanRepetitions(0);
+    practiceStartedAtRef.current = Date.now();
+    startTransport();
+    setIsPlaying(true);
+  };
+
+  // Keyed by the original notes, so transposing doesn't split a song's history
+  const currentSongId = useMemo(
+    () => (midiData ? songHash(midiData, selectedTrack) : null),
+    [midiData, selectedTrack]
+  );
+
+  const recordSession = (results: NoteResult[]) => {
+    if (!midiData || !currentSongId || results.length === 0) return;
+    const startedAt = practiceStartedAtRef.current;
+    const session: PracticeSession = {
+      id: createSessionId(),
+      songId: currentSongId,
+      songName: midiData.header.name,
+      trackIndex: selectedTrack,
+      recorderType,
+      startedAt,
+      durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+      rate: playbackRate,
+      bpm: Math.round(bpmAtSeconds(tempoSegments, loopRange?.start ?? 0) * playbackRate),
+      loop,
+      accuracy: summarizeResults(results).accuracy,
+      notes: results.map(r => ({
+        measure: measureIndexAtTime(measures, tempoSegments, r.note.time),
+        midi: r.note.midi,
+        status: r.status,
+      })),
+    };
+    saveSession(session)
+      .then(() => setHistory(current => [...current, session]))
+      .catch(err => setHistoryMessage(err.message));
+  };
+
+  const handleExportHistory = async () => {
+    try {
+      const blob = new Blob([await exportHistory()], { type: 'application/json' });
+      downloadBlob(blob, `flautamaster-historial-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (err) {
+      setHistoryMessage(err instanceof Error ? err.message : "No se pudo exportar el historial.");
     }
   };
 
-  // Sync visualizer loop
+  const handleImportHistory = async (file: File) => {
+    try {
+      const { imported, skipped } = await importHistory(await file.text());
+      setHistory(await listSessions());
+      // Damaged sessions are left out; say so rather than losing them quietly
+      const omitted = skipped === 0 ? '' :
+        skipped === 1 ? ' Una sesión estaba dañada y no se importó.' : ` ${skipped} sesiones estaban dañadas y no se importaron.`;
+      setHistoryMessage(`Se importaron ${imported} ${imported === 1 ? 'sesión' : 'sesiones'}.${omitted}`);
+    } catch (err) {
+      setHistoryMessage(err instanceof Error ? err.message : "No se pudo importar el historial.");
+    }
+  };
+
+  const finishPractice = () => {
+    stopTracker();
+    const now = engine.getPosition().time;
+    engine.stop();
+    // A loop run is judged on the repetition in progress, as far as it got
+    const results = loopRange
+      ? scorePerformance(practiceNotes, framesRef.current, now, scoringOptions)
+      : scorePerformance(practiceNotes, framesRef.current, Infinity, scoringOptions);
+    setNoteResults(results);
+    setPracticeSummary(summarizeResults(results));
+    setPracticeDigest(digestPractice(results, measures, tempoSegments, {
+      songName: practiceData?.header.name ?? '',
+      recorder,
+      rate: playbackRate,
+      loop,
+    }));
+    recordSession(results);
+    setIsPracticing(false);
+    setIsPlaying(false);
+    // Rebuild the parts unmuted for normal listening
+    disposeTracks();
+  };
+
+  // Score notes as they go by and end the run after the last one
   useEffect(() => {
+    if (!isPracticing || !practiceData) return;
     const interval = setInterval(() => {
-        if (isPlaying) {
-            setCurrentTime(transportRef.current.seconds);
-        }
-    }, 16); 
+      const now = engine.getPosition().time;
+      if (now >= practiceData.duration + 0.5) {
+        finishPractice();
+        return;
+      }
+      setNoteResults(scorePerformance(practiceNotes, framesRef.current, now, scoringOptions));
+    }, 250);
     return () => clearInterval(interval);
-  }, [isPlaying]);
+  }, [isPracticing, practiceData, practiceNotes]);
+
+  useEffect(() => {
+    listSongs()
+      .then(setLibrary)
+      .catch(err => setLibraryError(err.message));
+  }, []);
+
+  // Remember how the song was left, a moment after the last change
+  useEffect(() => {
+    if (!libraryId) return;
+    const timer = setTimeout(() => {
+      const settings: SongSettings = { rate: playbackRate, selectedTrack, transposition, loop };
+      handleLibraryUpdate(libraryId, { settings });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [libraryId, playbackRate, selectedTrack, transposition, loop]);
+
+  useEffect(() => {
+    listSessions()
+      .then(setHistory)
+      .catch(err => setHistoryMessage(err.message));
+  }, []);
+
+  // Release the microphone if the app goes away mid-practice
+  useEffect(() => () => {
+    stopTracker();
+    stopFollowInput();
+    disposeTracks();
+  }, []);
+
+  // The right note was played: let the music run to the next onset
+  const advanceFollow = () => {
+    if (!targetRef.current) return;
+    targetRef.current = null;
+    nextStopRef.current += 1;
+    stableFramesRef.current = 0;
+    setTargetNote(null);
+    setShowHint(false);
+    engine.play();
+  };
+
+  // "Espérame": the transport stops at every onset until the student plays that note
+  const startFollow = async () => {
+    if (!practiceData) return;
+    resetPlayback();
+    setFollowError(null);
+    const expected = (note: Note) => note.midi + recorder.soundingOffset;
+    try {
+      await Tone.start();
+      if (followSettings.input === 'midi') {
+        // Keyboards play either the written or the sounding octave
+        followInputRef.current = await startMidiInput((midi) => {
+          const target = targetRef.current;
+          if (target && (midi === target.midi || midi === expected(target))) advanceFollow();
+        }, setMidiDeviceCount);
+      } else {
+        followInputRef.current = await startPitchTracker((pitch) => {
+          const target = targetRef.current;
+          // Don't let the hint tone count as the student playing
+          if (!target || !pitch || performance.now() < ignoreInputUntilRef.current) {
+            stableFramesRef.current = 0;
+            return;
+          }
+          const matches = matchesExpectedPitch(pitch.midi, expected(target), followSettingsRef.current.toleranceCents);
+          stableFramesRef.current = matches ? stableFramesRef.current + 1 : 0;
+          if (stableFramesRef.current >= STABLE_FRAMES) advanceFollow();
+        });
+      }
+    } catch (err) {
+      setFollowError(
+        err instanceof MicrophoneError || err instanceof MidiInputError
+          ? err.message
+          : 'No pudimos empezar el modo "Espérame".'
+      );
+      return;
+    }
+
+    setupSynthesizers(practiceData, selectedTrack);
+    setIsReady(true);
+    muteMelodyPart();
+
+    const stops = buildFollowStops(activeNotes);
+    const from = loopRange?.start ?? 0;
+    followStopsRef.current = stops;
+    nextStopRef.current = Math.max(0, stops.findIndex(stop => stop.time >= from - 0.01));
+    stops.forEach((stop, index) => {
+      engine.schedule((time) => {
+        // Restarting from a paused onset fires its event again
+        if (index !== nextStopRef.current) return;
+        engine.pause(time);
+        targetRef.current = stop.note;
+        stableFramesRef.current = 0;
+        Tone.getDraw().schedule(() => setTargetNote(stop.note), time);
+      }, stop.time);
+    });
+    engine.schedule((time) => {
+      Tone.getDraw().schedule(() => resetPlayback(), time);
+    }, practiceData.duration);
+
+    setIsFollowing(true);
+    setCleanRepetitions(0);
+    startTransport();
+    setIsPlaying(true);
+  };
+
+  const playHint = () => {
+    const target = targetRef.current;
+    const melody = melodyChannel();
+    if (!target || !melody) return;
+    ignoreInputUntilRef.current = performance.now() + 1500;
+    melody.mixer.voice.play(Tone.now(), target.midi + recorder.soundingOffset, 1, 0.8);
+  };
+
+  // Offer help when the student is stuck on a note
+  useEffect(() => {
+    if (!targetNote) return;
+    const timeout = setTimeout(() => setShowHint(true), followSettings.hintAfterSeconds * 1000);
+    return () => clearTimeout(timeout);
+  }, [targetNote, followSettings.hintAfterSeconds]);
+
+  const noteStatuses = useMemo(() => {
+    const statuses = new Map<Note, NoteStatus>();
+    noteResults.forEach(r => statuses.set(r.note, r.status));
+    return statuses;
+  }, [noteResults]);
+
+  const applyRate = (rate: number) => {
+    setPlaybackRate(rate);
+    engine.setRate(rate);
+  };
+
+  const handleSpeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    applyRate(parseFloat(e.target.value));
+  };
+
+  const handleLoopChange = (region: LoopRegion | null) => {
+    setLoop(region);
+    setCleanRepetitions(0);
+    if (region && trainer.enabled) applyRate(trainer.startRate);
+  };
+
+  const handleApplyNextStep = (step: NextStep) => {
+    if (isPracticing || isFollowing) return;
+    handleLoopChange(step.loop);
+    applyRate(step.rate);
+  };
+
+  const handleTrainerChange = (settings: SpeedTrainerSettings) => {
+    // Switching the trainer on (or moving its start) begins the ramp again
+    if (settings.enabled && (!trainer.enabled || settings.startRate !== trainer.startRate)) {
+      applyRate(settings.startRate);
+      setCleanRepetitions(0);
+    }
+    setTrainer(settings);
+  };
+
+  // Keep the transport looping over the selected measures
+  useEffect(() => {
+    engine.setLoop(loopRange);
+  }, [loopRange]);
+
+  // Every pass through the loop: judge it and step the speed trainer
+  useEffect(() => {
+    if (!loopRange) return;
+    const onLoop = (time: number) => {
+      // Must happen before the events at the loop start fire again
+      if (isFollowing) {
+        nextStopRef.current = Math.max(0, followStopsRef.current.findIndex(stop => stop.time >= loopRange.start - 0.01));
+      }
+      const frames = framesRef.current;
+      framesRef.current = [];
+
+      Tone.getDraw().schedule(() => {
+        // Without the microphone there's nothing to judge, so every pass counts
+        const clean = isPracticing
+          ? isCleanRepetition(scorePerformance(practiceNotes, frames, Infinity, scoringOptions))
+          : true;
+        if (!clean) return;
+        setCleanRepetitions(n => n + 1);
+        if (trainer.enabled && playbackRate < trainer.targetRate) {
+          applyRate(nextTrainerRate(playbackRate, trainer));
+        }
+      }, time);
+    };
+    return engine.onLoop(onLoop);
+  }, [loopRange, isFollowing, isPracticing, practiceNotes, trainer, playbackRate]);
+
+  // Count in again every time the loop comes round
+  useEffect(() => {
+    engine.setLoopLeadIn(
+      loopRange && metronome.countInBars > 0 ? (time) => playCountIn(time, loopRange.start) : null
+    );
+  }, [loopRange, metronome.countInBars, metronome.subdivide, playbackRate, measures, tempoSegments]);
+
+  // Metronome clicks ride on the transport, so they follow the tempo map and the speed
+  const clicks = useMemo(
+    () => buildClicks(measures, tempoSegments, metronome.subdivide),
+    [measures, tempoSegments, metronome.subdivide]
+  );
+
+  useEffect(() => {
+    if (!metronome.enabled) return;
+    const part = engine.addEvents(clicks, (time, click: Click) => clickVoice.play(time, click.accent));
+    return () => part.dispose();
+  }, [metronome.enabled, clicks]);
+
+  // Where the playhead is in the bar, for the badges and the beat pulse
+  const currentBeat = secondsToBeats(tempoSegments, currentTime);
+  const currentMeasure = measures.length ? measureAtBeat(measures, currentBeat) : null;
+  const currentPattern = pulsePattern(currentMeasure?.timeSignature ?? [4, 4]);
+  const activePulse = currentMeasure && isPlaying && countInBeat === null
+    ? Math.floor((currentBeat - currentMeasure.startBeat) / currentPattern.pulseBeats)
+    : null;
+
+  const handleChannelChange = (trackIndex: number, settings: ChannelSettings) => {
+    setMixer(current => ({ ...current, [trackIndex]: settings }));
+  };
+
+  // Mixer changes apply straight to the live channels
+  useEffect(() => {
+    tracksRef.current.forEach(t => applyChannelSettings(t.mixer.channel, channelSettings(mixer, t.trackIndex)));
+  }, [mixer]);
+
+  // Tempo map and measures for seeking and position events
+  useEffect(() => {
+    if (practiceData) engine.load(practiceData);
+  }, [practiceData]);
+
+  // The engine pushes the playhead position while the transport runs
+  useEffect(() => engine.onPosition(position => setCurrentTime(position.time)), [engine]);
 
   return (
     <div className="min-h-screen pb-12 px-4 sm:px-6 lg:px-8 bg-[#fdfbf7]">
@@ -198,24 +984,161 @@ function App() {
 
       <main className="max-w-5xl mx-auto space-y-8">
         
-        {midiData ? (
+        {midiData && practiceData ? (
             <div className="bg-white rounded-3xl shadow-xl overflow-hidden border border-slate-200">
                 
                 {/* Info Bar */}
                 <div className="bg-white p-6 border-b border-slate-100 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
                      <div>
-                        <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider mb-1 block">Canción Subida</span>
+                        <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider mb-1 block">
+                            {warmUpSong ? 'Ejercicio de calentamiento' : 'Canción Subida'}
+                        </span>
                         <h2 className="text-3xl font-bold text-slate-800 font-fredoka">{midiData.header.name}</h2>
+                        {warmUpSong && (
+                            <button
+                                onClick={handleReturnToSong}
+                                className="mt-2 flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:text-indigo-800"
+                            >
+                                <ArrowLeft size={16} /> Volver a {warmUpSong.data.header.name}
+                            </button>
+                        )}
                      </div>
-                     <div className="flex gap-2">
-                        <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-xs font-bold">4/4</span>
-                        <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-bold">120 BPM</span>
+                     <div className="flex flex-col items-start md:items-end gap-3">
+                        <div className="flex gap-2">
+                            <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-xs font-bold">
+                                {(currentMeasure?.timeSignature ?? [4, 4]).join('/')}
+                            </span>
+                            <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-bold">
+                                {Math.round(bpmAtSeconds(tempoSegments, currentTime) * playbackRate)} BPM
+                            </span>
+                            <span className="px-3 py-1 bg-purple-100 text-purple-700 rounded-full text-xs font-bold">
+                                {keyDisplayName(detectKey(practiceData, getActiveTrack(practiceData, selectedTrack)?.notes ?? []))}
+                            </span>
+                        </div>
+                        <TrackSelector
+                            midiData={midiData}
+                            selectedTrack={selectedTrack}
+                            melodyTrack={melodyTrack}
+                            onChange={handleTrackChange}
+                        />
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={closeSong}
+                                className="flex items-center gap-1 px-3 py-2 rounded-full text-sm font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200"
+                                title="Volver a la biblioteca"
+                            >
+                                <Library size={16} /> Biblioteca
+                            </button>
+                            <button
+                                onClick={handleExportMusicXml}
+                                disabled={!canExportMusicXml(practiceData)}
+                                className="flex items-center gap-1 px-3 py-2 rounded-full text-sm font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-40"
+                                title={canExportMusicXml(practiceData)
+                                    ? "Descargar la partitura como MusicXML, con el transporte aplicado"
+                                    : "Esta canción solo tiene percusión: no hay notas que escribir en una partitura"}
+                            >
+                                <Download size={16} /> MusicXML
+                            </button>
+                            <button
+                                onClick={handleExportAbc}
+                                className="flex items-center gap-1 px-3 py-2 rounded-full text-sm font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200"
+                                title="Descargar la pista elegida en notación ABC"
+                            >
+                                <Download size={16} /> ABC
+                            </button>
+                            <button
+                                onClick={() => setIsPrintOpen(true)}
+                                className="p-2 rounded-full text-slate-600 bg-slate-100 hover:bg-slate-200"
+                                title="Partitura por páginas para imprimir o guardar en PDF"
+                            >
+                                <Printer size={16} />
+                            </button>
+                            <MidiExportMenu
+                                canTranspose={practiceData !== midiData}
+                                rate={playbackRate}
+                                onExport={handleExportMidi}
+                            />
+                            <button
+                                onClick={handleEditAbc}
+                                className="p-2 rounded-full text-slate-600 bg-slate-100 hover:bg-slate-200"
+                                title="Editar la pista elegida en notación ABC"
+                            >
+                                <PenLine size={16} />
+                            </button>
+                            <MidiUploader onLoad={handleUpload} compact />
+                        </div>
                      </div>
                 </div>
 
+                {printedSong && (
+                    <PrintableScore
+                        midiData={printedSong}
+                        trackIndex={selectedTrack}
+                        title={printedSong.header.name}
+                        composer={printedSong.header.composer}
+                        fingeringSystem={fingeringSystem}
+                        lowestNote={recorder.lowestNote}
+                        onDownload={(blob, extension) =>
+                            downloadBlob(blob, `${safeFileName(printedSong.header.name)}.${extension}`)
+                        }
+                        onClose={() => setIsPrintOpen(false)}
+                    />
+                )}
+
+                {/* Recorder type and transposition */}
+                <RecorderSettings
+                    recorderType={recorderType}
+                    onRecorderChange={handleRecorderChange}
+                    originalNotes={getActiveTrack(midiData, selectedTrack)?.notes ?? []}
+                    transposedNotes={getActiveTrack(practiceData, selectedTrack)?.notes ?? []}
+                    transposition={transposition}
+                    onTranspositionChange={handleTranspositionChange}
+                    instrument={melodyInstrument}
+                    onInstrumentChange={handleInstrumentChange}
+                    onPreviewInstrument={previewInstrument}
+                />
+
                 {/* Sheet Music Visualization (Pentagram) */}
-                <div className="bg-[#fffbf0] relative p-6">
-                     <SheetMusic midiData={midiData} currentTime={currentTime} isPlaying={isPlaying} />
+                <div className="bg-[#fffbf0] relative p-6 space-y-4">
+                     <div className="flex justify-end">
+                        <div className="flex bg-white rounded-full p-1 border border-stone-200">
+                            {SCORE_VIEWS.map(view => (
+                                <button
+                                    key={view.id}
+                                    onClick={() => setScoreView(view.id)}
+                                    className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold transition-all ${
+                                        scoreView === view.id ? 'bg-indigo-600 text-white shadow' : 'text-slate-500 hover:bg-slate-100'
+                                    }`}
+                                >
+                                    {view.icon} {view.label}
+                                </button>
+                            ))}
+                        </div>
+                     </div>
+                     {scoreView !== 'roll' && (
+                        <SheetMusic
+                            midiData={practiceData}
+                            trackIndex={selectedTrack}
+                            currentTime={currentTime}
+                            isPlaying={isPlaying}
+                            selectedNote={selectedNote}
+                            onNoteClick={(note) => setSelectedNote(note === selectedNote ? null : note)}
+                            isNoteFlagged={(note) => !getFingering(note.midi, fingeringSystem, recorder.lowestNote)}
+                            getNoteStatus={(note) => noteStatuses.get(note)}
+                            targetNote={targetNote}
+                            loop={loop}
+                            onLoopChange={handleLoopChange}
+                            onMeasureClick={handleMeasureClick}
+                        />
+                     )}
+                     {scoreView !== 'staff' && (
+                        <PianoRoll
+                            midiData={practiceData}
+                            selectedTrack={selectedTrack}
+                            clock={engine}
+                            onSeek={handleSeek}
+                        />
+                     )}
                 </div>
 
                 {/* Controls Bar */}
@@ -234,24 +1157,36 @@ function App() {
                             
                             <button 
                                 onClick={togglePlay}
-                                className={`w-16 h-16 flex items-center justify-center rounded-full text-white shadow-lg hover:shadow-xl hover:scale-105 transition-all ${isPlaying ? 'bg-amber-500' : 'bg-indigo-600'}`}
+                                disabled={isPracticing || isFollowing}
+                                className={`w-16 h-16 flex items-center justify-center rounded-full text-white shadow-lg hover:shadow-xl hover:scale-105 transition-all disabled:opacity-40 disabled:hover:scale-100 ${isPlaying ? 'bg-amber-500' : 'bg-indigo-600'}`}
                             >
                                 {isPlaying ? <Pause size={32} fill="currentColor" /> : <Play size={32} fill="currentColor" className="ml-1" />}
                             </button>
+
+                            <button
+                                onClick={isPracticing ? finishPractice : startPractice}
+                                disabled={isFollowing}
+                                className={`flex items-center gap-2 px-4 py-2 rounded-full font-semibold text-sm transition-all ${
+                                    isPracticing ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse' : 'bg-pink-100 text-pink-700 hover:bg-pink-200'
+                                } disabled:opacity-40`}
+                                title="Toca la melodía con tu flauta y te decimos cómo te fue"
+                            >
+                                {isPracticing ? <Square size={16} fill="currentColor" /> : <Mic size={16} />}
+                                {isPracticing ? 'Terminar' : 'Tocar yo'}
+                            </button>
                         </div>
 
                         {/* Progress Bar */}
                         <div className="flex-1 w-full order-1 md:order-2">
-                             <div className="flex justify-between text-xs font-bold text-slate-400 mb-2">
-                                <span>{currentTime.toFixed(1)}s</span>
-                                <span>{midiData.duration.toFixed(1)}s</span>
-                             </div>
-                            <div className="h-4 bg-slate-200 rounded-full overflow-hidden relative">
-                                <div 
-                                    className="h-full bg-indigo-500 rounded-full transition-all duration-100 ease-linear shadow-[0_0_10px_rgba(99,102,241,0.5)]"
-                                    style={{ width: `${Math.min(100, (currentTime / midiData.duration) * 100)}%` }}
-                                />
-                            </div>
+                            <ProgressBar
+                                currentTime={currentTime}
+                                duration={midiData.duration}
+                                measures={measures}
+                                tempoSegments={tempoSegments}
+                                loop={loop}
+                                onLoopChange={handleLoopChange}
+                                onSeek={handleSeek}
+                            />
                         </div>
 
                         {/* Speed Control */}
@@ -274,20 +1209,159 @@ function App() {
                             </div>
                         </div>
                     </div>
+
+                    <LoopControls
+                        loop={loop}
+                        onClear={() => handleLoopChange(null)}
+                        trainer={trainer}
+                        onTrainerChange={handleTrainerChange}
+                        playbackRate={playbackRate}
+                        cleanRepetitions={cleanRepetitions}
+                    />
+
+                    <MixerPanel
+                        midiData={practiceData}
+                        melodyTrack={melodyTrackIndex}
+                        settings={mixer}
+                        onChange={handleChannelChange}
+                    />
+
+                    <MetronomePanel
+                        settings={metronome}
+                        onSettingsChange={setMetronome}
+                        pulses={currentPattern.pulses}
+                        activePulse={activePulse}
+                        countInBeat={countInBeat}
+                    />
+
+                    {practiceError && (
+                        <p className="mt-4 text-sm font-semibold text-red-600 text-center">{practiceError}</p>
+                    )}
                 </div>
+
+                <FollowModePanel
+                    settings={followSettings}
+                    onSettingsChange={setFollowSettings}
+                    isFollowing={isFollowing}
+                    onToggle={isFollowing ? resetPlayback : startFollow}
+                    targetNote={targetNote}
+                    showHint={showHint}
+                    onPlayHint={playHint}
+                    error={followError}
+                    midiDeviceCount={midiDeviceCount}
+                />
+
+                {practiceSummary && (
+                    <PracticeReport
+                        summary={practiceSummary}
+                        onClose={() => {
+                            setPracticeSummary(null);
+                            setNoteResults([]);
+                        }}
+                        onRetry={startPractice}
+                    />
+                )}
             </div>
         ) : (
-            <div className="flex items-center justify-center h-64 bg-slate-100 rounded-3xl">
-                <p className="text-slate-400 animate-pulse">Cargando tu partitura...</p>
-            </div>
+            <>
+                <div className="bg-white rounded-3xl shadow-xl border border-slate-200 p-6 space-y-4">
+                    <MidiUploader onLoad={handleUpload} />
+                    <div className="text-center">
+                        <button
+                            onClick={loadDemoSong}
+                            className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline"
+                        >
+                            ¿No tienes un archivo? Prueba con la canción de ejemplo
+                        </button>
+                        {abcText === null && (
+                            <button
+                                onClick={() => setAbcText(ABC_TEMPLATE)}
+                                className="block mx-auto mt-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline"
+                            >
+                                O escribe una melodía en notación ABC
+                            </button>
+                        )}
+                    </div>
+                </div>
+                {abcText !== null && (
+                    <AbcEditor
+                        text={abcText}
+                        onChange={setAbcText}
+                        onOpen={handleOpenAbc}
+                        onDownload={handleDownloadAbcText}
+                        onClose={() => setAbcText(null)}
+                    />
+                )}
+                <SongLibrary
+                    songs={library}
+                    onOpen={openLibrarySong}
+                    onUpdate={handleLibraryUpdate}
+                    onDelete={handleLibraryDelete}
+                    error={libraryError}
+                />
+            </>
+        )}
+
+        {/* Fingering for the current note */}
+        {practiceData && (
+            <FingeringChart
+                notes={getActiveTrack(practiceData, selectedTrack)?.notes ?? []}
+                currentTime={currentTime}
+                system={fingeringSystem}
+                onSystemChange={setFingeringSystem}
+                selectedNote={selectedNote}
+                lowestNote={recorder.lowestNote}
+                targetNote={targetNote}
+            />
         )}
 
-        {/* AI Tutor Section */}
-        <MusicTutor midiData={midiData} />
+        {/* AI Tutor Section; during a warm-up it keeps talking about the song, where it left off,
+            and its measure links wait until the student is back in the song */}
+        <MusicTutor
+            midiData={warmUpSong?.practiceData ?? practiceData}
+            trackIndex={warmUpSong?.track ?? selectedTrack}
+            recorder={recorder}
+            fingeringSystem={fingeringSystem}
+            currentTime={warmUpSong?.time ?? currentTime}
+            measureCount={warmUpSong?.measureCount ?? measures.length}
+            onMeasureClick={warmUpSong ? undefined : handleMeasureClick}
+            onLoadExercise={handleLoadExercise}
+            practiceDigest={practiceDigest}
+            onApplyNextStep={handleApplyNextStep}
+        />
+
+        <ProgressPanel
+            sessions={history}
+            currentSongId={currentSongId}
+            onPracticePassage={(region) => {
+                if (!isPracticing && !isFollowing) handleLoopChange(region);
+            }}
+            onExport={handleExportHistory}
+            onImport={handleImportHistory}
+            message={historyMessage}
+        />
 
       </main>
     </div>
   );
 }
 
+// Owns the playback engine and the metronome voice: they are made once mounted
+// and disposed on unmount, so StrictMode's double render and remount leave no
+// listeners on the transport and no synths behind
+function App() {
+  const [audio, setAudio] = useState<StudioProps | null>(null);
+
+  useEffect(() => {
+    const created = { engine: createPlaybackEngine(), clickVoice: createClickVoice() };
+    setAudio(created);
+    return () => {
+      created.engine.dispose();
+      created.clickVoice.dispose();
+    };
+  }, []);
+
+  return audio ? <Studio {...audio} /> : null;
+}
+
 export default App;
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PenLine, Play, Download, X, AlertCircle, AlertTriangle } from 'lucide-react';
+import { MidiData } from '../types';
+import { AbcParseError, parseAbc } from '../services/abcNotation';
+import { hasOffGridNotes } from '../services/notation';
+import SheetMusic from './SheetMusic';
+
+interface AbcEditorProps {
+  text: string;
+  onChange: (text: string) => void;
+  onOpen: (data: MidiData) => void;
+  onDownload: (text: string) => void;
+  onClose: () => void;
+}
+
+const AbcEditor: React.FC<AbcEditorProps> = ({ text, onChange, onOpen, onDownload, onClose }) => {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  // Keeps the last tune that parsed, so the preview doesn't vanish mid-word
+  const [preview, setPreview] = useState<MidiData | null>(null);
+
+  const result = useMemo(() => {
+    try {
+      return { data: parseAbc(text), error: null };
+    } catch (err) {
+      if (err instanceof AbcParseError) return { data: null, error: err };
+      throw err;
+    }
+  }, [text]);
+
+  useEffect(() => {
+    if (result.data) setPreview(result.data);
+  }, [result]);
+
+  const approximated = useMemo(() => !!preview && hasOffGridNotes(preview, preview.tracks[0]), [preview]);
+
+  const lineCount = text.split('\n').length;
+  const errorLine = result.error?.line ?? null;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-xl border border-slate-200 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <PenLine className="text-indigo-500" />
+          Escribir en notación ABC
+        </h3>
+        <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700" title="Cerrar el editor">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex rounded-xl border border-slate-200 overflow-hidden font-mono text-sm leading-6">
+        {/* Line numbers, with the line that has an error in red */}
+        <div ref={gutterRef} className="select-none overflow-hidden bg-slate-50 text-right text-slate-400 py-2 h-48">
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i} className={`px-2 ${errorLine === i + 1 ? 'bg-red-100 text-red-600 font-bold' : ''}`}>{i + 1}</div>
+          ))}
+        </div>
+        <textarea
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          spellCheck={false}
+          wrap="off"
+          className="flex-1 h-48 px-3 py-2 resize-none focus:outline-none"
+        />
+      </div>
+
+      {result.error ? (
+        <p className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle size={16} />
+          Línea {result.error.line}, columna {result.error.column}: {result.error.message}
+        </p>
+      ) : (
+        <p className="text-sm text-slate-500">
+          {result.data!.header.name} · {result.data!.tracks[0].notes.length} notas
+        </p>
+      )}
+
+      {approximated && (
+        <p className="flex items-center gap-2 text-sm text-amber-700">
+          <AlertTriangle size={16} />
+          El pentagrama redondea los tresillos a semicorcheas; la melodía suena y se descarga con su ritmo real.
+        </p>
+      )}
+
+      {preview && (
+        <div className={result.error ? 'opacity-50' : ''}>
+          <SheetMusic midiData={preview} trackIndex={0} currentTime={0} isPlaying={false} />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => result.data && onOpen(result.data)}
+          disabled={!result.data}
+          className="flex items-center gap-1 px-4 py-2 rounded-full bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 disabled:opacity-40"
+        >
+          <Play size={16} /> Practicar esta melodía
+        </button>
+        <button
+          onClick={() => onDownload(text)}
+          className="flex items-center gap-1 px-4 py-2 rounded-full bg-slate-100 text-slate-600 text-sm font-semibold hover:bg-slate-200"
+        >
+          <Download size={16} /> Descargar .abc
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AbcEditor;
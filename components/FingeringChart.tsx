@@ -0,0 +1,185 @@
+import React, { useId, useMemo } from 'react';
+import { Hand, AlertTriangle } from 'lucide-react';
+import { Note } from '../types';
+import {
+  Fingering,
+  FingeringSystem,
+  FINGERING_SYSTEM_LABELS,
+  getFingering,
+} from '../services/recorderFingerings';
+
+interface FingeringChartProps {
+  notes: Note[];
+  currentTime: number;
+  system: FingeringSystem;
+  onSystemChange: (system: FingeringSystem) => void;
+  // A note clicked on the staff takes precedence over the playhead
+  selectedNote?: Note | null;
+  lowestNote?: number;
+  // The note "Espérame" mode is waiting for; overrides everything else
+  targetNote?: Note | null;
+}
+
+interface RecorderDiagramProps {
+  fingering: Fingering | null;
+  scale?: number;
+  highlight?: boolean;
+}
+
+const HOLE_COLOR = '#1e293b';
+
+const Hole: React.FC<{ cx: number; cy: number; r: number; state: string; id: string }> = ({ cx, cy, r, state, id }) => (
+  <g>
+    <defs>
+      <clipPath id={`half-${id}`}>
+        <rect x={cx - r} y={cy - r} width={r} height={r * 2} />
+      </clipPath>
+    </defs>
+    <circle cx={cx} cy={cy} r={r} fill="#fff" stroke={HOLE_COLOR} strokeWidth={1.5} />
+    {state === 'closed' && <circle cx={cx} cy={cy} r={r} fill={HOLE_COLOR} />}
+    {state === 'half' && <circle cx={cx} cy={cy} r={r} fill={HOLE_COLOR} clipPath={`url(#half-${id})`} />}
+  </g>
+);
+
+// Front view of the recorder with the thumb hole drawn to its left
+export const RecorderDiagram: React.FC<RecorderDiagramProps> = ({ fingering, scale = 1, highlight = false }) => {
+  // Unique clip-path ids per diagram
+  const id = useId().replace(/[^a-zA-Z0-9]/g, '');
+  const width = 70 * scale;
+  const height = 200 * scale;
+  const holes = fingering?.holes ?? [];
+
+  const holeY = (i: number) => (40 + i * 20 + (i >= 3 ? 8 : 0)) * scale;
+  const bodyX = 40 * scale;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      {/* Body */}
+      <rect
+        x={bodyX - 12 * scale} y={4 * scale} width={24 * scale} height={height - 8 * scale}
+        rx={10 * scale}
+        fill={highlight ? '#fef3c7' : '#fdf6e3'} stroke="#d6c7a1" strokeWidth={1.5}
+      />
+      {fingering ? (
+        <>
+          {/* Thumb hole (back) */}
+          <Hole cx={bodyX - 28 * scale} cy={holeY(0) - 10 * scale} r={6 * scale} state={holes[0]} id={`${id}-0`} />
+          <text x={bodyX - 28 * scale} y={holeY(0) + 6 * scale} fontSize={8 * scale} textAnchor="middle" fill="#94a3b8">0</text>
+          {/* Holes 1-5 */}
+          {[1, 2, 3, 4, 5].map(i => (
+            <Hole key={i} cx={bodyX} cy={holeY(i - 1)} r={6 * scale} state={holes[i]} id={`${id}-${i}`} />
+          ))}
+          {/* Double holes 6 and 7: a half-covered double hole is one small hole closed */}
+          {[6, 7].map(i => (
+            <g key={i}>
+              <Hole cx={bodyX - 3 * scale} cy={holeY(i - 1)} r={4 * scale} state={holes[i] === 'open' ? 'open' : 'closed'} id={`${id}-${i}a`} />
+              <Hole cx={bodyX + 6 * scale} cy={holeY(i - 1)} r={2.5 * scale} state={holes[i] === 'closed' ? 'closed' : 'open'} id={`${id}-${i}b`} />
+            </g>
+          ))}
+        </>
+      ) : (
+        <text x={bodyX} y={height / 2} fontSize={22 * scale} textAnchor="middle" fill="#ef4444">?</text>
+      )}
+    </svg>
+  );
+};
+
+const FingeringChart: React.FC<FingeringChartProps> = ({
+  notes,
+  currentTime,
+  system,
+  onSystemChange,
+  selectedNote = null,
+  lowestNote,
+  targetNote = null,
+}) => {
+  const sorted = useMemo(() => [...notes].sort((a, b) => a.time - b.time), [notes]);
+
+  const unplayable = useMemo(
+    () => sorted.filter(n => !getFingering(n.midi, system, lowestNote)).length,
+    [sorted, system, lowestNote]
+  );
+
+  // The sounding note, or the last one that started, and the one after it
+  let currentIndex = -1;
+  if (targetNote) {
+    currentIndex = sorted.indexOf(targetNote);
+  } else if (selectedNote) {
+    currentIndex = sorted.indexOf(selectedNote);
+  } else {
+    for (let i = 0; i < sorted.length; i++) {
+      if (sorted[i].time <= currentTime + 0.01) currentIndex = i;
+      else break;
+    }
+  }
+  const current = currentIndex >= 0 ? sorted[currentIndex] : null;
+  // Before the first note, preview what's coming
+  const next = sorted.slice(currentIndex + 1).find(n => !current || n.time > current.time) ?? null;
+
+  const currentFingering = current ? getFingering(current.midi, system, lowestNote) : null;
+  const nextFingering = next ? getFingering(next.midi, system, lowestNote) : null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-xl border border-amber-100">
+      <div className="flex items-center justify-between mb-4 gap-4 flex-wrap">
+        <h3 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+          <Hand className="text-amber-600" />
+          Digitación
+        </h3>
+        <div className="flex bg-amber-50 rounded-full p-1 border border-amber-100">
+          {(Object.keys(FINGERING_SYSTEM_LABELS) as FingeringSystem[]).map(s => (
+            <button
+              key={s}
+              onClick={() => onSystemChange(s)}
+              className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${
+                system === s ? 'bg-amber-500 text-white shadow' : 'text-amber-700 hover:bg-amber-100'
+              }`}
+            >
+              {FINGERING_SYSTEM_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-end justify-center gap-10">
+        <div className="flex flex-col items-center">
+          <span className={`text-xs font-bold uppercase tracking-wider mb-1 ${targetNote ? 'text-violet-600' : 'text-slate-400'}`}>
+            {targetNote ? '¡Tu turno!' : selectedNote ? 'Nota elegida' : 'Ahora'}
+          </span>
+          <span className="text-2xl font-bold text-slate-800 font-fredoka">{current?.name ?? '—'}</span>
+          {current ? (
+            <RecorderDiagram fingering={currentFingering} highlight />
+          ) : (
+            <p className="h-[200px] flex items-center text-sm text-slate-400">Pulsa play o elige una nota</p>
+          )}
+          {current && !currentFingering && (
+            <span className="text-xs font-bold text-red-500">No se puede tocar en esta flauta</span>
+          )}
+          {currentFingering?.thumbHalf && (
+            <span className="text-xs font-semibold text-amber-700">Pulgar medio tapado</span>
+          )}
+        </div>
+
+        <div className="flex flex-col items-center opacity-70">
+          <span className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-1">Siguiente</span>
+          <span className="text-lg font-bold text-slate-600 font-fredoka">{next?.name ?? '—'}</span>
+          {next && <RecorderDiagram fingering={nextFingering} scale={0.7} />}
+          {next && !nextFingering && (
+            <span className="text-xs font-bold text-red-500">Fuera de rango</span>
+          )}
+        </div>
+      </div>
+
+      {unplayable > 0 && (
+        <div className="mt-4 bg-red-50 text-red-600 p-3 rounded-lg flex items-center gap-2 text-sm">
+          <AlertTriangle size={18} />
+          {unplayable === 1
+            ? 'Hay 1 nota sin digitación posible en esta flauta.'
+            : `Hay ${unplayable} notas sin digitación posible en esta flauta.`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FingeringChart;
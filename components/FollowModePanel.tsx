@@ -0,0 +1,115 @@
+import React from 'react';
+import { Hourglass, Lightbulb } from 'lucide-react';
+import { Note } from '../types';
+import { FollowInput, FollowSettings } from '../services/followMode';
+
+interface FollowModePanelProps {
+  settings: FollowSettings;
+  onSettingsChange: (settings: FollowSettings) => void;
+  isFollowing: boolean;
+  onToggle: () => void;
+  targetNote: Note | null;
+  showHint: boolean;
+  onPlayHint: () => void;
+  error: string | null;
+  // Keyboards connected while following with MIDI input
+  midiDeviceCount: number | null;
+}
+
+const INPUT_LABELS: Record<FollowInput, string> = {
+  microphone: 'Micrófono',
+  midi: 'Teclado MIDI',
+};
+
+const FollowModePanel: React.FC<FollowModePanelProps> = ({
+  settings,
+  onSettingsChange,
+  isFollowing,
+  onToggle,
+  targetNote,
+  showHint,
+  onPlayHint,
+  error,
+  midiDeviceCount,
+}) => (
+  <div className="bg-white px-6 py-4 border-t border-slate-100">
+    <div className="flex flex-col lg:flex-row lg:items-center gap-4 justify-between">
+      <button
+        onClick={onToggle}
+        className={`flex items-center gap-2 px-4 py-2 rounded-full font-semibold text-sm transition-all self-start ${
+          isFollowing ? 'bg-violet-600 text-white hover:bg-violet-700' : 'bg-violet-100 text-violet-700 hover:bg-violet-200'
+        }`}
+        title="La música se detiene en cada nota hasta que la toques bien"
+      >
+        <Hourglass size={16} />
+        {isFollowing ? 'Salir de "Espérame"' : 'Espérame'}
+      </button>
+
+      <div className="flex items-center gap-4 flex-wrap text-xs font-semibold text-slate-600">
+        <label className="flex items-center gap-2">
+          Entrada
+          <select
+            value={settings.input}
+            disabled={isFollowing}
+            onChange={(e) => onSettingsChange({ ...settings, input: e.target.value as FollowInput })}
+            className="font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none disabled:opacity-50"
+          >
+            {(Object.keys(INPUT_LABELS) as FollowInput[]).map(input => (
+              <option key={input} value={input}>{INPUT_LABELS[input]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Tolerancia
+          <input
+            type="range"
+            min="10"
+            max="100"
+            step="5"
+            value={settings.toleranceCents}
+            onChange={(e) => onSettingsChange({ ...settings, toleranceCents: parseInt(e.target.value, 10) })}
+            className="w-20 accent-violet-600 h-1.5 cursor-pointer"
+          />
+          <span className="w-14">{settings.toleranceCents} cents</span>
+        </label>
+        <label className="flex items-center gap-2">
+          Pista tras
+          <input
+            type="number"
+            min="1"
+            max="30"
+            value={settings.hintAfterSeconds}
+            onChange={(e) => onSettingsChange({ ...settings, hintAfterSeconds: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            className="w-12 px-1 border border-slate-200 rounded"
+          />
+          s
+        </label>
+      </div>
+    </div>
+
+    {isFollowing && targetNote && (
+      <div className="mt-3 flex items-center gap-3 text-sm">
+        <span className="px-3 py-1 rounded-full bg-violet-100 text-violet-800 font-bold animate-pulse">
+          Toca: {targetNote.name}
+        </span>
+        {showHint && (
+          <button
+            onClick={onPlayHint}
+            className="flex items-center gap-1 text-amber-700 font-semibold hover:underline"
+          >
+            <Lightbulb size={16} /> Mira la digitación abajo y escucha la nota
+          </button>
+        )}
+      </div>
+    )}
+
+    {midiDeviceCount === 0 && (
+      <p className="mt-3 text-sm font-semibold text-amber-700">
+        No hay ningún teclado MIDI conectado. Conecta uno y empezaremos a escucharlo.
+      </p>
+    )}
+    {error && <p className="mt-3 text-sm font-semibold text-red-600">{error}</p>}
+  </div>
+);
+
+export default FollowModePanel;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Repeat, Gauge, X } from 'lucide-react';
+import { LoopRegion, SpeedTrainerSettings, describeLoop } from '../services/loopRegion';
+
+interface LoopControlsProps {
+  loop: LoopRegion | null;
+  onClear: () => void;
+  trainer: SpeedTrainerSettings;
+  onTrainerChange: (settings: SpeedTrainerSettings) => void;
+  playbackRate: number;
+  cleanRepetitions: number;
+}
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const LoopControls: React.FC<LoopControlsProps> = ({
+  loop,
+  onClear,
+  trainer,
+  onTrainerChange,
+  playbackRate,
+  cleanRepetitions,
+}) => {
+  if (!loop) {
+    return (
+      <p className="mt-4 text-xs text-slate-400 flex items-center gap-2">
+        <Repeat size={14} /> Arrastra sobre el pentagrama o la barra de progreso para repetir unos compases.
+      </p>
+    );
+  }
+
+  const rateInput = (label: string, key: 'startRate' | 'step' | 'targetRate', min: number, max: number) => (
+    <label className="flex items-center gap-1">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={5}
+        value={Math.round(trainer[key] * 100)}
+        disabled={!trainer.enabled}
+        onChange={(e) => {
+          const value = parseInt(e.target.value, 10);
+          if (!Number.isNaN(value)) onTrainerChange({ ...trainer, [key]: Math.min(max, Math.max(min, value)) / 100 });
+        }}
+        className="w-14 px-1 border border-slate-200 rounded disabled:opacity-50"
+      />
+      %
+    </label>
+  );
+
+  return (
+    <div className="mt-4 flex flex-col md:flex-row md:items-center gap-3 justify-between bg-indigo-50 border border-indigo-100 rounded-xl px-4 py-3 text-xs font-semibold text-indigo-800">
+      <div className="flex items-center gap-2">
+        <Repeat size={16} />
+        <span className="text-sm font-bold">Repitiendo {describeLoop(loop)}</span>
+        <button onClick={onClear} className="p-1 text-indigo-400 hover:text-indigo-700" title="Quitar la repetición">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-4 flex-wrap">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={trainer.enabled}
+            onChange={(e) => onTrainerChange({ ...trainer, enabled: e.target.checked })}
+            className="accent-indigo-600"
+          />
+          <Gauge size={16} /> Subir la velocidad poco a poco
+        </label>
+        {rateInput('Desde', 'startRate', 30, 100)}
+        {rateInput('Sube', 'step', 5, 25)}
+        {rateInput('Hasta', 'targetRate', 50, 150)}
+        {trainer.enabled && (
+          <span className="px-2 py-1 bg-white rounded-full">
+            {percent(playbackRate)} · {cleanRepetitions} {cleanRepetitions === 1 ? 'vuelta limpia' : 'vueltas limpias'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoopControls;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { MetronomeSettings } from '../services/metronome';
+
+interface MetronomePanelProps {
+  settings: MetronomeSettings;
+  onSettingsChange: (settings: MetronomeSettings) => void;
+  // Pulses in the current measure and the one sounding now, if playing
+  pulses: number;
+  activePulse: number | null;
+  // Number being counted in before the music starts
+  countInBeat: number | null;
+}
+
+const COUNT_IN_OPTIONS: MetronomeSettings['countInBars'][] = [0, 1, 2];
+
+const MetronomePanel: React.FC<MetronomePanelProps> = ({
+  settings,
+  onSettingsChange,
+  pulses,
+  activePulse,
+  countInBeat,
+}) => (
+  <div className="mt-4 flex flex-col md:flex-row md:items-center gap-3 justify-between text-xs font-semibold text-slate-600">
+    <div className="flex items-center gap-4 flex-wrap">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+          className="accent-indigo-600"
+        />
+        <Timer size={16} /> Metrónomo
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.subdivide}
+          onChange={(e) => onSettingsChange({ ...settings, subdivide: e.target.checked })}
+          className="accent-indigo-600"
+        />
+        Subdivisiones
+      </label>
+      <label className="flex items-center gap-2">
+        Cuenta previa
+        <select
+          value={settings.countInBars}
+          onChange={(e) => onSettingsChange({ ...settings, countInBars: Number(e.target.value) as MetronomeSettings['countInBars'] })}
+          className="font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+        >
+          {COUNT_IN_OPTIONS.map(bars => (
+            <option key={bars} value={bars}>
+              {bars === 0 ? 'No' : bars === 1 ? '1 compás' : `${bars} compases`}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+
+    <div className="flex items-center gap-2 h-8">
+      {countInBeat !== null ? (
+        <span className="px-3 py-1 rounded-full bg-amber-400 text-white text-lg font-bold font-fredoka animate-pulse">
+          {countInBeat}
+        </span>
+      ) : (
+        Array.from({ length: pulses }, (_, i) => (
+          <span
+            key={i}
+            className={`rounded-full transition-all duration-75 ${
+              i === activePulse
+                ? `${i === 0 ? 'bg-indigo-600' : 'bg-indigo-400'} w-4 h-4`
+                : 'bg-slate-200 w-3 h-3'
+            }`}
+          />
+        ))
+      )}
+    </div>
+  </div>
+);
+
+export default MetronomePanel;
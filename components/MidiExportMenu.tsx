@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+
+export interface MidiExportChoices {
+  melodyOnly: boolean;
+  transposed: boolean;
+  practiceTempo: boolean;
+}
+
+interface MidiExportMenuProps {
+  // Whether there is a transposition or a practice speed to bake in
+  canTranspose: boolean;
+  rate: number;
+  onExport: (choices: MidiExportChoices) => void;
+}
+
+const MidiExportMenu: React.FC<MidiExportMenuProps> = ({ canTranspose, rate, onExport }) => {
+  const [open, setOpen] = useState(false);
+  const [choices, setChoices] = useState<MidiExportChoices>({ melodyOnly: false, transposed: true, practiceTempo: false });
+
+  const option = (key: keyof MidiExportChoices, label: string, disabled = false) => (
+    <label className={`flex items-center gap-2 ${disabled ? 'opacity-40' : 'cursor-pointer'}`}>
+      <input
+        type="checkbox"
+        checked={choices[key] && !disabled}
+        disabled={disabled}
+        onChange={(e) => setChoices({ ...choices, [key]: e.target.checked })}
+        className="accent-indigo-600"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-3 py-2 rounded-full text-sm font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200"
+        title="Descargar la canción como archivo MIDI"
+      >
+        <Download size={16} /> MIDI
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-64 p-4 space-y-2 bg-white rounded-2xl shadow-xl border border-slate-200 text-sm text-slate-700">
+          {option('melodyOnly', 'Solo la pista elegida')}
+          {option('transposed', 'Con el transporte aplicado', !canTranspose)}
+          {option('practiceTempo', `Al tempo de práctica (${Math.round(rate * 100)}%)`, rate === 1)}
+          <button
+            onClick={() => {
+              onExport({
+                ...choices,
+                transposed: choices.transposed && canTranspose,
+                practiceTempo: choices.practiceTempo && rate !== 1,
+              });
+              setOpen(false);
+            }}
+            className="w-full mt-2 px-4 py-2 rounded-full bg-indigo-600 text-white font-semibold hover:bg-indigo-700"
+          >
+            Descargar .mid
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MidiExportMenu;
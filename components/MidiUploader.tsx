@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { Upload, FileMusic, AlertCircle } from 'lucide-react';
+import { MidiData } from '../types';
+import { parseMidiFile, MidiParseError, ACCEPTED_MIDI_EXTENSIONS } from '../services/midiParser';
+import { parseMusicXmlFile, isMusicXmlFileName, MusicXmlError, ACCEPTED_MUSICXML_EXTENSIONS } from '../services/musicXml';
+import { parseAbcFile, isAbcFileName, AbcParseError, ACCEPTED_ABC_EXTENSIONS } from '../services/abcNotation';
+
+const ACCEPTED_EXTENSIONS = [...ACCEPTED_MIDI_EXTENSIONS, ...ACCEPTED_MUSICXML_EXTENSIONS, ...ACCEPTED_ABC_EXTENSIONS];
+
+const parseScoreFile = (file: File) =>
+  isMusicXmlFileName(file.name) ? parseMusicXmlFile(file)
+  : isAbcFileName(file.name) ? parseAbcFile(file)
+  : parseMidiFile(file);
+
+interface MidiUploaderProps {
+  onLoad: (data: MidiData) => void;
+  compact?: boolean;
+}
+
+const MidiUploader: React.FC<MidiUploaderProps> = ({ onLoad, compact = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await parseScoreFile(file);
+      onLoad(data);
+    } catch (err) {
+      if (err instanceof AbcParseError) {
+        setError(`"${file.name}", línea ${err.line}: ${err.message}`);
+      } else {
+        setError(err instanceof MidiParseError || err instanceof MusicXmlError ? err.message : "No pudimos abrir ese archivo.");
+      }
+    } finally {
+      setLoading(false);
+      // Allow picking the same file again after an error
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (!isDragging) setIsDragging(true);
+  };
+
+  return (
+    <div>
+      <div
+        onClick={() => inputRef.current?.click()}
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        className={`flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-3xl cursor-pointer transition-all ${
+          compact ? 'p-4' : 'p-10'
+        } ${
+          isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-slate-300 bg-slate-50 hover:border-indigo-400 hover:bg-indigo-50/50'
+        }`}
+      >
+        {loading ? (
+          <FileMusic size={compact ? 24 : 40} className="text-indigo-400 animate-pulse" />
+        ) : (
+          <Upload size={compact ? 24 : 40} className="text-indigo-500" />
+        )}
+        <p className="font-semibold text-slate-700 text-center">
+          {loading ? 'Leyendo tu partitura...' : 'Arrastra aquí tu archivo MIDI, MusicXML o ABC, o haz clic para elegirlo'}
+        </p>
+        {!compact && (
+          <p className="text-xs text-slate-400">Formatos aceptados: {ACCEPTED_EXTENSIONS.join(', ')}</p>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {error && (
+        <div className="mt-3 bg-red-50 text-red-600 p-4 rounded-lg flex items-center gap-2">
+          <AlertCircle size={20} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MidiUploader;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, VolumeX } from 'lucide-react';
+import { MidiData } from '../types';
+import { ChannelSettings, INSTRUMENT_LABELS, MixerSettings, channelSettings, instrumentKind } from '../services/mixer';
+
+interface MixerPanelProps {
+  midiData: MidiData;
+  melodyTrack: number;
+  settings: MixerSettings;
+  onChange: (trackIndex: number, settings: ChannelSettings) => void;
+}
+
+const MixerPanel: React.FC<MixerPanelProps> = ({ midiData, melodyTrack, settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const melody = channelSettings(settings, melodyTrack);
+  const tracks = midiData.tracks
+    .map((track, index) => ({ track, index }))
+    .filter(({ track }) => track.notes.length > 0);
+
+  return (
+    <div className="mt-4 border border-slate-200 rounded-xl bg-white">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 text-sm font-bold text-slate-700"
+        >
+          <SlidersHorizontal size={16} className="text-indigo-500" />
+          Mezclador
+          <span className="text-xs font-semibold text-slate-400">({tracks.length} {tracks.length === 1 ? 'pista' : 'pistas'})</span>
+          {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+        </button>
+        {/* "Minus one": hear only the accompaniment and play the melody yourself */}
+        <button
+          onClick={() => onChange(melodyTrack, { ...melody, muted: !melody.muted })}
+          className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold transition-all ${
+            melody.muted ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+          }`}
+          title="Silencia la melodía para tocarla tú con el acompañamiento"
+        >
+          <VolumeX size={14} /> Sin melodía
+        </button>
+      </div>
+
+      {open && (
+        <div className="border-t border-slate-100 divide-y divide-slate-100">
+          {tracks.map(({ track, index }) => {
+            const channel = channelSettings(settings, index);
+            const update = (change: Partial<ChannelSettings>) => onChange(index, { ...channel, ...change });
+            const isMelody = index === melodyTrack;
+            return (
+              <div key={index} className="flex flex-wrap items-center gap-3 px-4 py-2 text-xs font-semibold text-slate-600">
+                <div className="w-44 truncate">
+                  <span className={`block font-bold ${isMelody ? 'text-indigo-700' : 'text-slate-700'}`}>
+                    {track.name || `Pista ${index + 1}`}
+                  </span>
+                  <span className="text-slate-400">
+                    {isMelody ? 'Melodía · Flauta' : INSTRUMENT_LABELS[instrumentKind(track)]}
+                  </span>
+                </div>
+                <button
+                  onClick={() => update({ muted: !channel.muted })}
+                  className={`w-7 h-7 rounded font-bold ${channel.muted ? 'bg-red-500 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+                  title="Silenciar"
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => update({ solo: !channel.solo })}
+                  className={`w-7 h-7 rounded font-bold ${channel.solo ? 'bg-amber-400 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+                  title="Solo"
+                >
+                  S
+                </button>
+                <label className="flex items-center gap-2">
+                  Volumen
+                  <input
+                    type="range"
+                    min="-30"
+                    max="6"
+                    step="1"
+                    value={channel.volume}
+                    onChange={(e) => update({ volume: parseFloat(e.target.value) })}
+                    className="w-24 accent-indigo-600 h-1.5 cursor-pointer"
+                  />
+                  <span className="w-12 text-right">{channel.volume > 0 ? '+' : ''}{channel.volume} dB</span>
+                </label>
+                <label className="flex items-center gap-2">
+                  I
+                  <input
+                    type="range"
+                    min="-1"
+                    max="1"
+                    step="0.1"
+                    value={channel.pan}
+                    onChange={(e) => update({ pan: parseFloat(e.target.value) })}
+                    onDoubleClick={() => update({ pan: 0 })}
+                    className="w-20 accent-indigo-600 h-1.5 cursor-pointer"
+                    title="Panorama (doble clic para centrar)"
+                  />
+                  D
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MixerPanel;
@@ -1,23 +1,89 @@
-import React, { useState } from 'react';
-import { Sparkles, GraduationCap, Music, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Sparkles, GraduationCap, Music, AlertCircle, Send, MessageCircle, Dumbbell, Play, ClipboardCheck, Repeat } from 'lucide-react';
 import { MidiData, AnalysisResult } from '../types';
-import { analyzeMidiForStudents } from '../services/geminiService';
+import { analyzeMidiForStudents, songHash } from '../services/tutorService';
+import { RecorderProfile } from '../services/recorders';
+import { FingeringSystem } from '../services/recorderFingerings';
+import { WarmUpExercise, generateWarmUps } from '../services/warmUps';
+import { NextStep, PracticeDigest, PracticeFeedback, getPracticeFeedback } from '../services/practiceFeedback';
+import { ChatMessage, askTutorFollowUp, buildChatContext, splitMeasureReferences } from '../services/tutorChat';
 
 interface MusicTutorProps {
   midiData: MidiData | null;
+  trackIndex: number;
+  recorder: RecorderProfile;
+  fingeringSystem: FingeringSystem;
+  // Playhead, so questions like "¿y aquí?" know where "here" is
+  currentTime: number;
+  measureCount: number;
+  // Without it, measure references are highlighted but not clickable
+  onMeasureClick?: (index: number) => void;
+  onLoadExercise: (exercise: WarmUpExercise) => void;
+  // Results of the last practice run, if any
+  practiceDigest: PracticeDigest | null;
+  onApplyNextStep: (step: NextStep) => void;
 }
 
-const MusicTutor: React.FC<MusicTutorProps> = ({ midiData }) => {
+const SUGGESTIONS = ['¿Dónde respiro?', '¿Qué compás es el más difícil?', '¿Cómo toco la nota más aguda?'];
+
+const MusicTutor: React.FC<MusicTutorProps> = ({
+  midiData,
+  trackIndex,
+  recorder,
+  fingeringSystem,
+  currentTime,
+  measureCount,
+  onMeasureClick,
+  onLoadExercise,
+  practiceDigest,
+  onApplyNextStep,
+}) => {
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [thinking, setThinking] = useState(false);
+  const [exercises, setExercises] = useState<WarmUpExercise[] | null>(null);
+  const [creatingExercises, setCreatingExercises] = useState(false);
+  const [feedback, setFeedback] = useState<PracticeFeedback | null>(null);
+  const [loadingFeedback, setLoadingFeedback] = useState(false);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  // Answers to a previous song are dropped when they arrive
+  const conversationRef = useRef(0);
+  const practiceDigestRef = useRef(practiceDigest);
+  practiceDigestRef.current = practiceDigest;
+
+  // Keyed by content: going back from a warm-up rebuilds the song but keeps the conversation
+  const songKey = useMemo(() => (midiData ? songHash(midiData, trackIndex) : ''), [midiData, trackIndex]);
+
+  // A new song invalidates the previous analysis and conversation
+  useEffect(() => {
+    setAnalysis(null);
+    setError(null);
+    setMessages([]);
+    setThinking(false);
+    setExercises(null);
+    setCreatingExercises(false);
+    conversationRef.current++;
+  }, [songKey, recorder, fingeringSystem]);
+
+  // Feedback belongs to one run
+  useEffect(() => {
+    setFeedback(null);
+    setLoadingFeedback(false);
+  }, [practiceDigest]);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages, thinking]);
 
   const handleAnalyze = async () => {
     if (!midiData) return;
     setLoading(true);
     setError(null);
     try {
-      const result = await analyzeMidiForStudents(midiData);
+      const result = await analyzeMidiForStudents(midiData, trackIndex, recorder, fingeringSystem);
       setAnalysis(result);
     } catch (err) {
       setError("Hubo un error al consultar al profesor virtual.");
@@ -26,6 +92,49 @@ const MusicTutor: React.FC<MusicTutorProps> = ({ midiData }) => {
     }
   };
 
+  const handleAsk = async (text: string) => {
+    const asked = text.trim();
+    if (!midiData || !asked || thinking) return;
+    const conversation = conversationRef.current;
+    const history = messages;
+    setMessages([...history, { role: 'student', text: asked }]);
+    setQuestion('');
+    setThinking(true);
+
+    let reply: string;
+    try {
+      const context = buildChatContext(midiData, trackIndex, recorder, fingeringSystem, currentTime);
+      reply = await askTutorFollowUp(context, history, asked);
+    } catch (err) {
+      console.error("Error in tutor chat:", err);
+      reply = "Ahora mismo no puedo contestar. Inténtalo de nuevo en un momento.";
+    }
+    if (conversation !== conversationRef.current) return;
+    setMessages(current => [...current, { role: 'tutor', text: reply }]);
+    setThinking(false);
+  };
+
+  const handleCreateExercises = async () => {
+    if (!midiData) return;
+    const conversation = conversationRef.current;
+    setCreatingExercises(true);
+    const result = await generateWarmUps(midiData, trackIndex, recorder, fingeringSystem);
+    if (conversation !== conversationRef.current) return;
+    setExercises(result);
+    setCreatingExercises(false);
+  };
+
+  const handleFeedback = async () => {
+    if (!practiceDigest) return;
+    const digest = practiceDigest;
+    setLoadingFeedback(true);
+    const result = await getPracticeFeedback(digest);
+    // A newer run replaced this one while waiting
+    if (digest !== practiceDigestRef.current) return;
+    setFeedback(result);
+    setLoadingFeedback(false);
+  };
+
   if (!midiData) return null;
 
   return (
@@ -46,6 +155,48 @@ const MusicTutor: React.FC<MusicTutorProps> = ({ midiData }) => {
         )}
       </div>
 
+      {practiceDigest && (
+        <div className="mb-4 p-4 rounded-xl border border-emerald-200 bg-emerald-50">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="font-bold text-emerald-800 flex items-center gap-2">
+              <ClipboardCheck size={18} />
+              Tu última práctica: {Math.round(practiceDigest.accuracy * 100)}%
+            </h4>
+            {!feedback && (
+              <button
+                onClick={handleFeedback}
+                disabled={loadingFeedback}
+                className="flex items-center gap-1 px-3 py-1 rounded-full bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700 disabled:opacity-50 transition-all"
+              >
+                <Sparkles size={14} className={loadingFeedback ? 'animate-spin' : ''} />
+                {loadingFeedback ? 'Escuchando...' : '¿Qué tal lo hice?'}
+              </button>
+            )}
+          </div>
+          {feedback && (
+            <div className="mt-3 space-y-3">
+              <ul className="space-y-1">
+                {feedback.feedback.map((line, i) => (
+                  <li key={i} className="flex items-start gap-2 text-sm text-emerald-900">
+                    <Music size={14} className="mt-1 text-emerald-500 shrink-0" />
+                    <span>{line}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-sm font-bold text-emerald-800">Siguiente paso: {feedback.nextStep.text}</span>
+                <button
+                  onClick={() => onApplyNextStep(feedback.nextStep)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full bg-white border border-emerald-300 text-emerald-700 text-xs font-bold hover:bg-emerald-100 transition-all"
+                >
+                  <Repeat size={14} /> Practicar así
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {loading && (
         <div className="flex flex-col items-center justify-center py-8 text-indigo-400 animate-pulse">
           <Sparkles className="animate-spin mb-2" size={32} />
@@ -74,7 +225,17 @@ const MusicTutor: React.FC<MusicTutorProps> = ({ midiData }) => {
                 'bg-red-50 border-red-500'
             }`}>
               <span className="text-xs font-bold uppercase tracking-wider opacity-70">Dificultad</span>
-              <p className="text-lg font-bold">{analysis.difficulty}</p>
+              <p className="text-lg font-bold">
+                {analysis.difficulty}
+                {analysis.score !== undefined && (
+                  <span className="ml-2 text-sm font-semibold opacity-70">{analysis.score}/100</span>
+                )}
+              </p>
+              {analysis.reasons && analysis.reasons.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs opacity-80 list-disc list-inside">
+                  {analysis.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                </ul>
+              )}
             </div>
             
             <div className="bg-slate-50 p-4 rounded-xl border border-slate-200">
@@ -89,6 +250,132 @@ const MusicTutor: React.FC<MusicTutorProps> = ({ midiData }) => {
                 </ul>
             </div>
           </div>
+
+          <div className="border-t border-indigo-100 pt-4">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-bold text-indigo-800 flex items-center gap-2">
+                <Dumbbell size={18} className="text-indigo-500" />
+                Ejercicios de calentamiento
+              </h4>
+              {!exercises && (
+                <button
+                  onClick={handleCreateExercises}
+                  disabled={creatingExercises}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full bg-indigo-100 text-indigo-700 text-xs font-bold hover:bg-indigo-200 disabled:opacity-50 transition-all"
+                >
+                  <Sparkles size={14} className={creatingExercises ? 'animate-spin' : ''} />
+                  {creatingExercises ? 'Preparando...' : 'Crear ejercicios'}
+                </button>
+              )}
+            </div>
+            {exercises && exercises.length === 0 && (
+              <p className="text-sm text-slate-500">Esta canción no tiene notas suficientes para preparar ejercicios.</p>
+            )}
+            {exercises && exercises.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {exercises.map((exercise, i) => (
+                  <div key={i} className="p-3 rounded-xl border border-slate-200 bg-slate-50 flex flex-col gap-2">
+                    <span className="font-bold text-slate-800 text-sm">{exercise.title}</span>
+                    <span className="text-xs text-slate-600 flex-1">{exercise.goal}</span>
+                    {exercise.repairs.length > 0 && (
+                      <span className="text-[11px] text-amber-600" title={exercise.repairs.join('\n')}>
+                        Ajustado: {exercise.repairs[0]}{exercise.repairs.length > 1 ? '…' : ''}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => onLoadExercise(exercise)}
+                      className="self-start flex items-center gap-1 px-3 py-1 rounded-full bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 transition-all"
+                    >
+                      <Play size={12} /> Practicar
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-indigo-100 pt-4">
+            <h4 className="font-bold text-indigo-800 mb-2 flex items-center gap-2">
+              <MessageCircle size={18} className="text-indigo-500" />
+              Pregúntale al profesor
+            </h4>
+
+            {messages.length > 0 && (
+              <div className="max-h-72 overflow-y-auto space-y-2 mb-3 pr-1">
+                {messages.map((message, i) => (
+                  <div key={i} className={`flex ${message.role === 'student' ? 'justify-end' : 'justify-start'}`}>
+                    <p className={`max-w-[85%] px-3 py-2 rounded-2xl text-sm ${
+                      message.role === 'student'
+                        ? 'bg-indigo-600 text-white rounded-br-sm'
+                        : 'bg-indigo-50 text-indigo-900 rounded-bl-sm'
+                    }`}>
+                      {message.role === 'student'
+                        ? message.text
+                        : splitMeasureReferences(message.text, measureCount).map((segment, j) =>
+                            segment.measure === undefined ? (
+                              <React.Fragment key={j}>{segment.text}</React.Fragment>
+                            ) : !onMeasureClick ? (
+                              <strong key={j} className="text-indigo-700" title="Vuelve a la canción para ir a este compás">
+                                {segment.text}
+                              </strong>
+                            ) : (
+                              <button
+                                key={j}
+                                onClick={() => onMeasureClick(segment.measure!)}
+                                className="font-bold underline decoration-dotted text-indigo-700 hover:text-purple-600"
+                                title="Ir a este compás"
+                              >
+                                {segment.text}
+                              </button>
+                            )
+                          )}
+                    </p>
+                  </div>
+                ))}
+                {thinking && (
+                  <p className="text-sm text-indigo-400 animate-pulse">El profesor está pensando...</p>
+                )}
+                <div ref={chatEndRef} />
+              </div>
+            )}
+
+            {messages.length === 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {SUGGESTIONS.map(suggestion => (
+                  <button
+                    key={suggestion}
+                    onClick={() => handleAsk(suggestion)}
+                    className="px-3 py-1 rounded-full bg-slate-100 text-slate-600 text-xs font-semibold hover:bg-indigo-100 hover:text-indigo-700 transition-colors"
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleAsk(question);
+              }}
+              className="flex gap-2"
+            >
+              <input
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                placeholder="¿Cómo toco el fa sostenido?"
+                className="flex-1 px-4 py-2 rounded-full border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-300"
+              />
+              <button
+                type="submit"
+                disabled={thinking || !question.trim()}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 disabled:opacity-40 transition-all"
+              >
+                <Send size={16} />
+                Enviar
+              </button>
+            </form>
+          </div>
         </div>
       )}
     </div>
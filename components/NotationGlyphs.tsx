@@ -0,0 +1,287 @@
+import React from 'react';
+import { Articulation } from '../types';
+import { NoteValue } from '../services/notation';
+import { ACCIDENTAL_SYMBOLS, keySignatureSteps } from '../services/pitchSpelling';
+
+// Small SVG building blocks for the staff. Sizes assume 10px between staff lines.
+
+export const STAFF_SPACE = 10;
+export const NOTE_RADIUS_X = 6;
+export const NOTE_RADIUS_Y = 5;
+export const STEM_LENGTH = 30;
+
+// Treble clef: F5 sits on the top line, E4 on the bottom one (C4 = step 28)
+export const TOP_LINE_STEP = 38;
+export const BOTTOM_LINE_STEP = 30;
+
+export const stepY = (staffTop: number, step: number) =>
+  staffTop + (TOP_LINE_STEP - step) * (STAFF_SPACE / 2);
+
+export const isLineStep = (step: number) => (step - BOTTOM_LINE_STEP) % 2 === 0;
+
+// Steps of the ledger lines a note outside the staff needs
+export const ledgerSteps = (step: number) => {
+  const steps: number[] = [];
+  for (let s = BOTTOM_LINE_STEP - 2; s >= step; s -= 2) steps.push(s);
+  for (let s = TOP_LINE_STEP + 2; s <= step; s += 2) steps.push(s);
+  return steps;
+};
+
+interface NoteHeadProps {
+  x: number;
+  y: number;
+  value: NoteValue;
+  color: string;
+}
+
+export const NoteHead: React.FC<NoteHeadProps> = ({ x, y, value, color }) => {
+  const hollow = value === 'whole' || value === 'half';
+  return (
+    <ellipse
+      cx={x}
+      cy={y}
+      rx={value === 'whole' ? NOTE_RADIUS_X + 1 : NOTE_RADIUS_X}
+      ry={NOTE_RADIUS_Y}
+      fill={hollow ? 'none' : color}
+      stroke={color}
+      strokeWidth={hollow ? 2 : 1}
+      transform={`rotate(-15 ${x} ${y})`}
+    />
+  );
+};
+
+interface FlagProps {
+  x: number;
+  y: number;
+  count: number;
+  direction: 'up' | 'down';
+  color: string;
+}
+
+// x,y is the free end of the stem
+export const Flag: React.FC<FlagProps> = ({ x, y, count, direction, color }) => {
+  const sign = direction === 'up' ? 1 : -1;
+  return (
+    <g>
+      {Array.from({ length: count }).map((_, i) => {
+        const startY = y + sign * i * 7;
+        return (
+          <path
+            key={i}
+            d={`M ${x} ${startY} c 0 ${sign * 6} 8 ${sign * 8} 7 ${sign * 16} c 0 ${-sign * 6} -4 ${-sign * 9} -7 ${-sign * 11} z`}
+            fill={color}
+          />
+        );
+      })}
+    </g>
+  );
+};
+
+interface DotProps {
+  x: number;
+  y: number;
+  color: string;
+}
+
+export const AugmentationDot: React.FC<DotProps> = ({ x, y, color }) => (
+  <circle cx={x} cy={y} r={1.8} fill={color} />
+);
+
+interface TieProps {
+  x1: number;
+  x2: number;
+  y: number;
+  // Ties curve away from the stems
+  below: boolean;
+  color: string;
+}
+
+export const Tie: React.FC<TieProps> = ({ x1, x2, y, below, color }) => {
+  const sign = below ? 1 : -1;
+  const startY = y + sign * (NOTE_RADIUS_Y + 1);
+  const midX = (x1 + x2) / 2;
+  return (
+    <path
+      d={`M ${x1} ${startY} Q ${midX} ${startY + sign * 9} ${x2} ${startY} Q ${midX} ${startY + sign * 6} ${x1} ${startY} z`}
+      fill={color}
+      stroke={color}
+      strokeWidth={0.6}
+    />
+  );
+};
+
+interface RestProps {
+  x: number;
+  staffTop: number;
+  value: NoteValue;
+  dotted: boolean;
+  color: string;
+}
+
+export const Rest: React.FC<RestProps> = ({ x, staffTop, value, dotted, color }) => {
+  const s = STAFF_SPACE;
+  let glyph: React.ReactNode;
+  switch (value) {
+    case 'whole':
+      // Hangs from the fourth line
+      glyph = <rect x={x - 6} y={staffTop + s} width={12} height={s / 2} fill={color} />;
+      break;
+    case 'half':
+      // Sits on the middle line
+      glyph = <rect x={x - 6} y={staffTop + 1.5 * s} width={12} height={s / 2} fill={color} />;
+      break;
+    case 'quarter':
+      glyph = (
+        <path
+          d={`M ${x - 2} ${staffTop + 5} l 6 8 l -5 6 l 6 8 c -5 -3 -9 0 -4 6 c -8 -4 -6 -12 0 -9 l -6 -7 l 5 -6 z`}
+          fill={color}
+        />
+      );
+      break;
+    default: {
+      const hooks = value === 'eighth' ? 1 : 2;
+      glyph = (
+        <g>
+          <line x1={x + 4} y1={staffTop + 12} x2={x - 1} y2={staffTop + 22 + hooks * 8} stroke={color} strokeWidth={1.5} />
+          {Array.from({ length: hooks }).map((_, i) => {
+            const hx = x + 4 - i * 2;
+            const hy = staffTop + 12 + i * 8;
+            return (
+              <g key={i}>
+                <circle cx={hx - 6} cy={hy + 2} r={2.4} fill={color} />
+                <path d={`M ${hx - 6} ${hy + 4} q 4 1 6 -2`} stroke={color} strokeWidth={1.2} fill="none" />
+              </g>
+            );
+          })}
+        </g>
+      );
+    }
+  }
+  return (
+    <g>
+      {glyph}
+      {dotted && <AugmentationDot x={x + 9} y={staffTop + 1.5 * s} color={color} />}
+    </g>
+  );
+};
+
+interface TimeSignatureGlyphProps {
+  x: number;
+  staffTop: number;
+  timeSignature: [number, number];
+}
+
+export const TimeSignatureGlyph: React.FC<TimeSignatureGlyphProps> = ({ x, staffTop, timeSignature }) => (
+  <g fontFamily="Georgia, 'Times New Roman', serif" fontWeight="bold" fontSize={22} fill="#1e293b" textAnchor="middle">
+    <text x={x} y={staffTop + 2 * STAFF_SPACE - 1}>{timeSignature[0]}</text>
+    <text x={x} y={staffTop + 4 * STAFF_SPACE - 1}>{timeSignature[1]}</text>
+  </g>
+);
+
+// Number of flags or beams a value needs
+export const beamCount = (value: NoteValue) =>
+  value === 'eighth' ? 1 : value === 'sixteenth' ? 2 : 0;
+
+interface AccidentalProps {
+  x: number;
+  y: number;
+  alter: number;
+  courtesy?: boolean;
+  color: string;
+}
+
+// x is the right edge of the glyph
+export const Accidental: React.FC<AccidentalProps> = ({ x, y, alter, courtesy = false, color }) => (
+  <text
+    x={x}
+    y={y + (alter < 0 ? 3 : 5)}
+    fontSize={alter < 0 ? 17 : 15}
+    textAnchor="end"
+    fill={color}
+    fontFamily="'Segoe UI Symbol', 'Noto Music', 'DejaVu Sans', serif"
+  >
+    {courtesy ? `(${ACCIDENTAL_SYMBOLS[alter]})` : ACCIDENTAL_SYMBOLS[alter]}
+  </text>
+);
+
+const KEY_ACCIDENTAL_WIDTH = 8;
+
+// Horizontal room a key signature (plus cancelling naturals) takes
+export const keySignatureWidth = (fifths: number, previousFifths: number | null = null) => {
+  const cancelled = previousFifths === null ? 0 : cancelledSteps(fifths, previousFifths).length;
+  const count = Math.abs(fifths) + cancelled;
+  return count === 0 ? 0 : count * KEY_ACCIDENTAL_WIDTH + 8;
+};
+
+// Accidentals of the old key that the new one no longer carries
+const cancelledSteps = (fifths: number, previousFifths: number) => {
+  const sameSide = Math.sign(fifths) === Math.sign(previousFifths);
+  const oldSteps = keySignatureSteps(previousFifths);
+  return sameSide && Math.abs(fifths) >= Math.abs(previousFifths) ? [] : oldSteps.slice(sameSide ? Math.abs(fifths) : 0);
+};
+
+interface KeySignatureGlyphProps {
+  x: number;
+  staffTop: number;
+  fifths: number;
+  previousFifths?: number | null;
+}
+
+export const KeySignatureGlyph: React.FC<KeySignatureGlyphProps> = ({ x, staffTop, fifths, previousFifths = null }) => {
+  const naturals = previousFifths === null ? [] : cancelledSteps(fifths, previousFifths);
+  const symbols = [
+    ...naturals.map(step => ({ step, alter: 0 })),
+    ...keySignatureSteps(fifths).map(step => ({ step, alter: fifths > 0 ? 1 : -1 })),
+  ];
+  return (
+    <g>
+      {symbols.map(({ step, alter }, i) => (
+        <Accidental
+          key={i}
+          x={x + (i + 1) * KEY_ACCIDENTAL_WIDTH}
+          y={stepY(staffTop, step)}
+          alter={alter}
+          color="#1e293b"
+        />
+      ))}
+    </g>
+  );
+};
+
+interface ArticulationGlyphProps {
+  x: number;
+  // Edge of the note head the mark sits against
+  y: number;
+  kind: Articulation;
+  above: boolean;
+  color: string;
+}
+
+// Marks stack away from the head: x,y is where this one starts
+export const ArticulationGlyph: React.FC<ArticulationGlyphProps> = ({ x, y, kind, above, color }) => {
+  const sign = above ? -1 : 1;
+  const cy = y + sign * 5;
+  switch (kind) {
+    case 'staccato':
+      return <circle cx={x} cy={cy} r={1.8} fill={color} />;
+    case 'tenuto':
+      return <line x1={x - 5} x2={x + 5} y1={cy} y2={cy} stroke={color} strokeWidth={1.5} />;
+    case 'accent':
+      return <path d={`M ${x - 5} ${cy - 3} L ${x + 5} ${cy} L ${x - 5} ${cy + 3}`} fill="none" stroke={color} strokeWidth={1.3} />;
+    case 'marcato':
+      return <path d={`M ${x - 4} ${cy + sign * -3} L ${x} ${cy + sign * 3} L ${x + 4} ${cy + sign * -3}`} fill="none" stroke={color} strokeWidth={1.5} />;
+    case 'fermata':
+      // Always drawn above, whatever side the other marks use
+      return (
+        <g>
+          <path d={`M ${x - 8} ${y} a 8 7 0 0 1 16 0`} fill="none" stroke={color} strokeWidth={1.5} />
+          <circle cx={x} cy={y - 2} r={1.5} fill={color} />
+        </g>
+      );
+    case 'breath':
+      return <text x={x + 12} y={y} fontSize={16} fontWeight="bold" fill={color}>,</text>;
+  }
+};
+
+// Vertical room one mark takes
+export const ARTICULATION_SPACING = 9;
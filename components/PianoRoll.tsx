@@ -1,170 +1,254 @@
-import React, { useRef, useEffect } from 'react';
-import { MidiData } from '../types';
+import React, { useRef, useEffect, useMemo } from 'react';
+import { MidiData, Note } from '../types';
+import { PlaybackEngine } from '../services/playbackEngine';
+import { isPercussionTrack } from '../services/trackSelection';
+import { buildMeasures, buildTempoSegments } from '../services/tempoMap';
 
 interface PianoRollProps {
-  midiData: MidiData | null;
-  currentTime: number;
-  isPlaying: boolean;
+  midiData: MidiData;
+  selectedTrack: number;
+  // The transport clock; the playhead follows it without re-rendering React
+  clock: Pick<PlaybackEngine, 'getPosition' | 'onPosition'>;
+  onSeek?: (seconds: number) => void;
 }
 
-const PianoRoll: React.FC<PianoRollProps> = ({ midiData, currentTime, isPlaying }) => {
+interface RollNote {
+  note: Note;
+  track: number;
+}
+
+// Constants for rendering
+const PIXELS_PER_SECOND = 100;
+const KEY_WIDTH = 60;
+// The playhead stays put and the notes scroll past it
+const PLAYHEAD_X = KEY_WIDTH + 50;
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const BLACK_KEYS = new Set([1, 3, 6, 8, 10]);
+// One colour per track, in track order
+const TRACK_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ec4899', '#8b5cf6', '#06b6d4', '#ef4444', '#84cc16'];
+const ACTIVE = '#22c55e';
+
+const trackColor = (index: number) => TRACK_COLORS[index % TRACK_COLORS.length];
+
+const PianoRoll: React.FC<PianoRollProps> = ({ midiData, selectedTrack, clock, onSeek }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  
-  // Constants for rendering
-  const PIXELS_PER_SECOND = 100;
-  const NOTE_HEIGHT = 20;
-  const KEY_WIDTH = 60;
-  
+  const timeRef = useRef(clock.getPosition().time);
+
+  // Pitched notes of every track sorted by start; drum kits have no pitch to show
+  const roll = useMemo(() => {
+    const notes: RollNote[] = midiData.tracks
+      .flatMap((track, index) => (isPercussionTrack(track) ? [] : track.notes.map(note => ({ note, track: index }))))
+      .sort((a, b) => a.note.time - b.note.time);
+    // The selected track is drawn last so it stays on top
+    const layered = [...notes.filter(n => n.track !== selectedTrack), ...notes.filter(n => n.track === selectedTrack)];
+    const pitches = notes.map(n => n.note.midi);
+    // Add some padding notes
+    const minMidi = Math.max(0, Math.min(...pitches) - 2);
+    const maxMidi = Math.min(127, Math.max(...pitches) + 2);
+    const longest = Math.max(0, ...notes.map(n => n.note.duration));
+    const segments = buildTempoSegments(midiData.header.tempos);
+    const barTimes = buildMeasures(midiData, segments).map(m => m.startTime);
+    const tracks = Array.from(new Set(notes.map(n => n.track))).sort((a, b) => a - b);
+    return { notes, layered, minMidi, maxMidi, longest, barTimes, tracks };
+  }, [midiData, selectedTrack]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !midiData) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // 1. Calculate note range to fit canvas vertically
-    let minMidi = 127;
-    let maxMidi = 0;
-    
-    // Combine notes from all tracks that have notes
-    const allNotes = midiData.tracks.flatMap(t => t.notes);
-    
-    if (allNotes.length === 0) return;
-
-    allNotes.forEach(n => {
-      if (n.midi < minMidi) minMidi = n.midi;
-      if (n.midi > maxMidi) maxMidi = n.midi;
-    });
+    const container = containerRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !container || !ctx || roll.notes.length === 0) return;
 
-    // Add some padding notes
-    minMidi = Math.max(0, minMidi - 2);
-    maxMidi = Math.min(127, maxMidi + 2);
+    const { notes, layered, minMidi, maxMidi, longest, barTimes } = roll;
     const noteRange = maxMidi - minMidi + 1;
+    let width = 0;
+    let height = 0;
+    let dpr = 1;
+    let rowHeight = 0;
+    // Static layers, drawn once per size: the keyboard and tiles of notes
+    // one screen wide, made the first time they scroll into view
+    let keys: HTMLCanvasElement | null = null;
+    let tiles = new Map<number, HTMLCanvasElement>();
+
+    const layer = (cssWidth: number) => {
+      const c = document.createElement('canvas');
+      c.width = Math.ceil(cssWidth * dpr);
+      c.height = Math.ceil(height * dpr);
+      const layerCtx = c.getContext('2d')!;
+      layerCtx.scale(dpr, dpr);
+      return { c, layerCtx };
+    };
+
+    const rowY = (midi: number) => (maxMidi - midi) * rowHeight;
+
+    const drawKeys = () => {
+      const { c, layerCtx } = layer(KEY_WIDTH);
+      layerCtx.font = `${Math.min(10, rowHeight - 1)}px Inter`;
+      layerCtx.textBaseline = 'middle';
+      for (let midi = minMidi; midi <= maxMidi; midi++) {
+        const y = rowY(midi);
+        layerCtx.fillStyle = BLACK_KEYS.has(midi % 12) ? '#e2e8f0' : '#ffffff';
+        layerCtx.fillRect(0, y, KEY_WIDTH, rowHeight);
+        // Label every C, and every row when there is room
+        if (rowHeight >= 10 || midi % 12 === 0) {
+          layerCtx.fillStyle = '#64748b';
+          layerCtx.fillText(`${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`, 5, y + rowHeight / 2);
+        }
+      }
+      // Divider
+      layerCtx.fillStyle = '#cbd5e1';
+      layerCtx.fillRect(KEY_WIDTH - 1, 0, 1, height);
+      return c;
+    };
+
+    const drawTile = (index: number) => {
+      const { c, layerCtx } = layer(width);
+      const from = (index * width) / PIXELS_PER_SECOND;
+      const to = ((index + 1) * width) / PIXELS_PER_SECOND;
+      const toX = (seconds: number) => (seconds - from) * PIXELS_PER_SECOND;
+
+      // Rows (Notes background)
+      for (let midi = minMidi; midi <= maxMidi; midi++) {
+        layerCtx.fillStyle = BLACK_KEYS.has(midi % 12) ? '#f1f5f9' : '#f8fafc';
+        layerCtx.fillRect(0, rowY(midi), width, rowHeight);
+      }
+      // Bar lines
+      layerCtx.fillStyle = '#cbd5e1';
+      barTimes.filter(t => t >= from && t < to).forEach(t => layerCtx.fillRect(Math.round(toX(t)), 0, 1, height));
+
+      layered.forEach(({ note, track }) => {
+        if (note.time > to || note.time + note.duration < from) return;
+        layerCtx.globalAlpha = track === selectedTrack ? 1 : 0.45;
+        layerCtx.fillStyle = trackColor(track);
+        layerCtx.beginPath();
+        layerCtx.roundRect(toX(note.time), rowY(note.midi) + 1, Math.max(note.duration * PIXELS_PER_SECOND, 4), rowHeight - 2, 3);
+        layerCtx.fill();
+      });
+      layerCtx.globalAlpha = 1;
+      return c;
+    };
+
+    const tile = (index: number) => {
+      let t = tiles.get(index);
+      if (!t) {
+        t = drawTile(index);
+        tiles.set(index, t);
+      }
+      return t;
+    };
 
-    // Resize canvas
-    const parent = canvas.parentElement;
-    if (parent) {
-        canvas.width = parent.clientWidth;
-        canvas.height = Math.max(300, noteRange * NOTE_HEIGHT);
-    }
-
-    const render = () => {
-      if (!ctx || !canvas) return;
-      
-      // Clear
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      // Fill Background
+    // Per frame: copy the visible tiles, then the sounding notes and the playhead
+    const draw = () => {
+      if (!keys) return;
+      const time = timeRef.current;
+      const scroll = time * PIXELS_PER_SECOND - PLAYHEAD_X;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
       ctx.fillStyle = '#f8fafc';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      // Current Time Offset (Center the playhead or keep it left)
-      // Let's keep playhead at 20% of width
-      const playheadX = KEY_WIDTH + 50; 
-      const scrollOffset = currentTime * PIXELS_PER_SECOND;
-
-      // Draw Rows (Notes background)
-      for (let i = 0; i < noteRange; i++) {
-        const midiNote = maxMidi - i;
-        const y = i * NOTE_HEIGHT;
-        
-        // Horizontal grid line
-        ctx.strokeStyle = '#e2e8f0';
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(canvas.width, y);
-        ctx.stroke();
-
-        // Note Label (Left sidebar)
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, y, KEY_WIDTH, NOTE_HEIGHT);
-        ctx.fillStyle = '#64748b';
-        ctx.font = '10px Inter';
-        ctx.textBaseline = 'middle';
-        
-        // Convert Midi to Note Name (Simple implementation)
-        const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-        const noteName = noteNames[midiNote % 12];
-        const octave = Math.floor(midiNote / 12) - 1;
-        
-        ctx.fillText(`${noteName}${octave}`, 5, y + NOTE_HEIGHT / 2);
-        
-        // Divider
-        ctx.strokeStyle = '#cbd5e1';
-        ctx.beginPath();
-        ctx.moveTo(KEY_WIDTH, 0);
-        ctx.lineTo(KEY_WIDTH, canvas.height);
-        ctx.stroke();
+      ctx.fillRect(0, 0, width, height);
+      const firstTile = Math.max(0, Math.floor(scroll / width));
+      for (let index = firstTile; index * width < scroll + width; index++) {
+        ctx.drawImage(tile(index), index * width - scroll, 0, width, height);
       }
+      // Only the tiles around the playhead are kept; long songs would fill memory
+      tiles.forEach((_, index) => {
+        if (index < firstTile - 1 || index > firstTile + 2) tiles.delete(index);
+      });
 
-      // Draw Playhead Line
-      ctx.strokeStyle = '#ef4444';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(playheadX, 0);
-      ctx.lineTo(playheadX, canvas.height);
-      ctx.stroke();
-
-      // Draw Notes
-      allNotes.forEach(note => {
-        // Calculate Y
-        const rowIndex = maxMidi - note.midi;
-        const y = rowIndex * NOTE_HEIGHT + 2; // +2 for padding inside row
-        const h = NOTE_HEIGHT - 4;
-
-        // Calculate X based on time and scroll
-        const startX = playheadX + (note.time * PIXELS_PER_SECOND) - scrollOffset;
-        const width = note.duration * PIXELS_PER_SECOND;
-
-        // Optimization: Don't draw if off screen
-        if (startX + width < 0 || startX > canvas.width) return;
-
-        // Check if currently playing (intersects playhead)
-        const isPlayingNote = (currentTime >= note.time && currentTime < (note.time + note.duration));
-
-        // Draw Rect
-        ctx.fillStyle = isPlayingNote ? '#22c55e' : '#3b82f6'; // Green if active, Blue otherwise
-        
-        // Rounded rect logic simplified
+      // Notes under the playhead light up; only the last `longest` seconds can still sound
+      ctx.fillStyle = ACTIVE;
+      // First note starting after the playhead
+      let after = 0;
+      let upper = notes.length;
+      while (after < upper) {
+        const mid = (after + upper) >> 1;
+        if (notes[mid].note.time <= time) after = mid + 1;
+        else upper = mid;
+      }
+      for (let i = after - 1; i >= 0 && notes[i].note.time >= time - longest; i--) {
+        const { note } = notes[i];
+        if (note.time + note.duration <= time) continue;
         ctx.beginPath();
-        ctx.roundRect(startX, y, Math.max(width, 4), h, 4);
+        ctx.roundRect(note.time * PIXELS_PER_SECOND - scroll, rowY(note.midi) + 1, Math.max(note.duration * PIXELS_PER_SECOND, 4), rowHeight - 2, 3);
         ctx.fill();
-        
-        // Border
-        ctx.strokeStyle = isPlayingNote ? '#15803d' : '#1d4ed8';
-        ctx.lineWidth = 1;
-        ctx.stroke();
-      });
+      }
+
+      ctx.drawImage(keys, 0, 0, KEY_WIDTH, height);
+
+      // Draw Playhead Line
+      ctx.fillStyle = '#ef4444';
+      ctx.fillRect(PLAYHEAD_X - 1, 0, 2, height);
     };
 
-    render();
+    // Matches the backing store to the box and the screen density
+    const resize = () => {
+      const box = container.getBoundingClientRect();
+      const nextDpr = window.devicePixelRatio || 1;
+      if (box.width === width && box.height === height && nextDpr === dpr && keys) return;
+      width = box.width;
+      height = box.height;
+      dpr = nextDpr;
+      if (width === 0 || height === 0) return;
+      rowHeight = height / noteRange;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      keys = drawKeys();
+      tiles = new Map();
+      draw();
+    };
 
-    // Animation loop if playing
-    let animationFrameId: number;
-    if (isPlaying) {
-        const loop = () => {
-            render();
-            animationFrameId = requestAnimationFrame(loop);
-        }
-        loop();
-    }
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    // Zooming or moving to another screen changes the density, not the box
+    window.addEventListener('resize', resize);
+    const unsubscribe = clock.onPosition(position => {
+      timeRef.current = position.time;
+      draw();
+    });
 
     return () => {
-        if (animationFrameId) cancelAnimationFrame(animationFrameId);
+      observer.disconnect();
+      window.removeEventListener('resize', resize);
+      unsubscribe();
     };
-  }, [midiData, currentTime, isPlaying]);
+  }, [roll, clock]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!onSeek || e.button !== 0) return;
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    if (x < KEY_WIDTH) return;
+    onSeek(Math.max(0, timeRef.current + (x - PLAYHEAD_X) / PIXELS_PER_SECOND));
+  };
 
   return (
-    <div className="w-full overflow-hidden border border-slate-200 rounded-lg bg-slate-50 relative shadow-inner">
-        <canvas ref={canvasRef} className="block w-full" />
-        {!midiData && (
+    <div ref={containerRef} className="w-full h-64 overflow-hidden border border-slate-200 rounded-xl bg-slate-50 relative shadow-inner">
+        <canvas
+          ref={canvasRef}
+          className={`block w-full h-full ${onSeek ? 'cursor-pointer' : ''}`}
+          onPointerDown={handlePointerDown}
+        />
+        {/* Track colours, when there is more than one to tell apart */}
+        {roll.tracks.length > 1 && (
+          <div className="absolute top-2 right-2 flex flex-wrap justify-end gap-2 max-w-[60%] pointer-events-none">
+            {roll.tracks.map(index => (
+              <span
+                key={index}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/80 text-[11px] font-semibold ${index === selectedTrack ? 'text-slate-800' : 'text-slate-400'}`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ background: trackColor(index) }} />
+                {midiData.tracks[index].name || `Pista ${index + 1}`}
+              </span>
+            ))}
+          </div>
+        )}
+        {roll.notes.length === 0 && (
              <div className="absolute inset-0 flex items-center justify-center text-slate-400">
-                <p>Sube un archivo MIDI para ver las notas aquí</p>
+                <p>Esta canción no tiene notas que mostrar</p>
              </div>
         )}
     </div>
   );
 };
 
-export default PianoRoll;
\ No newline at end of file
+export default PianoRoll;
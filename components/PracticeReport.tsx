@@ -0,0 +1,90 @@
+import React from 'react';
+import { Trophy, X, RotateCcw } from 'lucide-react';
+import { PracticeSummary } from '../services/practiceScoring';
+
+interface PracticeReportProps {
+  summary: PracticeSummary;
+  onClose: () => void;
+  onRetry: () => void;
+}
+
+const formatTiming = (seconds: number | null) => {
+  if (seconds === null) return '—';
+  const ms = Math.round(seconds * 1000);
+  if (Math.abs(ms) < 20) return 'a tiempo';
+  return ms > 0 ? `${ms} ms tarde` : `${-ms} ms antes`;
+};
+
+const formatCents = (cents: number | null) => {
+  if (cents === null) return '—';
+  const rounded = Math.round(cents);
+  if (Math.abs(rounded) < 5) return 'afinado';
+  return rounded > 0 ? `${rounded} cents alto` : `${-rounded} cents bajo`;
+};
+
+const PracticeReport: React.FC<PracticeReportProps> = ({ summary, onClose, onRetry }) => {
+  const percent = Math.round(summary.accuracy * 100);
+  const message =
+    percent >= 90 ? '¡Excelente! Lo tocaste casi perfecto.' :
+    percent >= 70 ? '¡Muy bien! Ya casi lo tienes.' :
+    percent >= 40 ? 'Buen trabajo, sigue practicando las partes difíciles.' :
+    'Empieza más despacio y repite la canción por partes.';
+
+  return (
+    <div className="bg-white border-t border-slate-200 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className={`w-20 h-20 rounded-full flex items-center justify-center text-2xl font-bold font-fredoka ${
+            percent >= 70 ? 'bg-green-100 text-green-700' : percent >= 40 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'
+          }`}>
+            {percent}%
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Trophy size={20} className="text-amber-500" />
+              Resultado de tu práctica
+            </h3>
+            <p className="text-sm text-slate-600">{message}</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600" title="Cerrar">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-4 text-center">
+        <div className="bg-green-50 rounded-xl p-3">
+          <span className="block text-2xl font-bold text-green-700">{summary.correct}</span>
+          <span className="text-xs font-semibold text-green-700">Correctas</span>
+        </div>
+        <div className="bg-yellow-50 rounded-xl p-3">
+          <span className="block text-2xl font-bold text-yellow-700">{summary.late}</span>
+          <span className="text-xs font-semibold text-yellow-700">Tarde o desafinadas</span>
+        </div>
+        <div className="bg-red-50 rounded-xl p-3">
+          <span className="block text-2xl font-bold text-red-700">{summary.wrong}</span>
+          <span className="text-xs font-semibold text-red-700">Falladas</span>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3">
+          <span className="block text-sm font-bold text-slate-700 mt-1">{formatTiming(summary.meanOnsetError)}</span>
+          <span className="text-xs font-semibold text-slate-500">Ritmo medio</span>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3">
+          <span className="block text-sm font-bold text-slate-700 mt-1">{formatCents(summary.meanCentsError)}</span>
+          <span className="text-xs font-semibold text-slate-500">Afinación media</span>
+        </div>
+      </div>
+
+      <div className="mt-4 text-right">
+        <button
+          onClick={onRetry}
+          className="inline-flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-full font-semibold hover:bg-indigo-700 transition-all"
+        >
+          <RotateCcw size={16} /> Intentar otra vez
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeReport;
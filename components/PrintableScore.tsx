@@ -0,0 +1,244 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Printer, FileImage, FileText, X, AlertCircle } from 'lucide-react';
+import { MidiData } from '../types';
+import { getActiveTrack } from '../services/trackSelection';
+import { buildScore } from '../services/notation';
+import { FingeringSystem, getFingering } from '../services/recorderFingerings';
+import { PAGE_SIZES, PageSizeId, breakIntoSystems, paginate } from '../services/pageLayout';
+import { PageExportError, pagesToPdf, pagesToSvg } from '../services/pageExport';
+import StaffSystem, { CLEF_WIDTH, MeasureBox, belowStaffHeight, measureLead } from './StaffSystem';
+
+interface PrintableScoreProps {
+  midiData: MidiData;
+  trackIndex: number;
+  title: string;
+  composer?: string;
+  fingeringSystem: FingeringSystem;
+  lowestNote?: number;
+  onDownload: (blob: Blob, extension: 'svg' | 'pdf') => void;
+  onClose: () => void;
+}
+
+// Page geometry in points; the music is drawn in staff units and scaled down
+const MARGIN = 42;
+const MUSIC_SCALE = 0.6;
+const TITLE_HEIGHT = 64;
+const FOOTER_HEIGHT = 24;
+// Room above the staff for measure numbers, fermatas and high ledger lines
+const STAFF_OFFSET = 44;
+const STAFF_HEIGHT = 40;
+const SYSTEM_GAP = 12;
+// Narrowest a beat or a single note may get before the line is broken
+const MIN_BEAT_WIDTH = 36;
+const MIN_EVENT_WIDTH = 24;
+// Last systems filled less than this keep their natural width
+const JUSTIFY_LAST_FROM = 0.75;
+
+const PrintableScore: React.FC<PrintableScoreProps> = ({
+  midiData,
+  trackIndex,
+  title,
+  composer,
+  fingeringSystem,
+  lowestNote,
+  onDownload,
+  onClose,
+}) => {
+  const [pageSizeId, setPageSizeId] = useState<PageSizeId>('a4');
+  const [showNoteNames, setShowNoteNames] = useState(true);
+  const [showFingerings, setShowFingerings] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pageRefs = useRef<(SVGSVGElement | null)[]>([]);
+
+  const size = PAGE_SIZES[pageSizeId];
+  const score = useMemo(
+    () => buildScore(midiData, getActiveTrack(midiData, trackIndex)),
+    [midiData, trackIndex]
+  );
+
+  // Systems justified to the line width, then stacked onto pages
+  const layout = useMemo(() => {
+    const lineWidth = (size.width - 2 * MARGIN) / MUSIC_SCALE;
+    // Systems are drawn from x = -20 so their staff lines start at the margin
+    const systemX = -20;
+    const firstStart = systemX + CLEF_WIDTH;
+    const bodyWidth = (i: number) => {
+      const measure = score.measures[i];
+      return Math.max(measure.beats * MIN_BEAT_WIDTH, measure.events.length * MIN_EVENT_WIDTH);
+    };
+    const leadOf = (i: number, opensSystem: boolean) =>
+      measureLead(score.measures[i], opensSystem || score.measures[i].showKeySignature);
+
+    const systems = breakIntoSystems(
+      score.measures.length,
+      lineWidth - firstStart,
+      (i, opensSystem) => leadOf(i, opensSystem).lead + bodyWidth(i),
+    );
+
+    const boxes: MeasureBox[] = [];
+    systems.forEach((system, s) => {
+      const indices = Array.from({ length: system.end - system.first }, (_, k) => system.first + k);
+      const leads = indices.map(i => leadOf(i, i === system.first));
+      const bodies = indices.map(bodyWidth);
+      const natural = leads.reduce((sum, l) => sum + l.lead, 0) + bodies.reduce((sum, b) => sum + b, 0);
+      const room = lineWidth - firstStart;
+      const justify = s < systems.length - 1 || natural / room >= JUSTIFY_LAST_FROM;
+      const stretch = justify ? Math.max(0, room - natural) / bodies.reduce((sum, b) => sum + b, 0) : 0;
+      let x = firstStart;
+      indices.forEach((i, k) => {
+        const body = bodies[k] * (1 + stretch);
+        boxes[i] = {
+          start: x,
+          lead: leads[k].lead,
+          keyWidth: leads[k].keyWidth,
+          pixelsPerBeat: body / score.measures[i].beats,
+          showKey: i === system.first || score.measures[i].showKeySignature,
+        };
+        x += leads[k].lead + body;
+      });
+    });
+    const endXs = systems.map(system => {
+      const last = boxes[system.end - 1];
+      return last.start + last.lead + last.pixelsPerBeat * score.measures[system.end - 1].beats;
+    });
+
+    const systemHeight = STAFF_OFFSET + STAFF_HEIGHT + belowStaffHeight(showFingerings) + SYSTEM_GAP;
+    const pageRoom = (size.height - 2 * MARGIN - FOOTER_HEIGHT) / MUSIC_SCALE;
+    const pages = paginate(systems, systemHeight, pageRoom, pageRoom - TITLE_HEIGHT / MUSIC_SCALE);
+    return { boxes, systems, endXs, systemHeight, pages, systemX };
+  }, [score, size, showFingerings]);
+
+  const fingeringFor = (midi: number) => getFingering(midi, fingeringSystem, lowestNote);
+
+  const pageElements = () => pageRefs.current.slice(0, layout.pages.length).filter((p): p is SVGSVGElement => !!p);
+
+  const handleSvg = () => {
+    const svg = pagesToSvg(pageElements(), size);
+    onDownload(new Blob([svg], { type: 'image/svg+xml' }), 'svg');
+  };
+
+  const handlePdf = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const pdf = await pagesToPdf(pageElements(), size, title);
+      onDownload(new Blob([pdf], { type: 'application/pdf' }), 'pdf');
+    } catch (err) {
+      setError(err instanceof PageExportError ? err.message : 'No se pudo crear el PDF.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderPage = (page: typeof layout.pages[number]) => {
+    const top = MARGIN + (page.number === 1 ? TITLE_HEIGHT : 0);
+    return (
+      <svg
+        key={page.number}
+        ref={(el) => { pageRefs.current[page.number - 1] = el; }}
+        viewBox={`0 0 ${size.width} ${size.height}`}
+        width="100%"
+        className="bg-white shadow-lg"
+      >
+        <rect width={size.width} height={size.height} fill="#ffffff" />
+
+        {page.number === 1 ? (
+          <g fontFamily="Georgia, 'Times New Roman', serif" fill="#1e293b">
+            <text x={size.width / 2} y={MARGIN + 22} fontSize="22" fontWeight="bold" textAnchor="middle">{title}</text>
+            {composer && (
+              <text x={size.width - MARGIN} y={MARGIN + 46} fontSize="11" textAnchor="end">{composer}</text>
+            )}
+          </g>
+        ) : (
+          <text x={MARGIN} y={MARGIN - 16} fontSize="9" fill="#64748b" fontFamily="Georgia, 'Times New Roman', serif">
+            {title}
+          </text>
+        )}
+
+        <g transform={`translate(${MARGIN}, ${top}) scale(${MUSIC_SCALE})`}>
+          {page.systems.map((system, k) => {
+            const s = layout.systems.indexOf(system);
+            return (
+              <StaffSystem
+                key={system.first}
+                score={score}
+                boxes={layout.boxes}
+                first={system.first}
+                end={system.end}
+                x={layout.systemX}
+                staffTop={k * layout.systemHeight + STAFF_OFFSET}
+                endX={layout.endXs[s]}
+                measureNumbers="system"
+                showNoteNames={showNoteNames}
+                fingeringFor={showFingerings ? fingeringFor : undefined}
+              />
+            );
+          })}
+        </g>
+
+        <text x={size.width / 2} y={size.height - MARGIN / 2} fontSize="9" fill="#64748b" textAnchor="middle">
+          {page.number} / {layout.pages.length}
+        </text>
+      </svg>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 overflow-y-auto">
+      <div className="max-w-4xl mx-auto my-8 bg-slate-100 rounded-3xl shadow-2xl">
+        <div className="sticky top-0 z-10 flex flex-wrap items-center gap-3 p-4 bg-white rounded-t-3xl border-b border-slate-200 text-sm">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2 mr-auto">
+            <Printer className="text-indigo-500" />
+            Partitura para imprimir
+          </h3>
+          <select
+            value={pageSizeId}
+            onChange={(e) => setPageSizeId(e.target.value as PageSizeId)}
+            className="font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+          >
+            {(Object.keys(PAGE_SIZES) as PageSizeId[]).map(id => (
+              <option key={id} value={id}>{PAGE_SIZES[id].label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 font-semibold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={showNoteNames} onChange={(e) => setShowNoteNames(e.target.checked)} className="accent-indigo-600" />
+            Nombres de las notas
+          </label>
+          <label className="flex items-center gap-1 font-semibold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={showFingerings} onChange={(e) => setShowFingerings(e.target.checked)} className="accent-indigo-600" />
+            Digitaciones
+          </label>
+          <button
+            onClick={handleSvg}
+            className="flex items-center gap-1 px-3 py-2 rounded-full font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200"
+          >
+            <FileImage size={16} /> SVG
+          </button>
+          <button
+            onClick={handlePdf}
+            disabled={exporting}
+            className="flex items-center gap-1 px-3 py-2 rounded-full font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <FileText size={16} /> {exporting ? 'Preparando…' : 'PDF'}
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700" title="Cerrar">
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && (
+          <p className="flex items-center gap-2 px-6 pt-4 text-sm text-red-600">
+            <AlertCircle size={16} /> {error}
+          </p>
+        )}
+
+        <div className="p-6 space-y-6">
+          {layout.pages.map(renderPage)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintableScore;
@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import { MeasureInfo, TempoSegment } from '../services/tempoMap';
+import { LoopRegion, loopBetween, loopTimes, measureIndexAtTime } from '../services/loopRegion';
+
+interface ProgressBarProps {
+  currentTime: number;
+  duration: number;
+  measures: MeasureInfo[];
+  tempoSegments: TempoSegment[];
+  loop: LoopRegion | null;
+  // Dragging along the bar selects whole measures to loop, a click seeks
+  onLoopChange: (loop: LoopRegion) => void;
+  onSeek: (seconds: number) => void;
+}
+
+const DRAG_THRESHOLD = 4; // Pixels before a press becomes a loop drag
+
+const ProgressBar: React.FC<ProgressBarProps> = ({
+  currentTime,
+  duration,
+  measures,
+  tempoSegments,
+  loop,
+  onLoopChange,
+  onSeek,
+}) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; anchor: number; moved: boolean } | null>(null);
+  const [dragLoop, setDragLoop] = useState<LoopRegion | null>(null);
+
+  const timeAt = (e: React.PointerEvent) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const measureAt = (e: React.PointerEvent) => measureIndexAtTime(measures, tempoSegments, timeAt(e));
+
+  const shownLoop = dragLoop ?? loop;
+  const region = shownLoop && measures.length ? loopTimes(measures, tempoSegments, shownLoop) : null;
+  const percent = (seconds: number) => `${Math.min(100, (seconds / duration) * 100)}%`;
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs font-bold text-slate-400 mb-2">
+        <span>{currentTime.toFixed(1)}s</span>
+        <span>{duration.toFixed(1)}s</span>
+      </div>
+      <div
+        ref={barRef}
+        className="h-4 bg-slate-200 rounded-full overflow-hidden relative cursor-col-resize touch-none"
+        onPointerDown={(e) => {
+          if (e.button !== 0) return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          dragRef.current = { x: e.clientX, anchor: measureAt(e), moved: false };
+        }}
+        onPointerMove={(e) => {
+          const drag = dragRef.current;
+          if (!drag) return;
+          if (!drag.moved && Math.abs(e.clientX - drag.x) < DRAG_THRESHOLD) return;
+          drag.moved = true;
+          setDragLoop(loopBetween(drag.anchor, measureAt(e)));
+        }}
+        onPointerUp={(e) => {
+          const drag = dragRef.current;
+          dragRef.current = null;
+          if (drag?.moved && dragLoop) onLoopChange(dragLoop);
+          else if (drag) onSeek(timeAt(e));
+          setDragLoop(null);
+        }}
+        title="Haz clic para saltar, arrastra para repetir unos compases"
+      >
+        <div
+          className="h-full bg-indigo-500 rounded-full transition-all duration-100 ease-linear shadow-[0_0_10px_rgba(99,102,241,0.5)]"
+          style={{ width: percent(currentTime) }}
+        />
+        {region && (
+          <div
+            className={`absolute top-0 h-full border-x-2 border-indigo-700 ${dragLoop ? 'bg-indigo-400/50' : 'bg-indigo-300/40'}`}
+            style={{ left: percent(region.start), width: `calc(${percent(region.end)} - ${percent(region.start)})` }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressBar;
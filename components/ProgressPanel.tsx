@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TrendingUp, Flame, Download, Upload, Repeat } from 'lucide-react';
+import { PracticeSession } from '../services/practiceHistory';
+import { LoopRegion, describeLoop } from '../services/loopRegion';
+import {
+  dailyMinutes,
+  measureScores,
+  practiceStreak,
+  sessionsForSong,
+  summarizeSongs,
+  weakPassages,
+} from '../services/progress';
+
+interface ProgressPanelProps {
+  sessions: PracticeSession[];
+  // Song loaded right now, so its passages can be practised directly
+  currentSongId: string | null;
+  onPracticePassage: (loop: LoopRegion) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  message: string | null;
+}
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 120;
+const HEATMAP_SESSIONS = 8;
+const STREAK_DAYS = 14;
+
+const accuracyColor = (accuracy: number | null) =>
+  accuracy === null ? '#f1f5f9' :
+  accuracy >= 0.9 ? '#22c55e' :
+  accuracy >= 0.7 ? '#a3e635' :
+  accuracy >= 0.4 ? '#facc15' : '#f87171';
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString('es', { day: 'numeric', month: 'short' });
+
+const ProgressPanel: React.FC<ProgressPanelProps> = ({
+  sessions,
+  currentSongId,
+  onPracticePassage,
+  onExport,
+  onImport,
+  message,
+}) => {
+  const songs = useMemo(() => summarizeSongs(sessions), [sessions]);
+  const [songId, setSongId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Follow the loaded song when it has history
+  useEffect(() => {
+    if (currentSongId && songs.some(s => s.songId === currentSongId)) setSongId(currentSongId);
+  }, [currentSongId, songs]);
+
+  const selected = songId && songs.some(s => s.songId === songId) ? songId : songs[0]?.songId ?? null;
+  const songSessions = useMemo(() => (selected ? sessionsForSong(sessions, selected) : []), [sessions, selected]);
+  const heatmap = useMemo(() => measureScores(songSessions.slice(-HEATMAP_SESSIONS)), [songSessions]);
+  const weak = useMemo(() => weakPassages(songSessions), [songSessions]);
+  const streak = useMemo(() => practiceStreak(sessions), [sessions]);
+  const minutes = useMemo(() => dailyMinutes(sessions, STREAK_DAYS), [sessions]);
+  const maxMinutes = Math.max(1, ...minutes.map(d => d.minutes));
+  const canPractice = selected !== null && selected === currentSongId;
+
+  const points = songSessions.map((s, i) => ({
+    x: songSessions.length === 1 ? CHART_WIDTH / 2 : (i / (songSessions.length - 1)) * CHART_WIDTH,
+    y: CHART_HEIGHT - s.accuracy * CHART_HEIGHT,
+    session: s,
+  }));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-xl border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <TrendingUp className="text-emerald-500" />
+          Mi progreso
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onExport}
+            disabled={sessions.length === 0}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-slate-100 text-slate-600 text-xs font-bold hover:bg-slate-200 disabled:opacity-40"
+            title="Guardar el historial en un archivo"
+          >
+            <Download size={14} /> Exportar
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-slate-100 text-slate-600 text-xs font-bold hover:bg-slate-200"
+            title="Añadir un historial exportado desde otro dispositivo"
+          >
+            <Upload size={14} /> Importar
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {message && <p className="mb-3 text-sm text-slate-600">{message}</p>}
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Cuando termines una práctica con "Tocar yo" aparecerá aquí tu progreso.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {/* Streak and minutes per day */}
+          <div className="flex flex-wrap items-end gap-6">
+            <div className="flex items-center gap-2">
+              <Flame size={28} className={streak.current > 0 ? 'text-orange-500' : 'text-slate-300'} />
+              <div>
+                <p className="text-2xl font-bold font-fredoka text-slate-800 leading-none">
+                  {streak.current} {streak.current === 1 ? 'día' : 'días'}
+                </p>
+                <p className="text-xs text-slate-500">seguidos · récord {streak.longest}</p>
+              </div>
+            </div>
+            <div className="flex items-end gap-1 h-10" title="Minutos de práctica de los últimos 14 días">
+              {minutes.map(({ day, minutes: m }) => (
+                <div
+                  key={day}
+                  className={`w-3 rounded-sm ${m > 0 ? 'bg-emerald-400' : 'bg-slate-100'}`}
+                  style={{ height: `${Math.max(10, (m / maxMinutes) * 100)}%` }}
+                  title={`${day}: ${Math.round(m)} min`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Accuracy over time for one song */}
+          <div>
+            <div className="flex items-center gap-2 mb-2 text-xs font-semibold text-slate-600">
+              Canción
+              <select
+                value={selected ?? ''}
+                onChange={(e) => setSongId(e.target.value)}
+                className="font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+              >
+                {songs.map(song => (
+                  <option key={song.songId} value={song.songId}>
+                    {song.songName} ({song.sessions})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <svg viewBox={`-8 -8 ${CHART_WIDTH + 16} ${CHART_HEIGHT + 16}`} className="w-full h-32">
+              {[0, 0.5, 1].map(level => (
+                <line
+                  key={level}
+                  x1={0}
+                  x2={CHART_WIDTH}
+                  y1={CHART_HEIGHT - level * CHART_HEIGHT}
+                  y2={CHART_HEIGHT - level * CHART_HEIGHT}
+                  stroke="#e2e8f0"
+                  strokeDasharray={level === 0 ? undefined : '4 4'}
+                />
+              ))}
+              <polyline
+                points={points.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="none"
+                stroke="#10b981"
+                strokeWidth={2}
+                strokeLinejoin="round"
+              />
+              {points.map(p => (
+                <circle key={p.session.id} cx={p.x} cy={p.y} r={4} fill="#10b981">
+                  <title>
+                    {formatDate(p.session.startedAt)}: {Math.round(p.session.accuracy * 100)}% al {Math.round(p.session.rate * 100)}%
+                    {p.session.loop ? ` · ${describeLoop(p.session.loop)}` : ''}
+                  </title>
+                </circle>
+              ))}
+            </svg>
+          </div>
+
+          {/* Accuracy per measure in the recent sessions */}
+          {heatmap.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold text-slate-600 mb-2">Compás a compás (últimas sesiones, la más reciente abajo)</p>
+              <div className="overflow-x-auto">
+                <div className="inline-grid gap-0.5" style={{ gridTemplateColumns: `repeat(${heatmap.length}, 14px)` }}>
+                  {heatmap[0].bySession.map((_, row) =>
+                    heatmap.map(({ measure, bySession }) => (
+                      <button
+                        key={`${row}-${measure}`}
+                        disabled={!canPractice}
+                        onClick={() => onPracticePassage({ startMeasure: measure, endMeasure: measure })}
+                        className="w-3.5 h-3.5 rounded-sm disabled:cursor-default"
+                        style={{ backgroundColor: accuracyColor(bySession[row]) }}
+                        title={`Compás ${measure + 1}: ${bySession[row] === null ? 'no tocado' : `${Math.round(bySession[row]! * 100)}%`}`}
+                      />
+                    ))
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Passages that keep going wrong */}
+          {weak.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold text-slate-600 mb-2">Pasajes que cuestan</p>
+              <div className="flex flex-wrap gap-2">
+                {weak.slice(0, 5).map(passage => (
+                  <span
+                    key={passage.startMeasure}
+                    className="flex items-center gap-2 px-3 py-1 rounded-full bg-red-50 border border-red-200 text-xs font-bold text-red-700"
+                  >
+                    {describeLoop(passage)} · {Math.round(passage.accuracy * 100)}%
+                    {canPractice && (
+                      <button
+                        onClick={() => onPracticePassage({ startMeasure: passage.startMeasure, endMeasure: passage.endMeasure })}
+                        className="text-red-500 hover:text-red-800"
+                        title="Repetir este pasaje"
+                      >
+                        <Repeat size={14} />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressPanel;
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { Settings2, CheckCircle2, AlertTriangle, Wand2, Volume2 } from 'lucide-react';
+import { Note } from '../types';
+import { RECORDERS, RecorderType } from '../services/recorders';
+import {
+  TranspositionSettings,
+  analyzeRange,
+  describeTransposition,
+  suggestTransposition,
+} from '../services/transposition';
+import { midiToNoteName } from '../services/pitchSpelling';
+import { MELODY_INSTRUMENT_LABELS, MelodyInstrument } from '../services/instruments';
+
+interface RecorderSettingsProps {
+  recorderType: RecorderType;
+  onRecorderChange: (type: RecorderType) => void;
+  // Active track before and after the student's transposition
+  originalNotes: Note[];
+  transposedNotes: Note[];
+  transposition: TranspositionSettings;
+  onTranspositionChange: (settings: TranspositionSettings) => void;
+  // How the melody sounds during playback
+  instrument: MelodyInstrument;
+  onInstrumentChange: (instrument: MelodyInstrument) => void;
+  onPreviewInstrument: () => void;
+}
+
+const RecorderSettings: React.FC<RecorderSettingsProps> = ({
+  recorderType,
+  onRecorderChange,
+  originalNotes,
+  transposedNotes,
+  transposition,
+  onTranspositionChange,
+  instrument,
+  onInstrumentChange,
+  onPreviewInstrument,
+}) => {
+  const recorder = RECORDERS[recorderType];
+  const report = useMemo(() => analyzeRange(transposedNotes, recorder), [transposedNotes, recorder]);
+  const suggestion = useMemo(() => suggestTransposition(originalNotes, recorder), [originalNotes, recorder]);
+
+  const shiftBy = (semitones: number) =>
+    onTranspositionChange({ ...transposition, semitones: Math.max(-24, Math.min(24, transposition.semitones + semitones)) });
+
+  return (
+    <div className="bg-white px-6 py-4 border-t border-slate-100 flex flex-col lg:flex-row lg:items-center gap-4 justify-between">
+      <div className="flex items-center gap-3">
+        <Settings2 size={18} className="text-slate-400" />
+        <div className="flex flex-col">
+          <label htmlFor="recorder-select" className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Flauta</label>
+          <select
+            id="recorder-select"
+            value={recorderType}
+            onChange={(e) => onRecorderChange(e.target.value as RecorderType)}
+            className="text-sm font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+          >
+            {Object.values(RECORDERS).map(r => (
+              <option key={r.type} value={r.type}>
+                {r.label} · {midiToNoteName(r.lowestNote)}–{midiToNoteName(r.highestNote)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col ml-4">
+          <label htmlFor="instrument-select" className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Sonido</label>
+          <div className="flex items-center gap-1">
+            <select
+              id="instrument-select"
+              value={instrument}
+              onChange={(e) => onInstrumentChange(e.target.value as MelodyInstrument)}
+              className="text-sm font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+            >
+              {(Object.keys(MELODY_INSTRUMENT_LABELS) as MelodyInstrument[]).map(i => (
+                <option key={i} value={i}>{MELODY_INSTRUMENT_LABELS[i]}</option>
+              ))}
+            </select>
+            <button onClick={onPreviewInstrument} className="p-1 text-slate-400 hover:text-indigo-600" title="Escuchar el sonido">
+              <Volume2 size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="text-sm">
+        {report.fits ? (
+          <span className="flex items-center gap-1 text-green-700 font-semibold">
+            <CheckCircle2 size={16} /> Todas las notas caben en tu flauta
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-red-600 font-semibold">
+            <AlertTriangle size={16} />
+            {report.below > 0 && `${report.below} muy graves`}
+            {report.below > 0 && report.above > 0 && ' · '}
+            {report.above > 0 && `${report.above} muy agudas`}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Transportar</span>
+        <button onClick={() => shiftBy(-12)} className="px-2 py-1 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50" title="Bajar una octava">-8ª</button>
+        <button onClick={() => shiftBy(-1)} className="px-2 py-1 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50" title="Bajar un semitono">-½</button>
+        <span className="text-xs font-bold text-slate-700 min-w-[7rem] text-center">{describeTransposition(transposition.semitones)}</span>
+        <button onClick={() => shiftBy(1)} className="px-2 py-1 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50" title="Subir un semitono">+½</button>
+        <button onClick={() => shiftBy(12)} className="px-2 py-1 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50" title="Subir una octava">+8ª</button>
+        <label className="flex items-center gap-1 text-xs font-semibold text-slate-600 ml-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={transposition.foldOutOfRange}
+            onChange={(e) => onTranspositionChange({ ...transposition, foldOutOfRange: e.target.checked })}
+            className="accent-indigo-600"
+          />
+          Ajustar notas sueltas
+        </label>
+        {!report.fits && suggestion !== transposition.semitones && (
+          <button
+            onClick={() => onTranspositionChange({ ...transposition, semitones: suggestion })}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700"
+          >
+            <Wand2 size={14} /> Auto ({describeTransposition(suggestion)})
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecorderSettings;
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { Library, Search, Pencil, Trash2, Play, Check, X } from 'lucide-react';
+import {
+  DEFAULT_LIBRARY_FILTER,
+  LIBRARY_SORT_LABELS,
+  LibraryFilter,
+  LibrarySong,
+  LibrarySort,
+  SongChanges,
+  filterSongs,
+  parseTags,
+} from '../services/songLibrary';
+import { DifficultyLevel } from '../services/difficultyAnalysis';
+import { RECORDERS, RecorderType } from '../services/recorders';
+
+interface SongLibraryProps {
+  songs: LibrarySong[];
+  onOpen: (song: LibrarySong) => void;
+  onUpdate: (id: string, changes: SongChanges) => void;
+  onDelete: (id: string) => void;
+  error: string | null;
+}
+
+const DIFFICULTIES: DifficultyLevel[] = ['Fácil', 'Intermedio', 'Avanzado'];
+
+const DIFFICULTY_STYLES: Record<DifficultyLevel, string> = {
+  'Fácil': 'bg-green-100 text-green-700',
+  'Intermedio': 'bg-yellow-100 text-yellow-700',
+  'Avanzado': 'bg-red-100 text-red-700',
+};
+
+interface Draft {
+  title: string;
+  composer: string;
+  tags: string;
+  recorderType: RecorderType;
+}
+
+const SongLibrary: React.FC<SongLibraryProps> = ({ songs, onOpen, onUpdate, onDelete, error }) => {
+  const [filter, setFilter] = useState<LibraryFilter>(DEFAULT_LIBRARY_FILTER);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const keys = useMemo(() => Array.from(new Set(songs.map(s => s.keyName))).sort(), [songs]);
+  const visible = useMemo(() => filterSongs(songs, filter), [songs, filter]);
+
+  const startEditing = (song: LibrarySong) => {
+    setEditingId(song.id);
+    setDraft({ title: song.title, composer: song.composer, tags: song.tags.join(', '), recorderType: song.recorderType });
+  };
+
+  const saveDraft = () => {
+    if (!editingId || !draft) return;
+    onUpdate(editingId, {
+      title: draft.title.trim() || 'Canción sin título',
+      composer: draft.composer.trim(),
+      tags: parseTags(draft.tags),
+      recorderType: draft.recorderType,
+    });
+    setEditingId(null);
+  };
+
+  if (songs.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-xl border border-slate-200">
+      <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2 mb-4">
+        <Library className="text-indigo-500" />
+        Mi biblioteca
+        <span className="text-sm font-semibold text-slate-400">({songs.length})</span>
+      </h3>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-xs font-semibold text-slate-600">
+        <label className="flex items-center gap-2 flex-1 min-w-[12rem] px-3 py-2 rounded-full border border-slate-200">
+          <Search size={16} className="text-slate-400" />
+          <input
+            value={filter.query}
+            onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            placeholder="Buscar por título, autor o etiqueta"
+            className="flex-1 text-sm focus:outline-none"
+          />
+        </label>
+        <select
+          value={filter.difficulty ?? ''}
+          onChange={(e) => setFilter({ ...filter, difficulty: (e.target.value || null) as DifficultyLevel | null })}
+          className="font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+        >
+          <option value="">Cualquier dificultad</option>
+          {DIFFICULTIES.map(level => <option key={level} value={level}>{level}</option>)}
+        </select>
+        <select
+          value={filter.keyName ?? ''}
+          onChange={(e) => setFilter({ ...filter, keyName: e.target.value || null })}
+          className="font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+        >
+          <option value="">Cualquier tonalidad</option>
+          {keys.map(key => <option key={key} value={key}>{key}</option>)}
+        </select>
+        <select
+          value={filter.sort}
+          onChange={(e) => setFilter({ ...filter, sort: e.target.value as LibrarySort })}
+          className="font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+        >
+          {(Object.keys(LIBRARY_SORT_LABELS) as LibrarySort[]).map(sort => (
+            <option key={sort} value={sort}>{LIBRARY_SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-500">Ninguna canción coincide con la búsqueda.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {visible.map(song => (
+            <li key={song.id} className="py-3">
+              {editingId === song.id && draft ? (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <input
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                    placeholder="Título"
+                    className="flex-1 min-w-[10rem] px-3 py-1 rounded-lg border border-slate-200 font-bold"
+                    autoFocus
+                  />
+                  <input
+                    value={draft.composer}
+                    onChange={(e) => setDraft({ ...draft, composer: e.target.value })}
+                    placeholder="Autor"
+                    className="w-40 px-3 py-1 rounded-lg border border-slate-200"
+                  />
+                  <input
+                    value={draft.tags}
+                    onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                    placeholder="Etiquetas, separadas por comas"
+                    className="w-56 px-3 py-1 rounded-lg border border-slate-200"
+                  />
+                  <select
+                    value={draft.recorderType}
+                    onChange={(e) => setDraft({ ...draft, recorderType: e.target.value as RecorderType })}
+                    className="px-2 py-1 rounded-lg border border-slate-200"
+                  >
+                    {(Object.keys(RECORDERS) as RecorderType[]).map(type => (
+                      <option key={type} value={type}>{RECORDERS[type].label}</option>
+                    ))}
+                  </select>
+                  <button onClick={saveDraft} className="p-1.5 rounded-full bg-indigo-600 text-white" title="Guardar">
+                    <Check size={16} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1.5 rounded-full bg-slate-100 text-slate-600" title="Cancelar">
+                    <X size={16} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-[12rem]">
+                    <p className="font-bold text-slate-800">{song.title}</p>
+                    <p className="text-xs text-slate-500">
+                      {[song.composer, RECORDERS[song.recorderType].label, song.keyName].filter(Boolean).join(' · ')}
+                      {' · '}añadida el {new Date(song.addedAt).toLocaleDateString('es')}
+                    </p>
+                    {song.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {song.tags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => setFilter({ ...filter, query: tag })}
+                            className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600 text-[11px] font-semibold hover:bg-indigo-100"
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-xs font-bold ${DIFFICULTY_STYLES[song.difficulty]}`}>
+                    {song.difficulty}
+                  </span>
+                  <button
+                    onClick={() => onOpen(song)}
+                    className="flex items-center gap-1 px-4 py-1.5 rounded-full bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 transition-all"
+                  >
+                    <Play size={14} /> Abrir
+                  </button>
+                  <button onClick={() => startEditing(song)} className="p-1.5 rounded-full text-slate-400 hover:text-indigo-600" title="Editar">
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`¿Quitar "${song.title}" de la biblioteca?`)) onDelete(song.id);
+                    }}
+                    className="p-1.5 rounded-full text-slate-400 hover:text-red-600"
+                    title="Eliminar"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SongLibrary;
@@ -0,0 +1,480 @@
+import React, { useMemo } from 'react';
+import { Note } from '../types';
+import { Score, ScoreEvent, ScoreMeasure } from '../services/notation';
+import { spelledName } from '../services/pitchSpelling';
+import { Fingering } from '../services/recorderFingerings';
+import { RecorderDiagram } from './FingeringChart';
+import {
+  NoteHead,
+  Accidental,
+  KeySignatureGlyph,
+  keySignatureWidth,
+  ledgerSteps,
+  isLineStep,
+  stepY,
+  Flag,
+  AugmentationDot,
+  Tie,
+  Rest,
+  TimeSignatureGlyph,
+  ArticulationGlyph,
+  ARTICULATION_SPACING,
+  beamCount,
+  STAFF_SPACE,
+  NOTE_RADIUS_X,
+  STEM_LENGTH,
+  NOTE_RADIUS_Y,
+} from './NotationGlyphs';
+
+// Horizontal room of one measure on its staff
+export interface MeasureBox {
+  start: number;
+  // Space before the first beat: padding, key and time signature
+  lead: number;
+  keyWidth: number;
+  pixelsPerBeat: number;
+  // Key signature drawn here, for a change of key or a new system
+  showKey: boolean;
+}
+
+interface StaffSystemProps {
+  score: Score;
+  // Boxes for every measure of the score; only [first, end) are drawn
+  boxes: MeasureBox[];
+  first: number;
+  end: number;
+  // Left edge of the system and top line of its staff
+  x: number;
+  staffTop: number;
+  endX: number;
+  // Measure numbers over every bar line, or only at the start of the system
+  measureNumbers?: 'all' | 'system';
+  showNoteNames?: boolean;
+  // Draws a small recorder diagram under each note
+  fingeringFor?: (midi: number) => Fingering | null;
+  colorFor?: (event: ScoreEvent) => string;
+  isEventActive?: (event: ScoreEvent) => boolean;
+  onNoteClick?: (note: Note) => void;
+  isNoteFlagged?: (note: Note) => boolean;
+  onMeasureClick?: (index: number) => void;
+}
+
+interface PlacedEvent {
+  event: ScoreEvent;
+  x: number;
+  ys: number[];
+  steps: number[];
+  stem: 'up' | 'down';
+}
+
+export const CLEF_WIDTH = 60; // Clef area before the key signature
+const MEASURE_PADDING = 16; // Gap between a bar line and the first note
+const TIME_SIGNATURE_WIDTH = 30;
+const MIDDLE_LINE_STEP = 34; // B4
+const STAFF_LINE_HEIGHT = STAFF_SPACE;
+const FINGERING_SCALE = 0.22;
+export const INK = '#1e293b';
+const ACTIVE = '#16a34a';
+const FLAGGED = '#dc2626';
+
+// Rows under the staff, measured from its bottom line
+const NAMES_OFFSET = 44;
+const FINGERING_OFFSET = 52;
+const FINGERING_HEIGHT = 200 * FINGERING_SCALE;
+
+const lyricsOffset = (withFingerings: boolean) =>
+  withFingerings ? FINGERING_OFFSET + FINGERING_HEIGHT + 16 : 60;
+
+// Height taken below the bottom staff line, lyrics included
+export const belowStaffHeight = (withFingerings: boolean) => lyricsOffset(withFingerings) + 8;
+
+// Room before the first beat of a measure
+export const measureLead = (measure: ScoreMeasure, showKey: boolean) => {
+  const keyWidth = showKey ? keySignatureWidth(measure.key.fifths, measure.previousFifths) : 0;
+  // Extra room on the left for accidentals in front of the first note
+  const lead = MEASURE_PADDING + 6 + keyWidth + (measure.showTimeSignature ? TIME_SIGNATURE_WIDTH : 0);
+  return { lead, keyWidth };
+};
+
+export const beatToX = (measures: ScoreMeasure[], boxes: MeasureBox[], beat: number) => {
+  let i = 0;
+  while (i + 1 < measures.length && measures[i + 1].startBeat <= beat) i++;
+  const measure = measures[i];
+  const offset = Math.min(beat - measure.startBeat, measure.beats + 0.5);
+  return boxes[i].start + boxes[i].lead + offset * boxes[i].pixelsPerBeat;
+};
+
+const StaffSystem: React.FC<StaffSystemProps> = ({
+  score,
+  boxes,
+  first,
+  end,
+  x: systemX,
+  staffTop,
+  endX,
+  measureNumbers = 'all',
+  showNoteNames = true,
+  fingeringFor,
+  colorFor,
+  isEventActive,
+  onNoteClick,
+  isNoteFlagged,
+  onMeasureClick,
+}) => {
+  const staffBottom = staffTop + 4 * STAFF_LINE_HEIGHT;
+  const measures = score.measures.slice(first, end);
+  const isLastSystem = end >= score.measures.length;
+  const eventColor = (event: ScoreEvent) => colorFor?.(event) ?? INK;
+
+  // Helper: Map a diatonic staff position to Y on the treble staff
+  const getStepY = (step: number) => stepY(staffTop, step);
+
+  // Note heads with their stem direction; beamed groups share one direction
+  const placed = useMemo(() => {
+    const result: PlacedEvent[] = [];
+    const groupSteps = new Map<number, number[]>();
+    measures.forEach(m => m.events.forEach(e => {
+      if (e.beamGroup !== null) {
+        groupSteps.set(e.beamGroup, [...(groupSteps.get(e.beamGroup) ?? []), ...e.spelled.map(p => p.step)]);
+      }
+    }));
+
+    // Stem direction: B4 (middle line) and above go down, below goes up
+    const directionFor = (steps: number[]) =>
+      steps.reduce((sum, s) => sum + s, 0) / steps.length >= MIDDLE_LINE_STEP ? 'down' : 'up';
+
+    measures.forEach(m => m.events.forEach(event => {
+      const steps = event.spelled.map(p => p.step);
+      result.push({
+        event,
+        x: beatToX(score.measures, boxes, event.startBeat) + NOTE_RADIUS_X + 2,
+        ys: steps.map(getStepY),
+        steps,
+        stem: event.kind === 'note'
+          ? directionFor(event.beamGroup !== null ? groupSteps.get(event.beamGroup)! : steps)
+          : 'up',
+      });
+    }));
+    return result;
+  }, [score, boxes, first, end, staffTop]);
+
+  const stemX = (p: PlacedEvent) =>
+    p.stem === 'up' ? p.x + NOTE_RADIUS_X - 1 : p.x - NOTE_RADIUS_X + 1;
+
+  // Where a note's stem starts: the head furthest from the stem's free end
+  const stemBaseY = (p: PlacedEvent) => (p.stem === 'up' ? Math.max(...p.ys) : Math.min(...p.ys));
+  const stemTipY = (p: PlacedEvent) => (p.stem === 'up' ? Math.min(...p.ys) - STEM_LENGTH : Math.max(...p.ys) + STEM_LENGTH);
+
+  const beams = useMemo(() => {
+    const groups = new Map<number, PlacedEvent[]>();
+    placed.forEach(p => {
+      if (p.event.beamGroup === null) return;
+      groups.set(p.event.beamGroup, [...(groups.get(p.event.beamGroup) ?? []), p]);
+    });
+    return Array.from(groups.entries()).map(([id, members]) => {
+      const up = members[0].stem === 'up';
+      // Flat beam clear of every head in the group
+      const beamY = up
+        ? Math.min(...members.map(stemTipY))
+        : Math.max(...members.map(stemTipY));
+      return { id, members, up, beamY };
+    });
+  }, [placed]);
+
+  const beamYFor = new Map<number, number>();
+  beams.forEach(b => beamYFor.set(b.id, b.beamY));
+
+  const renderNote = (p: PlacedEvent, idx: number) => {
+    const { event, x, ys, steps } = p;
+    const note = score.notes[event.noteIndex];
+    const color = eventColor(event);
+    const flagged = !!note && !event.tieFromPrev && !!isNoteFlagged?.(note);
+    const flags = beamCount(event.value);
+    const tipY = event.beamGroup !== null ? beamYFor.get(event.beamGroup)! : stemTipY(p);
+    const fingeringTop = staffBottom + (showNoteNames ? FINGERING_OFFSET : NAMES_OFFSET - 12);
+
+    return (
+      <g
+        key={`note-${idx}`}
+        className={`transition-all duration-75 ${onNoteClick ? 'cursor-pointer' : ''}`}
+        onClick={note && onNoteClick ? () => onNoteClick(note) : undefined}
+      >
+        {/* Generous invisible hit area around the heads */}
+        {onNoteClick && (
+          <rect
+            x={x - 10} y={Math.min(...ys) - 10}
+            width={20} height={Math.max(...ys) - Math.min(...ys) + 20}
+            fill="transparent"
+          />
+        )}
+
+        {flagged && (
+          <text x={x} y={Math.min(staffTop, Math.min(...ys)) - 14} fontSize="12" fontWeight="bold" textAnchor="middle" fill={FLAGGED}>!</text>
+        )}
+
+        {/* Ledger Lines for anything above or below the staff */}
+        {Array.from(new Set(steps.flatMap(ledgerSteps))).map(step => (
+          <line
+            key={`ledger-${step}`}
+            x1={x - 9} x2={x + 9}
+            y1={getStepY(step)} y2={getStepY(step)}
+            stroke="#334155" strokeWidth="1"
+          />
+        ))}
+
+        {/* Stem */}
+        {event.value !== 'whole' && (
+          <line
+            x1={stemX(p)}
+            x2={stemX(p)}
+            y1={stemBaseY(p)}
+            y2={tipY}
+            stroke={color}
+            strokeWidth="1.5"
+          />
+        )}
+
+        {/* Flags for unbeamed eighths and sixteenths */}
+        {flags > 0 && event.beamGroup === null && (
+          <Flag x={stemX(p)} y={tipY} count={flags} direction={p.stem} color={color} />
+        )}
+
+        {/* Note Heads */}
+        {ys.map((y, i) => (
+          <g key={i}>
+            <NoteHead x={x} y={y} value={event.value} color={color} />
+            {event.accidentals[i] !== null && (
+              <Accidental
+                x={x - NOTE_RADIUS_X - 2}
+                y={y}
+                alter={event.accidentals[i]!}
+                courtesy={event.courtesy[i]}
+                color={color}
+              />
+            )}
+            {event.dotted && (
+              // Dots sit in a space, so notes on a line push theirs up
+              <AugmentationDot
+                x={x + NOTE_RADIUS_X + 5}
+                y={isLineStep(steps[i]) ? y - STAFF_LINE_HEIGHT / 2 : y}
+                color={color}
+              />
+            )}
+          </g>
+        ))}
+
+        {/* Articulations sit on the head side, away from the stem */}
+        {event.articulations
+          .filter(kind => kind !== 'fermata' && kind !== 'breath')
+          .map((kind, i) => {
+            const above = p.stem === 'down';
+            const edge = above ? Math.min(...ys) - NOTE_RADIUS_Y - 1 : Math.max(...ys) + NOTE_RADIUS_Y + 1;
+            return (
+              <ArticulationGlyph
+                key={kind}
+                x={x}
+                y={edge + (above ? -1 : 1) * i * ARTICULATION_SPACING}
+                kind={kind}
+                above={above}
+                color={color}
+              />
+            );
+          })}
+        {event.articulations.includes('fermata') && (
+          <ArticulationGlyph
+            x={x}
+            y={Math.min(staffTop, ...ys, p.stem === 'up' ? tipY : Infinity) - 10}
+            kind="fermata"
+            above
+            color={color}
+          />
+        )}
+        {event.articulations.includes('breath') && (
+          <ArticulationGlyph x={x} y={staffTop - 2} kind="breath" above color={color} />
+        )}
+
+        {event.lyric && (
+          <text x={x} y={staffBottom + lyricsOffset(!!fingeringFor)} fontSize="12" textAnchor="middle" fill="#334155">
+            {event.lyric}
+          </text>
+        )}
+
+        {/* Note Name Label (Optional educational aid) */}
+        {showNoteNames && !event.tieFromPrev && event.spelled.length > 0 && (
+          <text
+            x={x}
+            y={staffBottom + NAMES_OFFSET}
+            fontSize="9"
+            textAnchor="middle"
+            fill={color !== INK ? color : '#94a3b8'}
+            fontWeight="bold"
+          >
+            {spelledName(event.spelled[event.spelled.length - 1])}
+          </text>
+        )}
+
+        {/* Fingering of the top note, centred under the head */}
+        {fingeringFor && !event.tieFromPrev && event.pitches.length > 0 && (
+          <g transform={`translate(${x - 40 * FINGERING_SCALE}, ${fingeringTop})`}>
+            <RecorderDiagram fingering={fingeringFor(event.pitches[event.pitches.length - 1])} scale={FINGERING_SCALE} />
+          </g>
+        )}
+      </g>
+    );
+  };
+
+  const firstNote = placed.find(p => p.event.kind === 'note');
+
+  return (
+    <g>
+      {/* Staff Lines (Pentagrama) */}
+      {[0, 1, 2, 3, 4].map((i) => (
+        <line
+          key={`line-${i}`}
+          x1={systemX + 20}
+          x2={endX}
+          y1={staffTop + (i * STAFF_LINE_HEIGHT)}
+          y2={staffTop + (i * STAFF_LINE_HEIGHT)}
+          stroke="#334155"
+          strokeWidth="1"
+        />
+      ))}
+
+      {/* Clef (Clave de Sol) - Simple Path Representation */}
+      <g transform={`translate(${systemX + 30}, ${staffTop - 15}) scale(1.5)`}>
+        <path
+          d="M9,25 C5,25 5,18 9,15 C12,12 14,14 14,18 C14,24 8,28 4,22 C2,19 4,15 6,12 L10,2 L11,2 L8,10 C10,9 15,10 16,18 C17,26 10,30 9,25 Z"
+          fill="none"
+          stroke="#1e293b"
+          strokeWidth="1.2"
+        />
+      </g>
+
+      {/* Measures: bar lines, time signatures and numbers */}
+      {measures.map((measure, offset) => {
+        const i = first + offset;
+        const box = boxes[i];
+        const numbered = measureNumbers === 'all' ? i > 0 : i > 0 && i === first;
+        return (
+          <g key={`measure-${i}`}>
+            {i > first && (
+              <line
+                x1={box.start} x2={box.start}
+                y1={staffTop} y2={staffBottom}
+                stroke="#334155" strokeWidth="1"
+              />
+            )}
+            {numbered && (
+              <text
+                x={i === first ? systemX + 20 : box.start + 2}
+                y={staffTop - 8}
+                fontSize="9"
+                fill="#94a3b8"
+                className={onMeasureClick ? 'cursor-pointer hover:fill-indigo-600' : ''}
+                onClick={onMeasureClick ? () => onMeasureClick(measure.index) : undefined}
+              >
+                {measure.index + 1}
+              </text>
+            )}
+            {box.showKey && (
+              <KeySignatureGlyph
+                x={box.start}
+                staffTop={staffTop}
+                fifths={measure.key.fifths}
+                previousFifths={measure.showKeySignature ? measure.previousFifths : null}
+              />
+            )}
+            {measure.showTimeSignature && (
+              <TimeSignatureGlyph
+                x={box.start + box.keyWidth + TIME_SIGNATURE_WIDTH / 2 + 2}
+                staffTop={staffTop}
+                timeSignature={measure.timeSignature}
+              />
+            )}
+          </g>
+        );
+      })}
+
+      {isLastSystem ? (
+        <>
+          {/* Final double bar line */}
+          <line x1={endX - 5} x2={endX - 5} y1={staffTop} y2={staffBottom} stroke="#334155" strokeWidth="1" />
+          <line x1={endX - 1.5} x2={endX - 1.5} y1={staffTop} y2={staffBottom} stroke="#334155" strokeWidth="3" />
+        </>
+      ) : (
+        <line x1={endX} x2={endX} y1={staffTop} y2={staffBottom} stroke="#334155" strokeWidth="1" />
+      )}
+
+      {/* Rests */}
+      {placed.map((p, idx) => p.event.kind === 'rest' && (
+        <Rest
+          key={`rest-${idx}`}
+          x={p.event.wholeMeasure ? beatToX(score.measures, boxes, p.event.startBeat + p.event.beats / 2) : p.x}
+          staffTop={staffTop}
+          value={p.event.value}
+          dotted={p.event.dotted}
+          color={INK}
+        />
+      ))}
+
+      {/* A tie coming from the previous system starts at the clef */}
+      {firstNote?.event.tieFromPrev && firstNote.ys.map((y, i) => (
+        <Tie
+          key={`tie-in-${i}`}
+          x1={boxes[first].start + boxes[first].lead - 12}
+          x2={firstNote.x - NOTE_RADIUS_X}
+          y={y}
+          below={firstNote.stem === 'up'}
+          color={eventColor(firstNote.event)}
+        />
+      ))}
+
+      {/* Ties to the next segment of the same note, or off the end of the system */}
+      {placed.map((p, idx) => {
+        if (p.event.kind !== 'note' || !p.event.tieToNext) return null;
+        const next = placed.slice(idx + 1).find(n => n.event.kind === 'note');
+        return p.ys.map((y, i) => (
+          <Tie
+            key={`tie-${idx}-${i}`}
+            x1={p.x + NOTE_RADIUS_X}
+            x2={next ? next.x - NOTE_RADIUS_X : endX + 4}
+            y={y}
+            below={p.stem === 'up'}
+            color={eventColor(p.event)}
+          />
+        ));
+      })}
+
+      {/* Notes */}
+      {placed.map((p, idx) => p.event.kind === 'note' && renderNote(p, idx))}
+
+      {/* Beams */}
+      {beams.map(({ id, members, up, beamY }) => {
+        const head = members[0];
+        const tail = members[members.length - 1];
+        const thickness = 4;
+        const sign = up ? 1 : -1;
+        return (
+          <g key={`beam-${id}`} fill={members.some(m => isEventActive?.(m.event)) ? ACTIVE : INK}>
+            <polygon points={`${stemX(head)},${beamY} ${stemX(tail)},${beamY} ${stemX(tail)},${beamY + sign * thickness} ${stemX(head)},${beamY + sign * thickness}`} />
+            {/* Secondary beams join neighbouring sixteenths, lone ones get a stub */}
+            {members.map((m, i) => {
+              if (m.event.value !== 'sixteenth') return null;
+              const y = beamY + sign * 7;
+              const next = members[i + 1];
+              const prev = members[i - 1];
+              if (next?.event.value === 'sixteenth') {
+                return <rect key={i} x={stemX(m)} y={up ? y : y - thickness} width={stemX(next) - stemX(m)} height={thickness} />;
+              }
+              if (prev?.event.value === 'sixteenth') return null;
+              const stub = next ? 8 : -8;
+              return <rect key={i} x={Math.min(stemX(m), stemX(m) + stub)} y={up ? y : y - thickness} width={8} height={thickness} />;
+            })}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default StaffSystem;
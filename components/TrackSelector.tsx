@@ -0,0 +1,47 @@
+import React from 'react';
+import { ListMusic } from 'lucide-react';
+import { MidiData } from '../types';
+import { isPercussionTrack } from '../services/trackSelection';
+
+interface TrackSelectorProps {
+  midiData: MidiData;
+  selectedTrack: number;
+  melodyTrack: number;
+  onChange: (trackIndex: number) => void;
+}
+
+const TrackSelector: React.FC<TrackSelectorProps> = ({ midiData, selectedTrack, melodyTrack, onChange }) => {
+  // Nothing to choose between in single-track songs
+  const playable = midiData.tracks.filter(t => t.notes.length > 0);
+  if (playable.length < 2) return null;
+
+  return (
+    <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-xl border border-slate-200 shadow-sm">
+      <ListMusic size={18} className="text-slate-400" />
+      <div className="flex flex-col">
+        <label htmlFor="track-select" className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Pista</label>
+        <select
+          id="track-select"
+          value={selectedTrack}
+          onChange={(e) => onChange(parseInt(e.target.value, 10))}
+          className="text-sm font-bold text-slate-700 bg-transparent cursor-pointer focus:outline-none"
+        >
+          {midiData.tracks.map((track, index) => {
+            if (track.notes.length === 0) return null;
+            const tags = [
+              index === melodyTrack ? 'melodía' : null,
+              isPercussionTrack(track) ? 'percusión' : null,
+            ].filter(Boolean);
+            return (
+              <option key={index} value={index}>
+                {track.name} · {track.instrument.name} ({track.notes.length} notas){tags.length ? ` — ${tags.join(', ')}` : ''}
+              </option>
+            );
+          })}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default TrackSelector;
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { MidiData } from '../types';
+import { AbcParseError, exportAbc, parseAbc } from './abcNotation';
+
+const tune = (body: string, meter = '2/4') => `X:1
+T:Tresillos
+M:${meter}
+L:1/8
+Q:1/4=60
+K:C
+${body}
+`;
+
+// At 60 bpm a second is a beat; times are rounded off the float noise
+const rhythm = (data: MidiData) =>
+  data.tracks[0].notes.map(note => [note.name, +note.time.toFixed(4), +note.duration.toFixed(4)]);
+
+const roundTrip = (data: MidiData) => parseAbc(exportAbc(data, 0));
+
+describe('ABC export of triplets', () => {
+  it('writes eighth-note triplets as a "(3" group', () => {
+    const original = parseAbc(tune('(3efg c2 |]\nw:la-ri-ra lo'));
+    const abc = exportAbc(original, 0);
+    expect(abc).toContain('(3efg c2 |]\nw:la-ri-ra lo');
+    expect(rhythm(parseAbc(abc))).toEqual(rhythm(original));
+  });
+
+  it('keeps sixteenth and quarter triplets, chords and accidentals', () => {
+    const original = parseAbc(tune('(3^f/g/^f/ c (3[ce]2d2e2 |]', '3/4'));
+    const copy = roundTrip(original);
+    expect(rhythm(copy)).toEqual(rhythm(original));
+    expect(copy.tracks[0].notes.map(n => n.midi)).toEqual(original.tracks[0].notes.map(n => n.midi));
+  });
+
+  it('leaves rhythms that fit the grid alone', () => {
+    const original = parseAbc(tune('e/f/g c2 z |]'));
+    const abc = exportAbc(original, 0);
+    expect(abc).not.toContain('(3');
+    expect(rhythm(parseAbc(abc))).toEqual(rhythm(original));
+  });
+});
+
+describe('ABC note lengths', () => {
+  // The line with the music is the seventh of the tune
+  const errorAt = (body: string) => {
+    try {
+      parseAbc(tune(body));
+    } catch (err) {
+      if (err instanceof AbcParseError) return [err.line, err.column];
+      throw err;
+    }
+    return null;
+  };
+
+  it('rejects a zero divisor instead of making the note endless', () => {
+    expect(errorAt('c d C/0 e |]')).toEqual([7, 5]);
+  });
+
+  it('rejects zero-length notes, rests and chords', () => {
+    expect(errorAt('c C0 d |]')).toEqual([7, 3]);
+    expect(errorAt('c z0 |]')).toEqual([7, 3]);
+    expect(errorAt('[ce]0 |]')).toEqual([7, 1]);
+    expect(errorAt('(3:0efg |]')).toEqual([7, 1]);
+  });
+});
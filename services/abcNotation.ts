@@ -0,0 +1,853 @@
+import { Articulation, KeySignatureEvent, MidiData, Note, TimeSignatureEvent } from "../types";
+import { beatsToSeconds, measureAtBeat, measureLengthInBeats, secondsToBeats, segmentsFromBeats } from "./tempoMap";
+import { buildScore, Score, ScoreEvent } from "./notation";
+import { KeySignature, Letter, SpelledPitch, keyAlterations, keyToMidiEvent, midiToNoteName } from "./pitchSpelling";
+import { getActiveTrack } from "./trackSelection";
+
+export const ACCEPTED_ABC_EXTENSIONS = ['.abc'];
+
+// Errors point at the line and column (1-based) the editor should highlight
+export class AbcParseError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(message);
+    this.name = "AbcParseError";
+  }
+}
+
+// Starting point for a new tune in the editor
+export const ABC_TEMPLATE = `X:1
+T:Mi melodía
+M:4/4
+L:1/8
+Q:1/4=90
+K:G
+|: G2 A2 B2 c2 | d4 B4 | c2 A2 B2 G2 | A8 :|
+`;
+
+export const isAbcFileName = (fileName: string) => fileName.toLowerCase().endsWith('.abc');
+
+const EPSILON = 1e-6;
+const LETTER_PITCH_CLASS: Record<Letter, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const MAJOR_TONIC_FIFTHS: Record<string, number> = {
+  'Cb': -7, 'Gb': -6, 'Db': -5, 'Ab': -4, 'Eb': -3, 'Bb': -2, 'F': -1, 'C': 0,
+  'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5, 'F#': 6, 'C#': 7,
+};
+// Modes as a shift along the line of fifths from the major key on the same tonic
+const MODE_FIFTHS: Record<string, number> = { lyd: 1, ion: 0, maj: 0, mix: -1, dor: -2, aeo: -3, min: -3, m: -3, phr: -4, loc: -5 };
+
+const DECORATIONS: Record<string, Articulation> = {
+  'staccato': 'staccato',
+  'tenuto': 'tenuto',
+  'accent': 'accent',
+  '>': 'accent',
+  'emphasis': 'accent',
+  'marcato': 'marcato',
+  '^': 'marcato',
+  'fermata': 'fermata',
+  'breath': 'breath',
+};
+
+// Shorthand decorations written right before a note
+const SHORT_DECORATIONS: Record<string, Articulation | null> = { '.': 'staccato', 'H': 'fermata', '~': null, 'T': null, 'u': null, 'v': null };
+
+interface RawNote {
+  offset: number;
+  beats: number;
+  midi: number;
+  spelling: { step: string; alter: number };
+  tie: boolean;
+  lyric?: string;
+  articulations: Articulation[];
+}
+
+interface RawMeasure {
+  notes: RawNote[];
+  length: number;
+  startRepeat: boolean;
+  endRepeat: boolean;
+  // Ending numbers ("first/second time" brackets), null outside endings
+  ending: number[] | null;
+  tempos: { offset: number; bpm: number }[];
+  meters: { offset: number; timeSignature: [number, number] }[];
+  keys: { offset: number; key: KeySignature }[];
+}
+
+const newMeasure = (ending: number[] | null, startRepeat = false): RawMeasure => ({
+  notes: [], length: 0, startRepeat, endRepeat: false, ending, tempos: [], meters: [], keys: [],
+});
+
+// "C" and "C|" are common and cut time. Null for free meter, undefined when unreadable.
+const parseMeter = (value: string): [number, number] | null | undefined => {
+  const text = value.trim();
+  if (text === 'C') return [4, 4];
+  if (text === 'C|') return [2, 2];
+  if (text === '' || text.toLowerCase() === 'none') return null;
+  const match = text.match(/^\(?([\d+]+)\)?\s*\/\s*(\d+)$/);
+  if (!match) return undefined;
+  const numerator = match[1].split('+').reduce((sum, n) => sum + Number(n), 0);
+  return [numerator, Number(match[2])];
+};
+
+const parseFraction = (value: string) => {
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  return match && Number(match[2]) > 0 ? Number(match[1]) / Number(match[2]) : null;
+};
+
+/**
+ * "K:G", "K:Em", "K:D mix", "K:Bb major". Returns null for unknown keys;
+ * "none" and bagpipe keys read as C.
+ */
+const parseKey = (value: string): KeySignature | null => {
+  const text = value.trim().replace(/\s+(clef|middle|transpose|octave|stafflines)=.*$/i, '');
+  if (text === '' || /^(none|hp)$/i.test(text)) return { fifths: 0, mode: 'major' };
+  const match = text.match(/^([A-Ga-g])([#b]?)\s*([A-Za-z]*)/);
+  if (!match) return null;
+  const tonic = match[1].toUpperCase() + match[2];
+  const mode = match[3].toLowerCase();
+  const modeKey = mode === '' ? 'maj' : mode === 'm' ? 'm' : mode.slice(0, 3);
+  if (!(modeKey in MODE_FIFTHS) || !(tonic in MAJOR_TONIC_FIFTHS)) return null;
+  const fifths = MAJOR_TONIC_FIFTHS[tonic] + MODE_FIFTHS[modeKey];
+  if (fifths < -7 || fifths > 7) return null;
+  return { fifths, mode: MODE_FIFTHS[modeKey] === -3 ? 'minor' : 'major' };
+};
+
+/**
+ * "Q:1/4=120", "Q:3/8=60", "Q:"Allegro" 1/4=120" and the old "Q:120", which
+ * counts unit lengths. Returns quarter notes per minute.
+ */
+const parseTempo = (value: string, unitBeats: number) => {
+  const text = value.replace(/"[^"]*"/g, '').trim();
+  const match = text.match(/^((?:\d+\/\d+\s*)+)=\s*(\d+(?:\.\d+)?)$/);
+  if (match) {
+    const beat = match[1].trim().split(/\s+/).reduce((sum, f) => sum + (parseFraction(f) ?? 0), 0) * 4;
+    return beat > 0 ? beat * Number(match[2]) : null;
+  }
+  return /^\d+(\.\d+)?$/.test(text) ? Number(text) * unitBeats : null;
+};
+
+// Default unit length when the tune has no L: field
+const defaultUnit = (meter: [number, number] | null) =>
+  meter && meter[0] / meter[1] < 0.75 ? 0.25 : 0.5;
+
+// w: syllables, in order: null skips a note ("*" or "_"), "-" ends a word part
+const splitLyrics = (text: string) => {
+  const syllables: (string | null)[] = [];
+  const pattern = /([^\s\-*_|~]+)(-?)|([*_])|-/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text.replace(/~/g, ' ')))) {
+    if (match[1]) syllables.push(match[1] + match[2]);
+    else if (match[3]) syllables.push(null);
+  }
+  return syllables;
+};
+
+/**
+ * Reads the first tune of an ABC file. Repeats and first/second endings are
+ * played out in full, ties become single notes and chords sound together.
+ * Chord symbols, grace notes and unsupported decorations are ignored.
+ */
+export const parseAbc = (text: string, fileName = "Melodía sin título"): MidiData => {
+  const lines = text.split(/\r?\n/);
+
+  let title = '';
+  let composer = '';
+  let meter: [number, number] | null = [4, 4];
+  let unitBeats: number | null = null;
+  let tempoField: { value: string; line: number } | null = null;
+  let key: KeySignature = { fifths: 0, mode: 'major' };
+  let keyAlters = keyAlterations(0);
+
+  const measures: RawMeasure[] = [];
+  let measure = newMeasure(null);
+  let ending: number[] | null = null;
+  let barAccidentals = new Map<string, number>();
+  let tunes = 0;
+  let inBody = false;
+  // Header values, in force at the start of the music
+  let start = { tempo: 120, meter: [4, 4] as [number, number], key };
+
+  // Notes of the current music line, in order, for the w: line under it
+  let lineNotes: RawNote[] = [];
+  // Notes waiting for the next note to continue their tie
+  let tiedPitches = new Set<number>();
+
+  const meterBeats = () => measureLengthInBeats(meter ?? [4, 4]);
+  const unit = () => unitBeats ?? defaultUnit(meter);
+
+  const applyField = (field: string, value: string, line: number, column: number) => {
+    switch (field) {
+      case 'T':
+        if (!title) title = value.trim();
+        break;
+      case 'C':
+        if (!composer) composer = value.trim();
+        break;
+      case 'M': {
+        const parsed = parseMeter(value);
+        if (parsed === undefined) throw new AbcParseError(`Compás "M:${value.trim()}" no reconocido.`, line, column);
+        meter = parsed;
+        if (inBody) measure.meters.push({ offset: measure.length, timeSignature: meter ?? [4, 4] });
+        break;
+      }
+      case 'L': {
+        const parsed = parseFraction(value);
+        if (!parsed) throw new AbcParseError(`Duración "L:${value.trim()}" no reconocida.`, line, column);
+        unitBeats = parsed * 4;
+        break;
+      }
+      case 'Q':
+        // The old "Q:120" form depends on L:, so it's read once the header is complete
+        if (inBody) {
+          const bpm = parseTempo(value, unit());
+          if (!bpm) throw new AbcParseError(`Tempo "Q:${value.trim()}" no reconocido.`, line, column);
+          measure.tempos.push({ offset: measure.length, bpm });
+        } else {
+          tempoField = { value, line };
+        }
+        break;
+      case 'K': {
+        const parsed = parseKey(value);
+        if (!parsed) throw new AbcParseError(`Tonalidad "K:${value.trim()}" no reconocida.`, line, column);
+        key = parsed;
+        keyAlters = keyAlterations(key.fifths);
+        if (inBody) measure.keys.push({ offset: measure.length, key });
+        break;
+      }
+    }
+  };
+
+  const startBody = () => {
+    inBody = true;
+    // The old "Q:120" form counts unit lengths, so it waits for the whole header
+    const bpm = tempoField ? parseTempo(tempoField.value, unit()) : 120;
+    if (!bpm) throw new AbcParseError(`Tempo "Q:${tempoField!.value.trim()}" no reconocido.`, tempoField!.line, 1);
+    start = { tempo: bpm, meter: meter ?? [4, 4], key };
+  };
+
+  const closeMeasure = (startRepeat = false) => {
+    measures.push(measure);
+    measure = newMeasure(ending, startRepeat);
+    barAccidentals = new Map();
+  };
+
+  // Duration after a note or rest: "2", "/", "//", "3/2", "/4"
+  // Lengths are multipliers of L:, e.g. 3/2; a zero would make the note last nothing or forever
+  const readLength = (line: string, start: number, lineNumber: number, column: number) => {
+    let i = start;
+    let digits = '';
+    while (/\d/.test(line[i] ?? '')) digits += line[i++];
+    let value = digits ? Number(digits) : 1;
+    while (line[i] === '/') {
+      i++;
+      let divisor = '';
+      while (/\d/.test(line[i] ?? '')) divisor += line[i++];
+      value /= divisor ? Number(divisor) : 2;
+    }
+    if (!(value > 0 && Number.isFinite(value))) {
+      throw new AbcParseError(`Duración "${line.slice(start, i)}" no válida.`, lineNumber, column);
+    }
+    return { value, end: i };
+  };
+
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const lineNumber = lineIndex + 1;
+    // Comments run to the end of the line
+    const raw = lines[lineIndex].replace(/(^|[^\\])%.*$/, '$1');
+    if (raw.trim() === '') continue;
+
+    const field = raw.match(/^([A-Za-z]):(.*)$/);
+    if (field) {
+      const [, name, value] = field;
+      if (name === 'X') {
+        // Only the first tune of a file is read
+        if (++tunes > 1) break;
+        continue;
+      }
+      if (name === 'w' && inBody) {
+        const syllables = splitLyrics(value);
+        let index = 0;
+        for (const note of lineNotes) {
+          if (index >= syllables.length) break;
+          const syllable = syllables[index++];
+          if (syllable) note.lyric = syllable;
+        }
+        lineNotes = [];
+        continue;
+      }
+      applyField(name, value, lineNumber, 1);
+      if (name === 'K' && !inBody) startBody();
+      continue;
+    }
+
+    // Tunes without K: start their music at the first line that isn't a field
+    if (!inBody) startBody();
+    lineNotes = [];
+    const line = raw;
+    let i = 0;
+    let decorations: Articulation[] = [];
+    let tuplet: { left: number; factor: number } | null = null;
+    let broken = 1;
+    let lastNotes: RawNote[] = [];
+    // Length of the last note or rest, which a broken rhythm changes
+    let lastLength = 0;
+
+    const addNotes = (notes: RawNote[], beats: number) => {
+      let length = beats * broken;
+      broken = 1;
+      if (tuplet) {
+        length *= tuplet.factor;
+        if (--tuplet.left === 0) tuplet = null;
+      }
+      notes.forEach(note => {
+        note.offset = measure.length;
+        note.beats = length;
+        measure.notes.push(note);
+      });
+      // One syllable per note or chord; notes continuing a tie don't take one
+      const sung = notes.find(n => !tiedPitches.has(n.midi));
+      if (sung) lineNotes.push(sung);
+      tiedPitches = new Set(notes.filter(n => n.tie).map(n => n.midi));
+      measure.length += length;
+      lastNotes = notes;
+      lastLength = length;
+    };
+
+    // One pitch with its accidental and octave marks, starting at i
+    const readPitch = (): RawNote | null => {
+      let explicit: number | null = null;
+      const accidental = line.slice(i).match(/^(\^\^|\^|__|_|=)/)?.[0];
+      if (accidental) {
+        explicit = { '^^': 2, '^': 1, '__': -2, '_': -1, '=': 0 }[accidental]!;
+        i += accidental.length;
+      }
+      const letter = line[i];
+      if (!letter || !/[A-Ga-g]/.test(letter)) {
+        if (accidental) throw new AbcParseError(`Falta la nota después de "${accidental}".`, lineNumber, i + 1);
+        return null;
+      }
+      i++;
+      let octave = letter === letter.toUpperCase() ? 4 : 5;
+      while (line[i] === "'" || line[i] === ',') octave += line[i++] === "'" ? 1 : -1;
+
+      const step = letter.toUpperCase() as Letter;
+      const slot = `${step}${octave}`;
+      if (explicit !== null) barAccidentals.set(slot, explicit);
+      const alter = explicit ?? barAccidentals.get(slot) ?? keyAlters[step];
+      const midi = (octave + 1) * 12 + LETTER_PITCH_CLASS[step] + alter;
+      if (midi < 0 || midi > 127) throw new AbcParseError('Nota fuera de rango.', lineNumber, i);
+      return { offset: 0, beats: 0, midi, spelling: { step, alter }, tie: false, articulations: [] };
+    };
+
+    while (i < line.length) {
+      const char = line[i];
+      const column = i + 1;
+
+      // Bar lines, repeats and endings: | || |] [| |: :| :: |1 :|2 [1
+      if (char === '|' || char === ':' || (char === '[' && line[i + 1] === '|') || (char === '[' && /\d/.test(line[i + 1] ?? ''))) {
+        let bar = '';
+        while (i < line.length && (/[|:]/.test(line[i]) || (line[i] === '[' && line[i + 1] === '|') || (line[i] === ']' && bar.endsWith('|')))) {
+          bar += line[i++];
+        }
+        if (line[i] === '[' && /\d/.test(line[i + 1] ?? '')) i++;
+        let numbers = '';
+        while (/[\d,\-]/.test(line[i] ?? '')) numbers += line[i++];
+
+        const endRepeat = bar.startsWith(':');
+        const startRepeat = bar.length > 1 && bar.endsWith(':');
+        const double = /\|\||\|\]|\[\|/.test(bar);
+        if (bar === ':') throw new AbcParseError('Signo de repetición ":" suelto.', lineNumber, column);
+
+        // Bar lines at the start of a line belong to the measure before
+        const empty = measure.notes.length === 0 && measure.length < EPSILON;
+        if (endRepeat) (empty && measures.length > 0 ? measures[measures.length - 1] : measure).endRepeat = true;
+        if (numbers) {
+          ending = numbers.split(',').flatMap(part => {
+            const [from, to] = part.split('-').map(Number);
+            return to ? Array.from({ length: to - from + 1 }, (_, k) => from + k) : [from];
+          }).filter(n => n > 0);
+        } else if (endRepeat || startRepeat || double) {
+          ending = null;
+        }
+
+        if (empty || !bar) {
+          measure.startRepeat = measure.startRepeat || startRepeat;
+          measure.ending = ending;
+        } else {
+          closeMeasure(startRepeat);
+        }
+        continue;
+      }
+
+      // Inline fields: [K:D] [M:3/4] [L:1/16] [Q:1/4=90]
+      const inline = line.slice(i).match(/^\[([A-Za-z]):([^\]]*)\]/);
+      if (inline) {
+        applyField(inline[1], inline[2], lineNumber, column);
+        i += inline[0].length;
+        continue;
+      }
+
+      if (char === ' ' || char === '\t' || char === '`' || char === 'y' || char === '\\') {
+        i++;
+        continue;
+      }
+
+      // Chord symbols and annotations in quotes
+      if (char === '"') {
+        const close = line.indexOf('"', i + 1);
+        if (close < 0) throw new AbcParseError('Falta cerrar las comillas.', lineNumber, column);
+        i = close + 1;
+        continue;
+      }
+
+      // Grace notes are not played
+      if (char === '{') {
+        const close = line.indexOf('}', i + 1);
+        if (close < 0) throw new AbcParseError('Falta cerrar las notas de adorno con "}".', lineNumber, column);
+        i = close + 1;
+        continue;
+      }
+
+      if (char === '!' || char === '+') {
+        const close = line.indexOf(char, i + 1);
+        if (close < 0) throw new AbcParseError(`Falta cerrar el adorno con "${char}".`, lineNumber, column);
+        const decoration = DECORATIONS[line.slice(i + 1, close)];
+        if (decoration) decorations.push(decoration);
+        i = close + 1;
+        continue;
+      }
+
+      if (char in SHORT_DECORATIONS) {
+        const decoration = SHORT_DECORATIONS[char];
+        if (decoration) decorations.push(decoration);
+        i++;
+        continue;
+      }
+
+      // Tuplets: (3abc plays three notes in the time of two; also (p:q:r
+      if (char === '(' && /\d/.test(line[i + 1] ?? '')) {
+        const match = line.slice(i).match(/^\((\d+)(?::(\d*))?(?::(\d*))?/)!;
+        const p = Number(match[1]);
+        const compound = meter !== null && meter[1] === 8 && meter[0] % 3 === 0 && meter[0] > 3;
+        const q = match[2] ? Number(match[2]) : ({ 2: 3, 3: 2, 4: 3, 6: 2, 8: 3 } as Record<number, number>)[p] ?? (compound ? 3 : 2);
+        const r = match[3] ? Number(match[3]) : p;
+        if (p < 2 || q < 1) throw new AbcParseError(`Grupo "${match[0]}" no válido.`, lineNumber, column);
+        tuplet = { left: r, factor: q / p };
+        i += match[0].length;
+        continue;
+      }
+      // Slurs are only phrasing
+      if (char === '(' || char === ')') {
+        i++;
+        continue;
+      }
+
+      if (char === '-') {
+        if (lastNotes.length === 0) throw new AbcParseError('Ligadura "-" sin nota antes.', lineNumber, column);
+        lastNotes.forEach(n => { n.tie = true; });
+        tiedPitches = new Set(lastNotes.map(n => n.midi));
+        i++;
+        continue;
+      }
+
+      // Broken rhythm: a>b is a dotted a and a shortened b
+      if (char === '>' || char === '<') {
+        let count = 0;
+        while (line[i] === char) { count++; i++; }
+        if (lastLength === 0 || count > 3) throw new AbcParseError(`Ritmo "${char.repeat(count)}" sin nota antes.`, lineNumber, column);
+        const short = Math.pow(0.5, count);
+        const long = 2 - short;
+        const change = (char === '>' ? long : short) * lastLength - lastLength;
+        lastNotes.forEach(n => { n.beats += change; });
+        measure.length += change;
+        lastLength = 0;
+        broken = char === '>' ? short : long;
+        continue;
+      }
+
+      // Rests: z (x is an invisible rest), Z is whole measures
+      if (char === 'z' || char === 'x') {
+        i++;
+        const { value, end } = readLength(line, i, lineNumber, column);
+        i = end;
+        addNotes([], value * unit());
+        decorations = [];
+        continue;
+      }
+      if (char === 'Z' || char === 'X') {
+        i++;
+        let digits = '';
+        while (/\d/.test(line[i] ?? '')) digits += line[i++];
+        const count = digits ? Number(digits) : 1;
+        for (let k = 0; k < count; k++) {
+          if (k > 0) closeMeasure();
+          measure.length += meterBeats();
+        }
+        lastNotes = [];
+        lastLength = 0;
+        continue;
+      }
+
+      // Chords: [CEG]2
+      if (char === '[') {
+        i++;
+        const notes: RawNote[] = [];
+        let chordLength: number | null = null;
+        while (i < line.length && line[i] !== ']') {
+          if (line[i] === ' ') { i++; continue; }
+          const noteColumn = i + 1;
+          const note = readPitch();
+          if (!note) throw new AbcParseError(`Carácter "${line[i]}" inesperado dentro del acorde.`, lineNumber, i + 1);
+          const { value, end } = readLength(line, i, lineNumber, noteColumn);
+          i = end;
+          chordLength ??= value;
+          if (line[i] === '-') { note.tie = true; i++; }
+          notes.push(note);
+        }
+        if (line[i] !== ']') throw new AbcParseError('Falta cerrar el acorde con "]".', lineNumber, column);
+        i++;
+        if (notes.length === 0) throw new AbcParseError('Acorde vacío.', lineNumber, column);
+        const { value, end } = readLength(line, i, lineNumber, column);
+        i = end;
+        notes.forEach(n => { n.articulations = decorations; });
+        decorations = [];
+        addNotes(notes, (chordLength ?? 1) * value * unit());
+        continue;
+      }
+
+      const note = readPitch();
+      if (note) {
+        const { value, end } = readLength(line, i, lineNumber, column);
+        i = end;
+        note.articulations = decorations;
+        decorations = [];
+        addNotes([note], value * unit());
+        continue;
+      }
+
+      throw new AbcParseError(`Carácter "${char}" inesperado.`, lineNumber, column);
+    }
+  }
+
+  if (measure.notes.length > 0 || measure.length > EPSILON) measures.push(measure);
+  const played = unfoldRepeats(measures);
+  if (!played.some(m => m.notes.length > 0)) {
+    throw new AbcParseError('La melodía no tiene ninguna nota.', Math.max(1, lines.length), 1);
+  }
+
+  return toMidiData(played, { title: title || fileName.replace(/\.[^.]+$/, ''), composer, ...start });
+};
+
+/**
+ * Plays repeats out: a :| goes back to the last |: (or the start) once, and
+ * measures under an ending bracket are only played on their pass.
+ */
+const unfoldRepeats = (measures: RawMeasure[]) => {
+  const played: RawMeasure[] = [];
+  let sectionStart = 0;
+  let pass = 1;
+  let i = 0;
+  // Guards against malformed repeats looping forever
+  let budget = measures.length * 8;
+  while (i < measures.length && budget-- > 0) {
+    const m = measures[i];
+    if (m.startRepeat && i !== sectionStart) {
+      sectionStart = i;
+      pass = 1;
+    }
+    const plays = m.ending === null || m.ending.includes(pass);
+    if (plays) played.push(m);
+    // Under an ending, go back while a later ending is still to come
+    const again = m.ending === null
+      ? pass === 1
+      : measures.slice(i + 1).some(later => later.ending?.some(n => n > pass));
+    if (plays && m.endRepeat && again) {
+      pass++;
+      i = sectionStart;
+      continue;
+    }
+    // The section is done once its last ending (or its second time through) has played
+    if (plays && (m.endRepeat || (m.ending !== null && measures[i + 1]?.ending === null))) {
+      sectionStart = i + 1;
+      pass = 1;
+    }
+    i++;
+  }
+  return played;
+};
+
+const toMidiData = (
+  measures: RawMeasure[],
+  header: { title: string; composer: string; tempo: number; meter: [number, number]; key: KeySignature },
+): MidiData => {
+  // A short first measure is a pickup: pad it so bar lines fall on whole measures
+  const pickup = measures.length > 1 ? Math.max(0, measureLengthInBeats(header.meter) - measures[0].length) : 0;
+
+  const notes: RawNote[] = [];
+  const tempos = [{ beat: 0, bpm: header.tempo }];
+  const meters: { beat: number; timeSignature: [number, number] }[] = [{ beat: 0, timeSignature: header.meter }];
+  const keys: { beat: number; key: KeySignature }[] = [{ beat: 0, key: header.key }];
+  let start = 0;
+  measures.forEach((m, index) => {
+    const shift = index === 0 ? start + pickup : start;
+    m.notes.forEach(n => notes.push({ ...n, offset: shift + n.offset }));
+    m.tempos.forEach(t => tempos.push({ beat: shift + t.offset, bpm: t.bpm }));
+    m.meters.forEach(t => meters.push({ beat: shift + t.offset, timeSignature: t.timeSignature }));
+    m.keys.forEach(k => keys.push({ beat: shift + k.offset, key: k.key }));
+    start = shift + m.length;
+  });
+
+  // Join tied notes, also across repeats
+  notes.sort((a, b) => a.offset - b.offset || a.midi - b.midi);
+  const joined: RawNote[] = [];
+  const open = new Map<number, RawNote>();
+  for (const note of notes) {
+    const tiedFrom = open.get(note.midi);
+    open.delete(note.midi);
+    if (tiedFrom && Math.abs(tiedFrom.offset + tiedFrom.beats - note.offset) < EPSILON) {
+      tiedFrom.beats += note.beats;
+      tiedFrom.tie = note.tie;
+      if (note.tie) open.set(note.midi, tiedFrom);
+      continue;
+    }
+    const copy = { ...note };
+    joined.push(copy);
+    if (copy.tie) open.set(copy.midi, copy);
+  }
+
+  const segments = segmentsFromBeats(tempos);
+  const toSeconds = (beat: number) => beatsToSeconds(segments, beat);
+
+  const timeSignatures: TimeSignatureEvent[] = meters.map(m => ({ timeSignature: [...m.timeSignature], time: toSeconds(m.beat) }));
+  const keySignatures: KeySignatureEvent[] = [];
+  keys.forEach(k => {
+    const event = keyToMidiEvent(k.key, toSeconds(k.beat));
+    const last = keySignatures[keySignatures.length - 1];
+    if (!last || last.key !== event.key || last.scale !== event.scale) keySignatures.push(event);
+  });
+
+  const trackNotes = joined.map((n): Note => {
+    const time = toSeconds(n.offset);
+    return {
+      name: midiToNoteName(n.midi),
+      midi: n.midi,
+      time,
+      duration: toSeconds(n.offset + n.beats) - time,
+      velocity: 0.8,
+      spelling: n.spelling,
+      ...(n.lyric ? { lyric: n.lyric } : {}),
+      ...(n.articulations.length ? { articulations: n.articulations } : {}),
+    };
+  });
+
+  return {
+    header: {
+      name: header.title,
+      ...(header.composer ? { composer: header.composer } : {}),
+      tempos: segments.map(s => ({ bpm: s.bpm, time: s.time })),
+      timeSignatures,
+      keySignatures,
+    },
+    duration: toSeconds(start),
+    tracks: [{ name: header.title, notes: trackNotes, instrument: { family: 'pipe', name: 'recorder', number: 74 } }],
+  };
+};
+
+export const parseAbcFile = async (file: File): Promise<MidiData> => {
+  if (!isAbcFileName(file.name)) {
+    throw new AbcParseError(`"${file.name}" no es un archivo .abc.`, 1, 1);
+  }
+  return parseAbc(await file.text(), file.name);
+};
+
+// ---------------------------------------------------------------------------
+// Writing
+
+// Unit length of exported tunes: an eighth note
+const EXPORT_UNIT = 0.5;
+
+const MAJOR_KEY_NAMES = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const MINOR_KEY_NAMES = ['Abm', 'Ebm', 'Bbm', 'Fm', 'Cm', 'Gm', 'Dm', 'Am', 'Em', 'Bm', 'F#m', 'C#m', 'G#m', 'D#m', 'A#m'];
+
+export const abcKeyName = (key: KeySignature) =>
+  (key.mode === 'minor' ? MINOR_KEY_NAMES : MAJOR_KEY_NAMES)[key.fifths + 7];
+
+// Length in eighth-note units: 1 -> "", 3 -> "3", 0.5 -> "/", 1.5 -> "3/2"
+const abcLength = (beats: number) => {
+  const quarterUnits = Math.round(beats / EXPORT_UNIT * 4);
+  if (quarterUnits % 4 === 0) return quarterUnits === 4 ? '' : String(quarterUnits / 4);
+  if (quarterUnits % 2 === 0) return quarterUnits === 2 ? '/' : `${quarterUnits / 2}/2`;
+  return quarterUnits === 1 ? '/4' : `${quarterUnits}/4`;
+};
+
+const ACCIDENTAL_MARKS: Record<number, string> = { [-2]: '__', [-1]: '_', 0: '=', 1: '^', 2: '^^' };
+
+const abcPitch = (pitch: SpelledPitch, accidental: number | null) => {
+  const mark = accidental === null ? '' : ACCIDENTAL_MARKS[accidental];
+  const letter = pitch.octave >= 5 ? pitch.letter.toLowerCase() : pitch.letter;
+  const octaveMarks = pitch.octave >= 5 ? "'".repeat(pitch.octave - 5) : ','.repeat(4 - pitch.octave);
+  return `${mark}${letter}${octaveMarks}`;
+};
+
+const ARTICULATION_MARKS: Record<Articulation, string> = {
+  staccato: '.',
+  tenuto: '!tenuto!',
+  accent: '!>!',
+  marcato: '!^!',
+  fermata: 'H',
+  breath: '!breath!',
+};
+
+const abcEvent = (event: ScoreEvent) => {
+  const length = abcLength(event.beats);
+  if (event.kind === 'rest') return `z${length}`;
+  const marks = event.articulations.map(a => ARTICULATION_MARKS[a]).join('');
+  const pitches = event.spelled.map((p, i) => abcPitch(p, event.accidentals[i]));
+  const body = pitches.length > 1 ? `[${pitches.join('')}]` : pitches[0];
+  return `${marks}${body}${length}${event.tieToNext ? '-' : ''}`;
+};
+
+// Triplets the sixteenth grid can't hold: three equal onsets filling a
+// sixteenth-, eighth- or quarter-note pair, written as "(3" groups
+interface Triplet {
+  startBeat: number;
+  span: number;
+  // Notes starting together at each of the three onsets
+  onsets: Note[][];
+}
+
+const TRIPLET_SPANS = [0.5, 1, 2];
+const SCORE_GRID = 0.25;
+// How far, in beats, a played onset may sit from where it is written
+const RHYTHM_TOLERANCE = 0.02;
+
+const onGrid = (beat: number) => Math.abs(beat - Math.round(beat / SCORE_GRID) * SCORE_GRID) < RHYTHM_TOLERANCE;
+
+const findTriplets = (score: Score): Triplet[] => {
+  const toBeats = (seconds: number) => secondsToBeats(score.tempoSegments, seconds);
+  const onsets: { beat: number; end: number; notes: Note[] }[] = [];
+  score.notes.forEach(note => {
+    const beat = toBeats(note.time);
+    const end = toBeats(note.time + note.duration);
+    const last = onsets[onsets.length - 1];
+    if (last && beat - last.beat < RHYTHM_TOLERANCE) {
+      last.notes.push(note);
+      last.end = Math.max(last.end, end);
+    } else {
+      onsets.push({ beat, end, notes: [note] });
+    }
+  });
+
+  const triplets: Triplet[] = [];
+  for (let i = 0; i + 2 < onsets.length; i++) {
+    const [a, b, c] = onsets.slice(i, i + 3);
+    const step = b.beat - a.beat;
+    const span = TRIPLET_SPANS.find(s => Math.abs(step * 3 - s) < RHYTHM_TOLERANCE);
+    if (span === undefined || Math.abs(c.beat - b.beat - step) > RHYTHM_TOLERANCE) continue;
+    if (!onGrid(a.beat) || onGrid(b.beat)) continue;
+    const startBeat = Math.round(a.beat / SCORE_GRID) * SCORE_GRID;
+    const end = startBeat + span;
+    // The group must be the only music in its span and stay inside one measure
+    const next = onsets[i + 3];
+    if (c.end > end + RHYTHM_TOLERANCE || (next && next.beat < end - RHYTHM_TOLERANCE)) continue;
+    const measure = measureAtBeat(score.measures, startBeat);
+    if (end > measure.startBeat + measure.beats + EPSILON) continue;
+    triplets.push({ startBeat, span, onsets: [a.notes, b.notes, c.notes] });
+    i += 2;
+  }
+  return triplets;
+};
+
+// The score has already spelled these pitches on the grid, accidentals
+// included; each pitch takes its mark the first time it appears
+const abcTriplet = (triplet: Triplet, events: ScoreEvent[]) => {
+  const inGroup = events.filter(e =>
+    e.kind === 'note' && !e.tieFromPrev &&
+    e.startBeat > triplet.startBeat - EPSILON && e.startBeat < triplet.startBeat + triplet.span - EPSILON);
+  const marked = new Set<number>();
+  const noteLength = triplet.span / 2;
+  const notes = triplet.onsets.map(onset => {
+    const pitches = Array.from(new Set(onset.map(n => n.midi))).sort((x, y) => x - y).map(midi => {
+      const event = inGroup.find(e => e.pitches.includes(midi))!;
+      const k = event.pitches.indexOf(midi);
+      const accidental = marked.has(midi) ? null : event.accidentals[k];
+      marked.add(midi);
+      return abcPitch(event.spelled[k], accidental);
+    });
+    const marks = Array.from(new Set(onset.flatMap(n => n.articulations ?? []))).map(a => ARTICULATION_MARKS[a]).join('');
+    const body = pitches.length > 1 ? `[${pitches.join('')}]` : pitches[0];
+    return `${marks}${body}${abcLength(noteLength)}`;
+  });
+  // Joined like a beam when the notes are shorter than a beat
+  return `(3${notes.join(noteLength < 1 ? '' : ' ')}`;
+};
+
+const MEASURES_PER_LINE = 4;
+
+/**
+ * Writes one track as an ABC tune, quantized the way the sheet music view
+ * draws it, except for triplets, which are kept as "(3" groups. Beamed notes
+ * are written together, as ABC beams them.
+ */
+export const exportAbc = (midiData: MidiData, trackIndex: number): string => {
+  const score = buildScore(midiData, getActiveTrack(midiData, trackIndex));
+  const first = score.measures[0];
+  const lines = [
+    'X:1',
+    `T:${midiData.header.name}`,
+    ...(midiData.header.composer ? [`C:${midiData.header.composer}`] : []),
+    `M:${first.timeSignature.join('/')}`,
+    'L:1/8',
+    `Q:1/4=${Math.round(score.tempoSegments[0].bpm)}`,
+    `K:${abcKeyName(first.key)}`,
+  ];
+
+  const tempoChanges = score.tempoSegments.slice(1);
+  const triplets = findTriplets(score);
+  let music = '';
+  let words: string[] = [];
+  // Grid events a triplet has already written
+  let tripletEnd = 0;
+
+  score.measures.forEach((measure, index) => {
+    if (index > 0 && measure.showTimeSignature) music += `[M:${measure.timeSignature.join('/')}] `;
+    if (index > 0 && measure.showKeySignature) music += `[K:${abcKeyName(measure.key)}] `;
+
+    measure.events.forEach((event, i) => {
+      if (event.startBeat < tripletEnd - EPSILON) return;
+      const triplet = triplets.find(t => Math.abs(t.startBeat - event.startBeat) < EPSILON);
+      const beats = triplet ? triplet.span : event.beats;
+      const change = tempoChanges.find(t =>
+        t.beat >= event.startBeat - EPSILON && t.beat < event.startBeat + beats - EPSILON);
+      if (change) music += `[Q:1/4=${Math.round(change.bpm)}]`;
+      if (triplet) {
+        music += `${abcTriplet(triplet, measure.events)} `;
+        triplet.onsets.forEach(onset => {
+          const lyric = onset.find(n => n.lyric)?.lyric;
+          words.push(lyric ? (lyric.endsWith('-') ? lyric : `${lyric} `) : '* ');
+        });
+        tripletEnd = triplet.startBeat + triplet.span;
+        return;
+      }
+      music += event.wholeMeasure ? `z${abcLength(measure.beats)}` : abcEvent(event);
+      const next = measure.events[i + 1];
+      // Notes of one beam group stay joined, everything else gets a space
+      const beamed = next && event.beamGroup !== null && event.beamGroup === next.beamGroup;
+      if (!beamed) music += ' ';
+      if (event.kind === 'note' && !event.tieFromPrev) {
+        words.push(event.lyric ? (event.lyric.endsWith('-') ? event.lyric : `${event.lyric} `) : '* ');
+      }
+    });
+
+    const last = index === score.measures.length - 1;
+    music += last ? '|]' : '| ';
+    if (last || (index + 1) % MEASURES_PER_LINE === 0) {
+      lines.push(music.trim());
+      const lyricLine = words.join('').trim();
+      if (lyricLine.replace(/[*\s]/g, '')) lines.push(`w:${lyricLine}`);
+      music = '';
+      words = [];
+    }
+  });
+
+  return lines.join('\n') + '\n';
+};
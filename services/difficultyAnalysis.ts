@@ -0,0 +1,243 @@
+import { AnalysisResult, MidiData, Note } from "../types";
+import { getActiveTrack } from "./trackSelection";
+import { RecorderProfile, isInRecorderRange } from "./recorders";
+import { FingeringSystem, getFingering, isForkedFingering } from "./recorderFingerings";
+import { detectKey, keyDisplayName, midiToNoteName } from "./pitchSpelling";
+import { buildTempoSegments, secondsToBeats } from "./tempoMap";
+
+export type DifficultyLevel = 'Fácil' | 'Intermedio' | 'Avanzado';
+
+export interface DifficultyMetrics {
+  noteCount: number;
+  lowestNote: number;
+  highestNote: number;
+  rangeSemitones: number;
+  outOfRange: number;
+  keyName: string;
+  keyFifths: number;
+  // Notes outside the key, i.e. written with an accidental
+  accidentals: number;
+  forkedFingerings: number;
+  thumbHalfHoles: number;
+  largestLeap: number;
+  // Shortest gap between two onsets, in beats and in seconds at the written tempo
+  fastestBeats: number;
+  fastestSeconds: number;
+  // Longest stretch of playing without a rest to breathe in
+  longestPhraseSeconds: number;
+  bpm: number;
+}
+
+export interface DifficultyFactor {
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface DifficultyReport {
+  metrics: DifficultyMetrics;
+  // 0 (very easy) .. 100 (very hard)
+  score: number;
+  level: DifficultyLevel;
+  // What pushed the score up, hardest first
+  factors: DifficultyFactor[];
+}
+
+// A silence this long lets the student take a breath
+const BREATH_GAP_SECONDS = 0.2;
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+
+const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value));
+
+const valueName = (beats: number) =>
+  beats <= 0.25 + 1e-3 ? 'semicorcheas' :
+  beats <= 0.5 + 1e-3 ? 'corcheas' :
+  beats <= 1 + 1e-3 ? 'negras' : 'blancas';
+
+// One note per onset, the top one when several start together
+export const melodicLine = (notes: Note[]) => {
+  const line: Note[] = [];
+  [...notes].sort((a, b) => a.time - b.time || b.midi - a.midi).forEach(note => {
+    const last = line[line.length - 1];
+    if (!last || note.time - last.time > 0.01) line.push(note);
+  });
+  return line;
+};
+
+const longestPhrase = (line: Note[]) => {
+  let longest = 0;
+  let start = line[0]?.time ?? 0;
+  line.forEach((note, i) => {
+    const end = note.time + note.duration;
+    const next = line[i + 1];
+    if (!next || next.time - end >= BREATH_GAP_SECONDS) {
+      longest = Math.max(longest, end - start);
+      if (next) start = next.time;
+    }
+  });
+  return longest;
+};
+
+export const measureDifficulty = (
+  midiData: MidiData,
+  notes: Note[],
+  recorder: RecorderProfile,
+  system: FingeringSystem = 'baroque',
+): DifficultyMetrics => {
+  const line = melodicLine(notes);
+  const segments = buildTempoSegments(midiData.header.tempos);
+  const key = detectKey(midiData, notes);
+  // The signature's major scale covers its relative minor too
+  const tonic = (((key.fifths * 7) % 12) + 12) % 12;
+  const diatonic = new Set(MAJOR_SCALE.map(step => (tonic + step) % 12));
+
+  const fingerings = notes.map(n => getFingering(n.midi, system, recorder.lowestNote));
+  const pitches = notes.map(n => n.midi);
+
+  let largestLeap = 0;
+  let fastestBeats = Infinity;
+  let fastestSeconds = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    largestLeap = Math.max(largestLeap, Math.abs(line[i].midi - line[i - 1].midi));
+    fastestSeconds = Math.min(fastestSeconds, line[i].time - line[i - 1].time);
+    fastestBeats = Math.min(fastestBeats, secondsToBeats(segments, line[i].time) - secondsToBeats(segments, line[i - 1].time));
+  }
+  // A single note (or none) is as slow as it gets
+  if (!Number.isFinite(fastestSeconds)) {
+    fastestSeconds = line[0]?.duration ?? 0;
+    fastestBeats = line[0] ? secondsToBeats(segments, line[0].duration) : 0;
+  }
+
+  return {
+    noteCount: notes.length,
+    lowestNote: pitches.length ? Math.min(...pitches) : 0,
+    highestNote: pitches.length ? Math.max(...pitches) : 0,
+    rangeSemitones: pitches.length ? Math.max(...pitches) - Math.min(...pitches) : 0,
+    outOfRange: notes.filter(n => !isInRecorderRange(n.midi, recorder)).length,
+    keyName: keyDisplayName(key),
+    keyFifths: key.fifths,
+    accidentals: notes.filter(n => !diatonic.has(((n.midi % 12) + 12) % 12)).length,
+    forkedFingerings: fingerings.filter(f => f && isForkedFingering(f)).length,
+    thumbHalfHoles: fingerings.filter(f => f?.thumbHalf).length,
+    largestLeap,
+    fastestBeats,
+    fastestSeconds,
+    longestPhraseSeconds: longestPhrase(line),
+    bpm: Math.round(midiData.header.tempos[0]?.bpm ?? 120),
+  };
+};
+
+/**
+ * Turns the metrics into a 0-100 score. Each factor is capped so one
+ * extreme feature can't make a simple tune "advanced" on its own.
+ */
+export const scoreDifficulty = (metrics: DifficultyMetrics): DifficultyReport => {
+  const share = (count: number) => (metrics.noteCount ? count / metrics.noteCount : 0);
+  const notesPerSecond = metrics.fastestSeconds > 0 ? 1 / metrics.fastestSeconds : 0;
+
+  const factors: DifficultyFactor[] = [
+    {
+      label: 'Registro',
+      points: clamp((metrics.rangeSemitones - 9) * 1.5, 15) + (metrics.outOfRange > 0 ? 10 : 0),
+      detail: `De ${midiToNoteName(metrics.lowestNote)} a ${midiToNoteName(metrics.highestNote)} (${metrics.rangeSemitones} semitonos)` +
+        (metrics.outOfRange > 0 ? `, ${metrics.outOfRange} notas fuera de la flauta` : ''),
+    },
+    {
+      label: 'Alteraciones',
+      points: clamp(share(metrics.accidentals) * 40, 12) + clamp(Math.abs(metrics.keyFifths) * 2, 6),
+      detail: `${metrics.keyName}, ${metrics.accidentals} notas con alteración accidental`,
+    },
+    {
+      label: 'Digitaciones de horquilla',
+      points: clamp(share(metrics.forkedFingerings) * 40, 12),
+      detail: `${metrics.forkedFingerings} notas con digitación de horquilla`,
+    },
+    {
+      label: 'Medio agujero del pulgar',
+      points: clamp(share(metrics.thumbHalfHoles) * 40, 12),
+      detail: `${metrics.thumbHalfHoles} notas agudas con el pulgar medio tapado`,
+    },
+    {
+      label: 'Saltos',
+      points: clamp((metrics.largestLeap - 7) * 1.5, 10),
+      detail: `El salto más grande es de ${metrics.largestLeap} semitonos`,
+    },
+    {
+      label: 'Velocidad',
+      points: clamp((notesPerSecond - 2) * 2.5, 15),
+      detail: `Las notas más rápidas son ${valueName(metrics.fastestBeats)} (${notesPerSecond.toFixed(1)} notas por segundo a ${metrics.bpm} BPM)`,
+    },
+    {
+      label: 'Frases largas',
+      points: clamp((metrics.longestPhraseSeconds - 6) * 1.5, 10),
+      detail: `La frase más larga sin respirar dura ${metrics.longestPhraseSeconds.toFixed(1)} s`,
+    },
+  ];
+
+  const score = Math.round(Math.min(100, factors.reduce((sum, f) => sum + f.points, 0)));
+  const level: DifficultyLevel = score < 25 ? 'Fácil' : score < 55 ? 'Intermedio' : 'Avanzado';
+
+  return {
+    metrics,
+    score,
+    level,
+    factors: factors
+      .filter(f => f.points > 0)
+      .map(f => ({ ...f, points: Math.round(f.points) }))
+      .sort((a, b) => b.points - a.points),
+  };
+};
+
+export const analyzeDifficulty = (
+  midiData: MidiData,
+  trackIndex: number,
+  recorder: RecorderProfile,
+  system: FingeringSystem = 'baroque',
+): DifficultyReport =>
+  scoreDifficulty(measureDifficulty(midiData, getActiveTrack(midiData, trackIndex)?.notes ?? [], recorder, system));
+
+const FACTOR_TIPS: Record<string, string> = {
+  'Registro': 'Repasa primero las notas más graves y más agudas por separado, con poco aire en las graves.',
+  'Alteraciones': 'Marca en la partitura las notas con sostenido o bemol y practica su digitación antes de empezar.',
+  'Digitaciones de horquilla': 'Las digitaciones de horquilla necesitan dedos firmes: practícalas lentamente mirando el diagrama.',
+  'Medio agujero del pulgar': 'Para las notas agudas deja una rendija pequeña con la uña del pulgar y sopla un poco más.',
+  'Saltos': 'En los saltos grandes prepara los dedos antes de soplar la nota siguiente.',
+  'Velocidad': 'Empieza a menos velocidad y súbela poco a poco cuando las notas rápidas salgan limpias.',
+  'Frases largas': 'Busca dónde respirar antes de las frases largas y toma aire con calma.',
+};
+
+const DEFAULT_TIPS = [
+  'Practica despacio al principio.',
+  'Asegúrate de tapar bien los agujeros.',
+  'Sopla suave y constante, como si empañaras un cristal.',
+];
+
+// The offline answer: level, reasons and tips straight from the metrics
+export const reportToAnalysis = (report: DifficultyReport): AnalysisResult => {
+  const tips = [...report.factors.map(f => FACTOR_TIPS[f.label]), ...DEFAULT_TIPS].slice(0, 3);
+  const reasons = report.factors.slice(0, 2).map(f => f.detail.charAt(0).toLowerCase() + f.detail.slice(1));
+  return {
+    difficulty: report.level,
+    tips,
+    description: reasons.length
+      ? `Pieza de nivel ${report.level.toLowerCase()}: ${reasons.join('; ')}.`
+      : '¡Una pieza sencilla, perfecta para disfrutar tocando!',
+    score: report.score,
+    reasons: report.factors.map(f => f.detail),
+  };
+};
+
+// Metrics as plain lines for the AI prompt
+export const describeDifficulty = (report: DifficultyReport) => {
+  const m = report.metrics;
+  return [
+    `Puntuación local de dificultad: ${report.score}/100 (${report.level})`,
+    `Registro: ${midiToNoteName(m.lowestNote)}–${midiToNoteName(m.highestNote)}, ${m.rangeSemitones} semitonos, ${m.outOfRange} notas fuera de la flauta`,
+    `Tonalidad: ${m.keyName}; notas con alteración accidental: ${m.accidentals} de ${m.noteCount}`,
+    `Digitaciones de horquilla: ${m.forkedFingerings}; notas con medio agujero del pulgar: ${m.thumbHalfHoles}`,
+    `Salto más grande: ${m.largestLeap} semitonos`,
+    `Notas más rápidas: ${valueName(m.fastestBeats)} (${m.fastestSeconds.toFixed(2)} s entre notas)`,
+    `Frase más larga sin respirar: ${m.longestPhraseSeconds.toFixed(1)} s`,
+    `Tempo: ${m.bpm} BPM`,
+  ].map(line => `- ${line}`).join('\n');
+};
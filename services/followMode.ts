@@ -0,0 +1,43 @@
+import { Note } from "../types";
+import { centsOff } from "./pitchDetection";
+
+export type FollowInput = 'microphone' | 'midi';
+
+export interface FollowSettings {
+  // How far from the expected pitch still counts as the right note
+  toleranceCents: number;
+  // Seconds without the right note before a hint is shown
+  hintAfterSeconds: number;
+  input: FollowInput;
+}
+
+export const DEFAULT_FOLLOW_SETTINGS: FollowSettings = {
+  toleranceCents: 50,
+  hintAfterSeconds: 5,
+  input: 'microphone',
+};
+
+// Consecutive microphone frames that must agree before a note counts (~90 ms)
+export const STABLE_FRAMES = 3;
+
+export interface FollowStop {
+  time: number;
+  // The note the student has to play; the top one when several start together
+  note: Note;
+}
+
+// One stop per distinct onset, in playing order
+export const buildFollowStops = (notes: Note[]): FollowStop[] => {
+  const stops: FollowStop[] = [];
+  [...notes]
+    .sort((a, b) => a.time - b.time || b.midi - a.midi)
+    .forEach(note => {
+      const last = stops[stops.length - 1];
+      if (last && Math.abs(last.time - note.time) < 0.01) return;
+      stops.push({ time: note.time, note });
+    });
+  return stops;
+};
+
+export const matchesExpectedPitch = (detectedMidi: number, expectedMidi: number, toleranceCents: number) =>
+  Math.abs(centsOff(detectedMidi, expectedMidi)) <= toleranceCents;
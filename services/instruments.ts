@@ -0,0 +1,162 @@
+import * as Tone from 'tone';
+
+// Everything here is synthesized on the fly: no samples, so it works offline
+
+export interface TrackVoice {
+  play: (time: number, midi: number, duration: number, velocity: number) => void;
+  dispose: () => void;
+}
+
+export type MelodyInstrument = 'recorder' | 'soprano' | 'alto' | 'reference';
+
+export const MELODY_INSTRUMENT_LABELS: Record<MelodyInstrument, string> = {
+  recorder: 'Flauta dulce',
+  soprano: 'Flauta soprano',
+  alto: 'Flauta contralto',
+  reference: 'Tono de referencia',
+};
+
+interface RecorderTone {
+  // Share of the narrow pulse against the triangle; more pulse = reedier
+  pulseMix: number;
+  pulseWidth: number;
+  // Filter cutoff as a multiple of the note frequency at the bottom and top of the range
+  brightnessLow: number;
+  brightnessHigh: number;
+  // Range the brightness curve is spread over
+  lowMidi: number;
+  highMidi: number;
+  // Noise burst at the start of a tongued note, and breath under the tone
+  chiff: number;
+  breath: number;
+  // Attack for the softest and the hardest tonguing
+  softAttack: number;
+  hardAttack: number;
+  vibratoDepth: number;
+}
+
+const RECORDER_TONES: Record<Exclude<MelodyInstrument, 'reference'>, RecorderTone> = {
+  recorder: {
+    pulseMix: 0.3, pulseWidth: 0.3, brightnessLow: 5, brightnessHigh: 2.5, lowMidi: 60, highMidi: 96,
+    chiff: 0.25, breath: 0.035, softAttack: 0.07, hardAttack: 0.02, vibratoDepth: 0.04,
+  },
+  // Small bore: brighter, with a sharper chiff
+  soprano: {
+    pulseMix: 0.4, pulseWidth: 0.25, brightnessLow: 6, brightnessHigh: 3, lowMidi: 72, highMidi: 98,
+    chiff: 0.35, breath: 0.04, softAttack: 0.05, hardAttack: 0.015, vibratoDepth: 0.05,
+  },
+  // Wider bore: rounder and breathier, slower to speak
+  alto: {
+    pulseMix: 0.18, pulseWidth: 0.35, brightnessLow: 4, brightnessHigh: 2, lowMidi: 65, highMidi: 91,
+    chiff: 0.18, breath: 0.05, softAttack: 0.09, hardAttack: 0.03, vibratoDepth: 0.03,
+  },
+};
+
+// How many notes may overlap, e.g. a release tail under the next note
+const RECORDER_POLYPHONY = 3;
+// Harder blowing pushes a recorder sharp, by up to this many cents
+const MAX_PRESSURE_CENTS = 12;
+
+const lerp = (from: number, to: number, amount: number) => from + (to - from) * amount;
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * One recorder "pipe": a pulse/triangle mix through a low-pass filter whose
+ * cutoff falls (relative to the pitch) as notes get higher, plus band-passed
+ * noise for the breath and the chiff of the tongued attack.
+ */
+const createPipe = (tone: RecorderTone, destination: Tone.InputNode) => {
+  const output = new Tone.Gain(1).connect(destination);
+
+  const toneEnvelope = new Tone.AmplitudeEnvelope({ attack: tone.softAttack, decay: 0.1, sustain: 0.9, release: 0.08 }).connect(output);
+  const filter = new Tone.Filter({ type: 'lowpass', frequency: 2000, rolloff: -24, Q: 0.7 }).connect(toneEnvelope);
+  const pulseGain = new Tone.Gain(tone.pulseMix).connect(filter);
+  const triangleGain = new Tone.Gain(1 - tone.pulseMix).connect(filter);
+  const pulse = new Tone.PulseOscillator(440, tone.pulseWidth).connect(pulseGain);
+  const triangle = new Tone.Oscillator(440, 'triangle').connect(triangleGain);
+  const vibrato = new Tone.LFO(5, -tone.vibratoDepth * 100, tone.vibratoDepth * 100);
+  vibrato.connect(pulse.detune);
+  vibrato.connect(triangle.detune);
+
+  const noise = new Tone.Noise('pink');
+  const noiseFilter = new Tone.Filter({ type: 'bandpass', frequency: 2000, Q: 1.5 });
+  const chiffEnvelope = new Tone.AmplitudeEnvelope({ attack: 0.002, decay: 0.035, sustain: 0, release: 0.02 }).connect(output);
+  const breathEnvelope = new Tone.AmplitudeEnvelope({ attack: 0.03, decay: 0.05, sustain: 1, release: 0.08 }).connect(output);
+  const chiffGain = new Tone.Gain(tone.chiff).connect(chiffEnvelope);
+  const breathGain = new Tone.Gain(tone.breath).connect(breathEnvelope);
+  noise.connect(noiseFilter);
+  noiseFilter.connect(chiffGain);
+  noiseFilter.connect(breathGain);
+
+  pulse.start();
+  triangle.start();
+  vibrato.start();
+  noise.start();
+
+  const nodes = [
+    output, toneEnvelope, filter, pulseGain, triangleGain, pulse, triangle, vibrato,
+    noise, noiseFilter, chiffEnvelope, breathEnvelope, chiffGain, breathGain,
+  ];
+
+  return {
+    // Velocity stands for breath pressure: louder, brighter, slightly sharp,
+    // and tongued harder (faster attack, more chiff)
+    play: (time: number, midi: number, duration: number, velocity: number) => {
+      const pressure = clamp01(velocity);
+      const frequency = Tone.Frequency(midi, "midi").toFrequency() * Math.pow(2, (pressure - 0.5) * MAX_PRESSURE_CENTS / 1200);
+      const height = clamp01((midi - tone.lowMidi) / (tone.highMidi - tone.lowMidi));
+      const brightness = lerp(tone.brightnessLow, tone.brightnessHigh, height) * lerp(0.8, 1.2, pressure);
+
+      pulse.frequency.setValueAtTime(frequency, time);
+      triangle.frequency.setValueAtTime(frequency, time);
+      filter.frequency.setValueAtTime(Math.min(16000, frequency * brightness), time);
+      noiseFilter.frequency.setValueAtTime(Math.min(12000, frequency * 2), time);
+      toneEnvelope.attack = lerp(tone.softAttack, tone.hardAttack, pressure);
+
+      const level = lerp(0.45, 1, pressure);
+      toneEnvelope.triggerAttackRelease(duration, time, level);
+      breathEnvelope.triggerAttackRelease(duration, time, level);
+      chiffEnvelope.triggerAttackRelease(0.04, time, lerp(0.3, 1, pressure));
+    },
+    dispose: () => nodes.forEach(node => node.dispose()),
+  };
+};
+
+const createRecorderVoice = (tone: RecorderTone, destination: Tone.InputNode): TrackVoice => {
+  const output = new Tone.Volume(-4).connect(destination);
+  const pipes = Array.from({ length: RECORDER_POLYPHONY }, () => ({ pipe: createPipe(tone, output), busyUntil: 0 }));
+
+  return {
+    play: (time, midi, duration, velocity) => {
+      // The pipe that falls silent first takes the note
+      const slot = pipes.reduce((best, p) => (p.busyUntil < best.busyUntil ? p : best));
+      slot.busyUntil = time + duration + 0.1;
+      slot.pipe.play(time, midi, duration, velocity);
+    },
+    dispose: () => {
+      pipes.forEach(({ pipe }) => pipe.dispose());
+      output.dispose();
+    },
+  };
+};
+
+// Plain sine without vibrato, for checking intonation against
+const createReferenceVoice = (destination: Tone.InputNode): TrackVoice => {
+  const synth = new Tone.PolySynth(Tone.Synth, {
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.02, decay: 0.1, sustain: 0.9, release: 0.2 },
+    volume: -6,
+  }).connect(destination);
+  return {
+    play: (time, midi, duration, velocity) =>
+      synth.triggerAttackRelease(Tone.Frequency(midi, "midi").toFrequency(), duration, time, velocity),
+    dispose: () => {
+      synth.dispose();
+    },
+  };
+};
+
+export const createMelodyVoice = (instrument: MelodyInstrument, destination: Tone.InputNode): TrackVoice =>
+  instrument === 'reference'
+    ? createReferenceVoice(destination)
+    : createRecorderVoice(RECORDER_TONES[instrument], destination);
@@ -0,0 +1,60 @@
+// The app's IndexedDB database: practice sessions and the song library
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+export type StoreName = 'sessions' | 'songs';
+
+const DB_NAME = 'flautamaster';
+// 1: sessions, 2: songs
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new StorageError("Este navegador no puede guardar datos en el dispositivo."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('sessions')) {
+          const sessions = db.createObjectStore('sessions', { keyPath: 'id' });
+          sessions.createIndex('songId', 'songId');
+          sessions.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains('songs')) {
+          db.createObjectStore('songs', { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new StorageError("No se pudieron abrir los datos guardados."));
+    });
+    // Let a later call try again, e.g. after the user frees up storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/** Runs requests in one transaction and resolves with the last request's result once it commits. */
+export const transact = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(new StorageError("No se pudieron guardar o leer los datos."));
+    tx.onabort = () => reject(new StorageError("No se pudieron guardar o leer los datos."));
+  });
+};
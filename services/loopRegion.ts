@@ -0,0 +1,58 @@
+import { Note } from "../types";
+import { MeasureInfo, TempoSegment, beatsToSeconds, measureAtBeat, secondsToBeats } from "./tempoMap";
+import { NoteResult } from "./practiceScoring";
+
+// A practice loop always covers whole measures, both ends included
+export interface LoopRegion {
+  startMeasure: number;
+  endMeasure: number;
+}
+
+export interface SpeedTrainerSettings {
+  enabled: boolean;
+  // Playback rates, 1 = written tempo
+  startRate: number;
+  step: number;
+  targetRate: number;
+}
+
+export const DEFAULT_SPEED_TRAINER: SpeedTrainerSettings = {
+  enabled: false,
+  startRate: 0.6,
+  step: 0.05,
+  targetRate: 1,
+};
+
+// Dragging backwards selects the same measures as dragging forwards
+export const loopBetween = (a: number, b: number): LoopRegion => ({
+  startMeasure: Math.min(a, b),
+  endMeasure: Math.max(a, b),
+});
+
+export const measureIndexAtTime = (measures: MeasureInfo[], segments: TempoSegment[], seconds: number) =>
+  measureAtBeat(measures, secondsToBeats(segments, seconds)).index;
+
+// Start and end of the loop in song seconds
+export const loopTimes = (measures: MeasureInfo[], segments: TempoSegment[], loop: LoopRegion) => {
+  const first = measures[Math.min(loop.startMeasure, measures.length - 1)];
+  const last = measures[Math.min(loop.endMeasure, measures.length - 1)];
+  return {
+    start: first.startTime,
+    end: beatsToSeconds(segments, last.startBeat + last.beats),
+  };
+};
+
+export const notesInLoop = (notes: Note[], start: number, end: number) =>
+  notes.filter(n => n.time >= start - 0.01 && n.time < end - 0.01);
+
+export const describeLoop = (loop: LoopRegion) =>
+  loop.startMeasure === loop.endMeasure
+    ? `Compás ${loop.startMeasure + 1}`
+    : `Compases ${loop.startMeasure + 1}–${loop.endMeasure + 1}`;
+
+// A repetition only counts towards the next tempo when every note was right
+export const isCleanRepetition = (results: NoteResult[]) =>
+  results.length > 0 && results.every(r => r.status === 'correct');
+
+export const nextTrainerRate = (rate: number, settings: SpeedTrainerSettings) =>
+  Math.min(settings.targetRate, Math.round((rate + settings.step) * 100) / 100);
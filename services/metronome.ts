@@ -0,0 +1,124 @@
+import * as Tone from 'tone';
+import { MeasureInfo, TempoSegment, beatsToSeconds } from "./tempoMap";
+
+export type ClickAccent = 'downbeat' | 'beat' | 'subdivision';
+
+export interface MetronomeSettings {
+  enabled: boolean;
+  // Also click the eighths (or the eighths of a compound beat)
+  subdivide: boolean;
+  // Bars of clicks before playback starts or a loop comes round again
+  countInBars: 0 | 1 | 2;
+}
+
+export const DEFAULT_METRONOME: MetronomeSettings = {
+  enabled: false,
+  subdivide: false,
+  countInBars: 0,
+};
+
+export interface Click {
+  // Song seconds
+  time: number;
+  accent: ClickAccent;
+  measure: number;
+  // 0-based pulse within the measure; subdivisions keep the pulse they belong to
+  pulse: number;
+}
+
+export interface PulsePattern {
+  pulses: number;
+  // Length of one pulse in quarter notes
+  pulseBeats: number;
+  subdivisions: number;
+}
+
+/**
+ * How a time signature is counted: 6/8, 9/8 and 12/8 in dotted quarters
+ * split in three, everything else in its written beat split in two.
+ */
+export const pulsePattern = ([numerator, denominator]: [number, number]): PulsePattern => {
+  const compound = denominator >= 8 && numerator > 3 && numerator % 3 === 0;
+  return compound
+    ? { pulses: numerator / 3, pulseBeats: (3 * 4) / denominator, subdivisions: 3 }
+    : { pulses: numerator, pulseBeats: 4 / denominator, subdivisions: 2 };
+};
+
+const clicksInMeasure = (
+  measure: MeasureInfo,
+  subdivide: boolean,
+  toTime: (beat: number) => number,
+): Click[] => {
+  const { pulses, pulseBeats, subdivisions } = pulsePattern(measure.timeSignature);
+  const steps = subdivide ? subdivisions : 1;
+  const clicks: Click[] = [];
+  for (let pulse = 0; pulse < pulses; pulse++) {
+    for (let step = 0; step < steps; step++) {
+      const beat = measure.startBeat + (pulse + step / steps) * pulseBeats;
+      // Pickup-length measures can be shorter than the signature says
+      if (beat >= measure.startBeat + measure.beats - 1e-6) break;
+      clicks.push({
+        time: toTime(beat),
+        accent: step > 0 ? 'subdivision' : pulse === 0 ? 'downbeat' : 'beat',
+        measure: measure.index,
+        pulse,
+      });
+    }
+  }
+  return clicks;
+};
+
+// Every click of the song, following tempo and time signature changes
+export const buildClicks = (measures: MeasureInfo[], segments: TempoSegment[], subdivide: boolean): Click[] =>
+  measures.flatMap(m => clicksInMeasure(m, subdivide, beat => beatsToSeconds(segments, beat)));
+
+/**
+ * Count-in clicks in the meter and tempo of the measure being entered,
+ * timed from 0 in seconds at the written tempo.
+ */
+export const buildCountIn = (measure: MeasureInfo, bpm: number, bars: number, subdivide: boolean) => {
+  const secondsPerBeat = 60 / bpm;
+  const clicks: Click[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const start = bar * measure.beats;
+    clicks.push(...clicksInMeasure(
+      { ...measure, startBeat: 0 },
+      subdivide,
+      beat => (start + beat) * secondsPerBeat,
+    ));
+  }
+  return { clicks, length: bars * measure.beats * secondsPerBeat };
+};
+
+export interface ClickVoice {
+  play: (time: number, accent: ClickAccent) => void;
+  dispose: () => void;
+}
+
+const CLICK_PITCHES: Record<ClickAccent, string> = {
+  downbeat: 'C7',
+  beat: 'G6',
+  subdivision: 'C6',
+};
+
+const CLICK_VELOCITIES: Record<ClickAccent, number> = {
+  downbeat: 1,
+  beat: 0.7,
+  subdivision: 0.35,
+};
+
+// Short woodblock-like click, pitched higher on the downbeat
+export const createClickVoice = (): ClickVoice => {
+  const synth = new Tone.Synth({
+    oscillator: { type: 'square' },
+    envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 },
+    volume: -14,
+  }).toDestination();
+
+  return {
+    play: (time, accent) => synth.triggerAttackRelease(CLICK_PITCHES[accent], 0.03, time, CLICK_VELOCITIES[accent]),
+    dispose: () => {
+      synth.dispose();
+    },
+  };
+};
@@ -0,0 +1,59 @@
+import { DetectedPitch, PitchDetectorOptions, detectPitch, rootMeanSquare } from "./pitchDetection";
+
+export interface PitchTracker {
+  stop: () => void;
+}
+
+export class MicrophoneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MicrophoneError";
+  }
+}
+
+const FRAME_SIZE = 2048;
+const POLL_INTERVAL_MS = 30;
+
+/**
+ * Captures the microphone and reports the detected pitch of each frame.
+ * Echo cancellation and noise suppression are off: they smear sustained tones.
+ */
+export const startPitchTracker = async (
+  onFrame: (pitch: DetectedPitch | null, rms: number) => void,
+  options: PitchDetectorOptions = {},
+): Promise<PitchTracker> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new MicrophoneError("Este navegador no permite usar el micrófono.");
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+  } catch (error) {
+    console.error("Microphone access failed:", error);
+    throw new MicrophoneError("No pudimos acceder al micrófono. Revisa los permisos del navegador.");
+  }
+
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FRAME_SIZE;
+  source.connect(analyser);
+
+  const buffer = new Float32Array(FRAME_SIZE);
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(buffer);
+    onFrame(detectPitch(buffer, context.sampleRate, options), rootMeanSquare(buffer));
+  }, POLL_INTERVAL_MS);
+
+  return {
+    stop: () => {
+      clearInterval(interval);
+      source.disconnect();
+      stream.getTracks().forEach(t => t.stop());
+      context.close();
+    },
+  };
+};
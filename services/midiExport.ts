@@ -0,0 +1,60 @@
+import { Midi } from "@tonejs/midi";
+import { MidiData } from "../types";
+import { buildTempoSegments, secondsToBeats } from "./tempoMap";
+import { isPercussionTrack } from "./trackSelection";
+
+export interface MidiExportOptions {
+  // Only this track is written; null writes them all
+  trackIndex: number | null;
+  // Playback speed baked into the tempo map, 1 keeps the written tempo
+  rate: number;
+}
+
+// General MIDI reserves channel 10 (index 9) for drum kits
+const PERCUSSION_CHANNEL = 9;
+
+/**
+ * Writes the song as a Standard MIDI File. Positions are converted to ticks
+ * through the song's own tempo map, so baking in a practice speed only
+ * changes the tempo events and the notes stay on the beat.
+ */
+export const exportMidi = (midiData: MidiData, options: MidiExportOptions): Uint8Array => {
+  const segments = buildTempoSegments(midiData.header.tempos);
+  const midi = new Midi();
+  const ppq = midi.header.ppq;
+  const toTicks = (seconds: number) => Math.round(secondsToBeats(segments, seconds) * ppq);
+
+  midi.header.name = midiData.header.name;
+  midi.header.tempos = segments.map(s => ({ ticks: Math.round(s.beat * ppq), bpm: s.bpm * options.rate }));
+  midi.header.timeSignatures = midiData.header.timeSignatures.map(ts => ({
+    ticks: toTicks(ts.time ?? 0),
+    timeSignature: [...ts.timeSignature],
+  }));
+  // Key signatures are left out: @tonejs/midi 2.0 writes the number of
+  // sharps off by 14, so every key would read back as an invalid one
+  midi.header.update();
+
+  const tracks = options.trackIndex === null
+    ? midiData.tracks
+    : midiData.tracks.filter((_, index) => index === options.trackIndex);
+
+  tracks.forEach((source, index) => {
+    const track = midi.addTrack();
+    track.name = source.name;
+    // Channels past the 16 MIDI has wrap around, skipping the drum channel
+    const melodicChannel = index % 15 >= PERCUSSION_CHANNEL ? (index % 15) + 1 : index % 15;
+    track.channel = isPercussionTrack(source) ? PERCUSSION_CHANNEL : source.channel ?? melodicChannel;
+    track.instrument.number = source.instrument.number ?? 0;
+    source.notes.forEach(note => {
+      const ticks = toTicks(note.time);
+      track.addNote({
+        midi: note.midi,
+        ticks,
+        durationTicks: Math.max(1, toTicks(note.time + note.duration) - ticks),
+        velocity: note.velocity,
+      });
+    });
+  });
+
+  return midi.toArray();
+};
@@ -0,0 +1,55 @@
+export interface MidiInputListener {
+  stop: () => void;
+}
+
+export class MidiInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MidiInputError";
+  }
+}
+
+const NOTE_ON = 0x90;
+
+/**
+ * Listens to note-on messages from every connected Web MIDI input,
+ * including devices plugged in after it started. `onDevicesChange` gets the
+ * number of inputs right away and whenever one is plugged in or removed.
+ */
+export const startMidiInput = async (
+  onNoteOn: (midi: number, velocity: number) => void,
+  onDevicesChange?: (count: number) => void,
+): Promise<MidiInputListener> => {
+  if (!navigator.requestMIDIAccess) {
+    throw new MidiInputError("Este navegador no admite teclados ni controladores MIDI.");
+  }
+
+  let access: MIDIAccess;
+  try {
+    access = await navigator.requestMIDIAccess();
+  } catch (error) {
+    console.error("MIDI access failed:", error);
+    throw new MidiInputError("No pudimos acceder a los dispositivos MIDI.");
+  }
+
+  const handleMessage = (event: MIDIMessageEvent) => {
+    if (!event.data || event.data.length < 3) return;
+    const [status, note, velocity] = event.data;
+    // Note-on with velocity 0 is a note-off in running status
+    if ((status & 0xf0) === NOTE_ON && velocity > 0) onNoteOn(note, velocity / 127);
+  };
+
+  const attach = () => {
+    access.inputs.forEach(input => { input.onmidimessage = handleMessage; });
+    onDevicesChange?.(access.inputs.size);
+  };
+  attach();
+  access.onstatechange = attach;
+
+  return {
+    stop: () => {
+      access.onstatechange = null;
+      access.inputs.forEach(input => { input.onmidimessage = null; });
+    },
+  };
+};
@@ -0,0 +1,103 @@
+import { Midi } from "@tonejs/midi";
+import { MidiData, Track } from "../types";
+
+export const ACCEPTED_MIDI_EXTENSIONS = ['.mid', '.midi'];
+
+// Errors carry a message that can be shown to the student as-is
+export class MidiParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MidiParseError";
+  }
+}
+
+export const isMidiFileName = (fileName: string) => {
+  const lower = fileName.toLowerCase();
+  return ACCEPTED_MIDI_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Every Standard MIDI File starts with the "MThd" chunk id
+const hasMidiHeader = (bytes: Uint8Array) =>
+  bytes.length >= 14 &&
+  bytes[0] === 0x4d && bytes[1] === 0x54 && bytes[2] === 0x68 && bytes[3] === 0x64;
+
+export const parseMidiBuffer = (buffer: ArrayBuffer, fileName = "Canción sin título"): MidiData => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length === 0) {
+    throw new MidiParseError(`El archivo "${fileName}" está vacío.`);
+  }
+  if (!hasMidiHeader(bytes)) {
+    throw new MidiParseError(`"${fileName}" no es un archivo MIDI válido.`);
+  }
+
+  let midi: Midi;
+  try {
+    midi = new Midi(bytes);
+  } catch (error) {
+    console.error("Error parsing MIDI file:", error);
+    throw new MidiParseError(`"${fileName}" parece estar dañado y no se pudo leer.`);
+  }
+
+  const { header } = midi;
+
+  const tracks: Track[] = midi.tracks.map((track, index) => ({
+    name: track.name.trim() || `Pista ${index + 1}`,
+    channel: track.channel,
+    instrument: {
+      family: track.instrument.family,
+      name: track.instrument.name,
+      number: track.instrument.number,
+      percussion: track.instrument.percussion,
+    },
+    notes: track.notes.map(n => ({
+      name: n.name,
+      midi: n.midi,
+      time: n.time,
+      duration: n.duration,
+      velocity: n.velocity,
+    })),
+  }));
+
+  if (!tracks.some(t => t.notes.length > 0)) {
+    throw new MidiParseError(`"${fileName}" no contiene ninguna nota.`);
+  }
+
+  // Files without tempo or meter events default to 120 BPM in 4/4
+  const tempos = header.tempos.length > 0
+    ? header.tempos.map(t => ({ bpm: t.bpm, time: header.ticksToSeconds(t.ticks) }))
+    : [{ bpm: 120, time: 0 }];
+
+  const timeSignatures = header.timeSignatures.length > 0
+    ? header.timeSignatures.map(ts => ({
+        timeSignature: [...ts.timeSignature],
+        time: header.ticksToSeconds(ts.ticks),
+      }))
+    : [{ timeSignature: [4, 4], time: 0 }];
+
+  const keySignatures = header.keySignatures.map(ks => ({
+    key: ks.key,
+    scale: ks.scale,
+    time: header.ticksToSeconds(ks.ticks),
+  }));
+
+  return {
+    header: {
+      name: header.name.trim() || stripExtension(fileName),
+      tempos,
+      timeSignatures,
+      keySignatures,
+    },
+    duration: midi.duration,
+    tracks,
+  };
+};
+
+export const parseMidiFile = async (file: File): Promise<MidiData> => {
+  if (!isMidiFileName(file.name)) {
+    throw new MidiParseError(`"${file.name}" no es un archivo .mid o .midi.`);
+  }
+  const buffer = await file.arrayBuffer();
+  return parseMidiBuffer(buffer, file.name);
+};
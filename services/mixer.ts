@@ -0,0 +1,162 @@
+import * as Tone from 'tone';
+import { Track } from "../types";
+import { isPercussionTrack } from "./trackSelection";
+import { TrackVoice, createMelodyVoice } from "./instruments";
+
+export interface ChannelSettings {
+  muted: boolean;
+  solo: boolean;
+  // Decibels relative to the instrument's own level
+  volume: number;
+  // -1 (left) .. 1 (right)
+  pan: number;
+}
+
+export const DEFAULT_CHANNEL: ChannelSettings = { muted: false, solo: false, volume: 0, pan: 0 };
+
+// Keyed by track index so the settings survive rebuilding the channels
+export type MixerSettings = Record<number, ChannelSettings>;
+
+export const channelSettings = (mixer: MixerSettings, trackIndex: number) =>
+  mixer[trackIndex] ?? DEFAULT_CHANNEL;
+
+export type InstrumentKind = 'recorder' | 'piano' | 'strings' | 'bass' | 'percussion';
+
+export const INSTRUMENT_LABELS: Record<InstrumentKind, string> = {
+  recorder: 'Flauta',
+  piano: 'Piano',
+  strings: 'Cuerdas',
+  bass: 'Bajo',
+  percussion: 'Batería',
+};
+
+// General MIDI families grouped into the few sounds we synthesize
+const FAMILY_KINDS: Record<string, InstrumentKind> = {
+  "pipe": 'recorder',
+  "reed": 'strings',
+  "brass": 'strings',
+  "strings": 'strings',
+  "ensemble": 'strings',
+  "organ": 'strings',
+  "synth lead": 'strings',
+  "synth pad": 'strings',
+  "bass": 'bass',
+  "percussive": 'percussion',
+};
+
+export const instrumentKind = (track: Track): InstrumentKind =>
+  isPercussionTrack(track) ? 'percussion' : FAMILY_KINDS[track.instrument.family] ?? 'piano';
+
+const polyVoice = (synth: Tone.PolySynth, output: Tone.ToneAudioNode[] = []): TrackVoice => ({
+  play: (time, midi, duration, velocity) =>
+    synth.triggerAttackRelease(Tone.Frequency(midi, "midi").toFrequency(), duration, time, velocity),
+  dispose: () => {
+    synth.dispose();
+    output.forEach(node => node.dispose());
+  },
+});
+
+/**
+ * A small General MIDI drum kit: kicks and toms on a membrane, snares and
+ * claps on noise, hi-hats and cymbals on a metal synth.
+ */
+const drumKitVoice = (destination: Tone.InputNode): TrackVoice => {
+  const membrane = new Tone.MembraneSynth({ volume: -6 }).connect(destination);
+  const noise = new Tone.NoiseSynth({
+    noise: { type: 'white' },
+    envelope: { attack: 0.001, decay: 0.15, sustain: 0 },
+    volume: -12,
+  }).connect(destination);
+  const metal = new Tone.MetalSynth({
+    envelope: { attack: 0.001, decay: 0.08, release: 0.02 },
+    harmonicity: 5.1,
+    resonance: 4000,
+    volume: -24,
+  }).connect(destination);
+
+  // Monophonic drums can't start twice at the same instant (e.g. doubled hits)
+  const lastStart = new Map<object, number>();
+  const free = (drum: object, time: number) => {
+    if ((lastStart.get(drum) ?? -1) >= time) return false;
+    lastStart.set(drum, time);
+    return true;
+  };
+
+  return {
+    play: (time, midi, _duration, velocity) => {
+      if (midi === 35 || midi === 36) {
+        if (free(membrane, time)) membrane.triggerAttackRelease('C1', 0.3, time, velocity);
+      } else if ([41, 43, 45, 47, 48, 50].includes(midi)) {
+        // Toms rise in pitch with the note number
+        if (free(membrane, time)) membrane.triggerAttackRelease(Tone.Frequency(midi - 12, "midi").toFrequency(), 0.3, time, velocity);
+      } else if ([42, 44, 46, 49, 51, 52, 53, 55, 57, 59].includes(midi)) {
+        const open = midi !== 42 && midi !== 44;
+        if (free(metal, time)) metal.triggerAttackRelease(200, open ? 0.4 : 0.05, time, velocity);
+      } else if (free(noise, time)) {
+        noise.triggerAttackRelease(midi === 38 || midi === 40 ? 0.15 : 0.05, time, velocity);
+      }
+    },
+    dispose: () => {
+      membrane.dispose();
+      noise.dispose();
+      metal.dispose();
+    },
+  };
+};
+
+export const createTrackVoice = (kind: InstrumentKind, destination: Tone.InputNode): TrackVoice => {
+  switch (kind) {
+    case 'recorder':
+      return createMelodyVoice('recorder', destination);
+    case 'piano':
+      return polyVoice(new Tone.PolySynth(Tone.Synth, {
+        oscillator: { type: "triangle" },
+        envelope: { attack: 0.005, decay: 1.2, sustain: 0.15, release: 1 },
+        volume: -10,
+      }).connect(destination));
+    case 'strings': {
+      const filter = new Tone.Filter(2200, "lowpass").connect(destination);
+      const synth = new Tone.PolySynth(Tone.Synth, {
+        oscillator: { type: "sawtooth" },
+        envelope: { attack: 0.25, decay: 0.3, sustain: 0.8, release: 0.8 },
+        volume: -18,
+      }).connect(filter);
+      return polyVoice(synth, [filter]);
+    }
+    case 'bass':
+      return polyVoice(new Tone.PolySynth(Tone.Synth, {
+        oscillator: { type: "triangle" },
+        envelope: { attack: 0.01, decay: 0.4, sustain: 0.6, release: 0.3 },
+        volume: -8,
+      }).connect(destination));
+    case 'percussion':
+      return drumKitVoice(destination);
+  }
+};
+
+export interface MixerChannel {
+  channel: Tone.Channel;
+  // Can be swapped while playing; parts look it up on every note
+  voice: TrackVoice;
+}
+
+export const createMixerChannel = (
+  settings: ChannelSettings,
+  createVoice: (destination: Tone.InputNode) => TrackVoice,
+): MixerChannel => {
+  const channel = new Tone.Channel().toDestination();
+  applyChannelSettings(channel, settings);
+  return { channel, voice: createVoice(channel) };
+};
+
+export const applyChannelSettings = (channel: Tone.Channel, settings: ChannelSettings) => {
+  channel.mute = settings.muted;
+  channel.solo = settings.solo;
+  channel.volume.value = settings.volume;
+  channel.pan.value = settings.pan;
+};
+
+export const disposeMixerChannel = ({ channel, voice }: MixerChannel) => {
+  voice.dispose();
+  channel.dispose();
+};
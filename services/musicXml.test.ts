@@ -0,0 +1,77 @@
+import { readFileSync } from 'fs';
+import { JSDOM } from 'jsdom';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { MidiData } from '../types';
+import { MusicXmlError, exportMusicXml, parseMusicXml, parseMusicXmlBuffer } from './musicXml';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url));
+
+const parseFixture = (name: string) => parseMusicXml(fixture(name).toString('utf8'), name);
+
+const roundTrip = (data: MidiData) => parseMusicXml(exportMusicXml(data), 'exportada.musicxml');
+
+// What a reader of the score sees, note by note; times are rounded off the float noise
+const written = (data: MidiData) =>
+  data.tracks.map(track => track.notes.map(note => ({
+    midi: note.midi,
+    spelling: note.spelling ?? null,
+    time: +note.time.toFixed(4),
+    duration: +note.duration.toFixed(4),
+    lyric: note.lyric ?? null,
+    articulations: note.articulations ?? [],
+  })));
+
+const signatures = (data: MidiData) => ({
+  time: data.header.timeSignatures.map(t => ({ timeSignature: t.timeSignature, time: +(t.time ?? 0).toFixed(4) })),
+  key: (data.header.keySignatures ?? []).map(k => ({ key: k.key, scale: k.scale, time: +(k.time ?? 0).toFixed(4) })),
+});
+
+describe('MusicXML round trip', () => {
+  // Only the XML parser is borrowed from jsdom; Node's own Blob and streams unpack .mxl files
+  beforeAll(() => {
+    globalThis.DOMParser = new JSDOM().window.DOMParser;
+  });
+
+  it('keeps a partwise melody', () => {
+    const original = parseFixture('melody.musicxml');
+    expect(original.tracks[0].notes.map(n => n.name)).toEqual(['G4', 'A4', 'B4', 'C5', 'D5', 'F#4', 'E4', 'A#4', 'G4']);
+    expect(original.tracks[0].notes[7].spelling).toEqual({ step: 'B', alter: -1 });
+
+    const copy = roundTrip(original);
+    expect(written(copy)).toEqual(written(original));
+    expect(signatures(copy)).toEqual(signatures(original));
+    expect(copy.header.tempos[0].bpm).toBe(100);
+    expect(copy.header.name).toBe('Melodía sencilla');
+  });
+
+  it('reads a compressed .mxl like the plain score', async () => {
+    const file = fixture('melody.mxl');
+    const compressed = await parseMusicXmlBuffer(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength), 'melody.mxl');
+    const plain = parseFixture('melody.musicxml');
+    expect(written(compressed)).toEqual(written(plain));
+    expect(written(roundTrip(compressed))).toEqual(written(plain));
+  });
+
+  it('keeps key changes, lyrics, ties, articulations and chords', () => {
+    const original = parseFixture('hymn.musicxml');
+    const notes = original.tracks[0].notes;
+    // The tied G is one note of a quarter plus a half
+    const tied = notes.find(n => n.lyric === 'luz')!;
+    expect(tied.duration).toBeCloseTo(3 * 60 / 90, 4);
+    // Chords share their start
+    expect(notes.filter(n => Math.abs(n.time - notes[2].time) < 1e-6).map(n => n.name)).toEqual(['F4', 'A4']);
+    expect(signatures(original).key.map(k => k.key)).toEqual(['F', 'D']);
+    expect(signatures(original).time.map(t => t.timeSignature)).toEqual([[3, 4], [4, 4]]);
+
+    const copy = roundTrip(original);
+    expect(written(copy)).toEqual(written(original));
+    expect(signatures(copy)).toEqual(signatures(original));
+    expect(copy.tracks[0].notes.map(n => n.lyric).filter(Boolean)).toEqual(['Can-', 'ción', 'luz', 'ma-', 'ña']);
+  });
+
+  it('refuses to write a song without pitched tracks', () => {
+    const drums = parseFixture('melody.musicxml');
+    drums.tracks = drums.tracks.map(track => ({ ...track, instrument: { ...track.instrument, percussion: true } }));
+    expect(() => exportMusicXml(drums)).toThrow(MusicXmlError);
+  });
+});
@@ -0,0 +1,655 @@
+import { Midi } from "@tonejs/midi";
+import { Articulation, KeySignatureEvent, MidiData, Note, TimeSignatureEvent, Track } from "../types";
+import { TempoSegment, beatsToSeconds, measureLengthInBeats, segmentsFromBeats } from "./tempoMap";
+import { buildScore, NoteValue, ScoreEvent, ScoreMeasure } from "./notation";
+import { keyToMidiEvent, midiToNoteName } from "./pitchSpelling";
+import { isPercussionTrack } from "./trackSelection";
+
+export const ACCEPTED_MUSICXML_EXTENSIONS = ['.musicxml', '.xml', '.mxl'];
+
+// Errors carry a message that can be shown to the student as-is
+export class MusicXmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MusicXmlError";
+  }
+}
+
+export const isMusicXmlFileName = (fileName: string) => {
+  const lower = fileName.toLowerCase();
+  return ACCEPTED_MUSICXML_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// ---------------------------------------------------------------------------
+// Compressed .mxl files: a zip with META-INF/container.xml pointing at the score
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+
+const inflateRaw = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZipEntries = async (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes, before an optional comment
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new MusicXmlError("El archivo .mxl está dañado.");
+
+  const entries = new Map<string, () => Promise<Uint8Array>>();
+  let offset = view.getUint32(end + 16, true);
+  const count = view.getUint16(end + 10, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== ZIP_DIRECTORY_ENTRY) throw new MusicXmlError("El archivo .mxl está dañado.");
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      // The local header repeats the name and may have its own extra field
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + size);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new MusicXmlError("El archivo .mxl usa una compresión que no sabemos leer.");
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const unpackMxl = async (buffer: ArrayBuffer) => {
+  const entries = await readZipEntries(buffer);
+  const decoder = new TextDecoder();
+  const container = entries.get('META-INF/container.xml');
+  let path = container
+    ? parseXml(decoder.decode(await container())).querySelector('rootfile')?.getAttribute('full-path') ?? null
+    : null;
+  // Some writers skip the container; take the first score in the archive
+  if (!path || !entries.has(path)) {
+    path = Array.from(entries.keys()).find(name => !name.startsWith('META-INF/') && /\.(xml|musicxml)$/i.test(name)) ?? null;
+  }
+  if (!path) throw new MusicXmlError("El archivo .mxl no contiene ninguna partitura.");
+  return decoder.decode(await entries.get(path)!());
+};
+
+// ---------------------------------------------------------------------------
+// Reading
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new MusicXmlError("El archivo no es un MusicXML válido.");
+  }
+  return doc;
+};
+
+const child = (el: Element | null, ...path: string[]): Element | null => {
+  let current = el;
+  for (const name of path) {
+    current = current ? Array.from(current.children).find(c => c.tagName === name) ?? null : null;
+  }
+  return current;
+};
+
+const childrenNamed = (el: Element | null, name: string) =>
+  el ? Array.from(el.children).filter(c => c.tagName === name) : [];
+
+const text = (el: Element | null, ...path: string[]) => child(el, ...path)?.textContent?.trim() || null;
+
+const num = (el: Element | null, ...path: string[]) => {
+  const value = Number(text(el, ...path));
+  return text(el, ...path) !== null && Number.isFinite(value) ? value : null;
+};
+
+const STEP_PITCH_CLASS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+const ARTICULATION_TAGS: Record<string, Articulation> = {
+  'staccato': 'staccato',
+  'staccatissimo': 'staccato',
+  'spiccato': 'staccato',
+  'tenuto': 'tenuto',
+  'accent': 'accent',
+  'strong-accent': 'marcato',
+  'breath-mark': 'breath',
+};
+
+const BEAT_UNIT_QUARTERS: Record<string, number> = { whole: 4, half: 2, quarter: 1, eighth: 0.5, '16th': 0.25 };
+
+// MusicXML dynamics are a percentage of forte, which MIDI plays at velocity 90
+const DEFAULT_VELOCITY = 0.8;
+const dynamicsToVelocity = (percent: number) => Math.max(0.05, Math.min(1, (percent / 100) * 90 / 127));
+
+interface PartInfo {
+  name: string;
+  program: number | null;
+  channel: number | null;
+}
+
+// General MIDI family and name, as @tonejs/midi reports them for MIDI files
+const describeProgram = (program: number) => {
+  const track = new Midi().addTrack();
+  track.instrument.number = program;
+  return { family: track.instrument.family, name: track.instrument.name, number: program };
+};
+
+// Everything positioned in quarter-note beats; converted to seconds at the end
+interface BeatNote {
+  beat: number;
+  beats: number;
+  midi: number;
+  velocity: number;
+  spelling?: { step: string; alter: number };
+  lyric?: string;
+  articulations: Articulation[];
+}
+
+interface Conductor {
+  tempos: { beat: number; bpm: number }[];
+  timeSignatures: { beat: number; timeSignature: [number, number] }[];
+  keys: { beat: number; fifths: number; mode: 'major' | 'minor' }[];
+  measureStarts: number[];
+  endBeat: number;
+}
+
+const readLyric = (note: Element) => {
+  const lyric = childrenNamed(note, 'lyric')[0];
+  const words = text(lyric, 'text');
+  if (!lyric || !words) return undefined;
+  // Syllables that continue into the next note keep a trailing hyphen
+  const syllabic = text(lyric, 'syllabic');
+  return syllabic === 'begin' || syllabic === 'middle' ? `${words}-` : words;
+};
+
+const readArticulations = (note: Element) => {
+  const marks: Articulation[] = [];
+  childrenNamed(note, 'notations').forEach(notations => {
+    childrenNamed(notations, 'articulations').forEach(group =>
+      Array.from(group.children).forEach(mark => {
+        const kind = ARTICULATION_TAGS[mark.tagName];
+        if (kind && !marks.includes(kind)) marks.push(kind);
+      }));
+    if (child(notations, 'fermata') && !marks.includes('fermata')) marks.push('fermata');
+  });
+  return marks;
+};
+
+// Tempo of a <direction> or a bare <sound>, in quarter notes per minute
+const readTempo = (el: Element) => {
+  const tempo = Number(child(el, 'sound')?.getAttribute('tempo') ?? el.getAttribute('tempo'));
+  if (tempo > 0) return tempo;
+  // Without a <sound>, trust the printed metronome mark
+  const metronome = child(el, 'direction-type', 'metronome');
+  const perMinute = num(metronome, 'per-minute');
+  const unit = BEAT_UNIT_QUARTERS[text(metronome, 'beat-unit') ?? ''];
+  if (!perMinute || !unit) return null;
+  return perMinute * unit * (child(metronome, 'beat-unit-dot') ? 1.5 : 1);
+};
+
+// "3+2" beats count as 5
+const readBeats = (time: Element) =>
+  (text(time, 'beats') ?? '4').split('+').reduce((sum, part) => sum + (Number(part) || 0), 0) || 4;
+
+/**
+ * Reads one part. Ties are joined into single notes, grace and cue notes are
+ * skipped and repeats are played straight through. The first part also
+ * collects the tempo, meter and key changes shared by the whole score.
+ */
+const readPart = (part: Element, conductor: Conductor | null) => {
+  const notes: BeatNote[] = [];
+  const openTies = new Map<string, BeatNote>();
+  let percussion = false;
+  let divisions = 1;
+  let transpose = 0;
+  let velocity = DEFAULT_VELOCITY;
+  let measureStart = 0;
+  let timeSignature: [number, number] = [4, 4];
+
+  childrenNamed(part, 'measure').forEach(measure => {
+    conductor?.measureStarts.push(measureStart);
+    let cursor = 0;
+    let furthest = 0;
+    let chordStart = 0;
+
+    for (const el of Array.from(measure.children)) {
+      switch (el.tagName) {
+        case 'attributes': {
+          divisions = num(el, 'divisions') ?? divisions;
+          const chromatic = num(el, 'transpose', 'chromatic');
+          if (chromatic !== null) transpose = chromatic + 12 * (num(el, 'transpose', 'octave-change') ?? 0);
+          const time = child(el, 'time');
+          if (time) {
+            timeSignature = [readBeats(time), num(time, 'beat-type') ?? 4];
+            conductor?.timeSignatures.push({ beat: measureStart + cursor, timeSignature });
+          }
+          const key = child(el, 'key');
+          if (key && conductor) {
+            const fifths = Math.max(-7, Math.min(7, num(key, 'fifths') ?? 0));
+            conductor.keys.push({ beat: measureStart + cursor, fifths, mode: text(key, 'mode') === 'minor' ? 'minor' : 'major' });
+          }
+          break;
+        }
+        case 'direction':
+        case 'sound': {
+          const tempo = readTempo(el);
+          if (tempo && conductor) conductor.tempos.push({ beat: measureStart + cursor + (num(el, 'offset') ?? 0) / divisions, bpm: tempo });
+          const dynamics = Number((el.tagName === 'sound' ? el : child(el, 'sound'))?.getAttribute('dynamics'));
+          if (dynamics > 0) velocity = dynamicsToVelocity(dynamics);
+          break;
+        }
+        case 'backup':
+          cursor = Math.max(0, cursor - (num(el, 'duration') ?? 0) / divisions);
+          break;
+        case 'forward':
+          cursor += (num(el, 'duration') ?? 0) / divisions;
+          furthest = Math.max(furthest, cursor);
+          break;
+        case 'note': {
+          if (child(el, 'grace') || child(el, 'cue')) break;
+          const beats = (num(el, 'duration') ?? 0) / divisions;
+          const isChord = !!child(el, 'chord');
+          const start = isChord ? chordStart : cursor;
+          if (!isChord) {
+            chordStart = cursor;
+            cursor += beats;
+            furthest = Math.max(furthest, cursor);
+          }
+          if (child(el, 'rest')) break;
+
+          const pitch = child(el, 'pitch') ?? child(el, 'unpitched');
+          if (!pitch) break;
+          if (pitch.tagName === 'unpitched') percussion = true;
+          const step = (text(pitch, 'step') ?? text(pitch, 'display-step') ?? '').toUpperCase();
+          const octave = num(pitch, 'octave') ?? num(pitch, 'display-octave');
+          if (!(step in STEP_PITCH_CLASS) || octave === null) break;
+          const alter = Math.round(num(pitch, 'alter') ?? 0);
+          const midi = Math.max(0, Math.min(127, (octave + 1) * 12 + STEP_PITCH_CLASS[step] + alter + transpose));
+
+          const ties = childrenNamed(el, 'tie').map(t => t.getAttribute('type'));
+          const tieKey = `${text(el, 'voice') ?? '1'}:${midi}`;
+          const tiedFrom = ties.includes('stop') ? openTies.get(tieKey) : undefined;
+          const dynamics = Number(el.getAttribute('dynamics'));
+
+          let note: BeatNote;
+          if (tiedFrom) {
+            tiedFrom.beats = measureStart + start + beats - tiedFrom.beat;
+            note = tiedFrom;
+          } else {
+            note = {
+              beat: measureStart + start,
+              beats,
+              midi,
+              velocity: dynamics > 0 ? dynamicsToVelocity(dynamics) : velocity,
+              // A transposing part sounds at a different pitch than it is written
+              spelling: transpose === 0 ? { step, alter } : undefined,
+              lyric: readLyric(el),
+              articulations: readArticulations(el),
+            };
+            notes.push(note);
+          }
+          if (ties.includes('start')) openTies.set(tieKey, note);
+          else openTies.delete(tieKey);
+          break;
+        }
+      }
+    }
+
+    // Measures without notes (e.g. multi-measure rests) take the meter's length
+    measureStart += furthest > 0 ? furthest : measureLengthInBeats(timeSignature);
+  });
+
+  if (conductor) conductor.endBeat = measureStart;
+  return { notes, percussion };
+};
+
+/**
+ * Reads a partwise MusicXML score into the same shape as a parsed MIDI file.
+ * Written spelling, lyrics and articulations travel on the notes.
+ */
+export const parseMusicXml = (xml: string, fileName = "Canción sin título"): MidiData => {
+  const doc = parseXml(xml);
+  const root = doc.documentElement;
+  if (root.tagName === 'score-timewise') {
+    throw new MusicXmlError(`"${fileName}" está en formato MusicXML "timewise"; expórtalo como "partwise".`);
+  }
+  if (root.tagName !== 'score-partwise') {
+    throw new MusicXmlError(`"${fileName}" no es una partitura MusicXML.`);
+  }
+
+  const partInfo = new Map<string, PartInfo>();
+  childrenNamed(child(root, 'part-list'), 'score-part').forEach(scorePart => {
+    const program = num(scorePart, 'midi-instrument', 'midi-program');
+    const channel = num(scorePart, 'midi-instrument', 'midi-channel');
+    partInfo.set(scorePart.getAttribute('id') ?? '', {
+      name: text(scorePart, 'part-name') ?? '',
+      // MusicXML counts programs and channels from 1
+      program: program !== null ? program - 1 : null,
+      channel: channel !== null ? channel - 1 : null,
+    });
+  });
+
+  const conductor: Conductor = { tempos: [], timeSignatures: [], keys: [], measureStarts: [], endBeat: 0 };
+  const parts = childrenNamed(root, 'part').map((part, index) => ({
+    part,
+    info: partInfo.get(part.getAttribute('id') ?? ''),
+    ...readPart(part, index === 0 ? conductor : null),
+  }));
+
+  if (!parts.some(p => p.notes.length > 0)) {
+    throw new MusicXmlError(`"${fileName}" no contiene ninguna nota.`);
+  }
+
+  // A pickup measure is padded with rests so later bar lines fall on whole measures
+  const firstMeter = conductor.timeSignatures[0]?.timeSignature ?? [4, 4];
+  const pickup = conductor.measureStarts.length > 1
+    ? Math.max(0, measureLengthInBeats(firstMeter) - conductor.measureStarts[1])
+    : 0;
+  const shift = (beat: number) => (beat > 0 ? beat + pickup : beat);
+
+  const segments = segmentsFromBeats(conductor.tempos.map(t => ({ ...t, beat: shift(t.beat) })));
+  const toSeconds = (beat: number) => beatsToSeconds(segments, beat);
+
+  const timeSignatures: TimeSignatureEvent[] = conductor.timeSignatures.length > 0
+    ? conductor.timeSignatures.map(ts => ({ timeSignature: [...ts.timeSignature], time: toSeconds(shift(ts.beat)) }))
+    : [{ timeSignature: [4, 4], time: 0 }];
+
+  const keySignatures: KeySignatureEvent[] = [];
+  conductor.keys.forEach(k => {
+    const last = keySignatures[keySignatures.length - 1];
+    const event = keyToMidiEvent({ fifths: k.fifths, mode: k.mode }, toSeconds(shift(k.beat)));
+    if (!last || last.key !== event.key || last.scale !== event.scale) keySignatures.push(event);
+  });
+
+  const tracks: Track[] = parts.map(({ info, notes, percussion }, index) => ({
+    name: info?.name || `Pista ${index + 1}`,
+    channel: percussion ? 9 : info?.channel ?? index,
+    instrument: percussion
+      ? { family: 'drums', name: 'standard kit', number: 0, percussion: true }
+      : { ...describeProgram(info?.program ?? 0), percussion: false },
+    notes: notes
+      .map((n): Note => {
+        const time = toSeconds(n.beat + pickup);
+        return {
+          name: midiToNoteName(n.midi),
+          midi: n.midi,
+          time,
+          duration: toSeconds(n.beat + pickup + n.beats) - time,
+          velocity: n.velocity,
+          ...(n.spelling ? { spelling: n.spelling } : {}),
+          ...(n.lyric ? { lyric: n.lyric } : {}),
+          ...(n.articulations.length ? { articulations: n.articulations } : {}),
+        };
+      })
+      .sort((a, b) => a.time - b.time || a.midi - b.midi),
+  }));
+
+  const composer = Array.from(root.querySelectorAll('identification > creator'))
+    .find(c => c.getAttribute('type') === 'composer')?.textContent?.trim();
+
+  return {
+    header: {
+      name: text(root, 'work', 'work-title') ?? text(root, 'movement-title') ?? stripExtension(fileName),
+      ...(composer ? { composer } : {}),
+      tempos: segments.map(s => ({ bpm: s.bpm, time: s.time })),
+      timeSignatures,
+      keySignatures,
+    },
+    duration: toSeconds(conductor.endBeat + pickup),
+    tracks,
+  };
+};
+
+export const parseMusicXmlBuffer = async (buffer: ArrayBuffer, fileName: string): Promise<MidiData> => {
+  if (buffer.byteLength === 0) {
+    throw new MusicXmlError(`El archivo "${fileName}" está vacío.`);
+  }
+  const bytes = new Uint8Array(buffer);
+  // Zip archives start with "PK"
+  const zipped = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  const xml = zipped ? await unpackMxl(buffer) : new TextDecoder().decode(bytes);
+  return parseMusicXml(xml, fileName);
+};
+
+export const parseMusicXmlFile = async (file: File): Promise<MidiData> => {
+  if (!isMusicXmlFileName(file.name)) {
+    throw new MusicXmlError(`"${file.name}" no es un archivo .musicxml, .xml o .mxl.`);
+  }
+  return parseMusicXmlBuffer(await file.arrayBuffer(), file.name);
+};
+
+// ---------------------------------------------------------------------------
+// Writing
+
+// Sixteenths are the shortest value the score builder writes
+const DIVISIONS = 4;
+
+const NOTE_TYPES: Record<NoteValue, string> = {
+  whole: 'whole',
+  half: 'half',
+  quarter: 'quarter',
+  eighth: 'eighth',
+  sixteenth: '16th',
+};
+
+const ARTICULATION_ELEMENTS: Partial<Record<Articulation, string>> = {
+  staccato: 'staccato',
+  tenuto: 'tenuto',
+  accent: 'accent',
+  marcato: 'strong-accent',
+  breath: 'breath-mark',
+};
+
+const ACCIDENTAL_NAMES: Record<number, string> = {
+  [-2]: 'flat-flat',
+  [-1]: 'flat',
+  0: 'natural',
+  1: 'sharp',
+  2: 'double-sharp',
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// One element as indented lines; `content` is text or the lines of its children
+const el = (name: string, content: string | number | string[] | null = null, attrs: Record<string, string | number> = {}): string[] => {
+  const open = [name, ...Object.entries(attrs).map(([k, v]) => `${k}="${escapeXml(String(v))}"`)].join(' ');
+  if (content === null) return [`<${open}/>`];
+  if (Array.isArray(content)) return [`<${open}>`, ...content.map(line => `  ${line}`), `</${name}>`];
+  return [`<${open}>${escapeXml(String(content))}</${name}>`];
+};
+
+const beamStates = (members: ScoreEvent[], index: number) => {
+  const event = members[index];
+  const states: [number, string][] = [[1, index === 0 ? 'begin' : index === members.length - 1 ? 'end' : 'continue']];
+  if (event.value === 'sixteenth') {
+    const prev = members[index - 1]?.value === 'sixteenth';
+    const next = members[index + 1]?.value === 'sixteenth';
+    states.push([2, prev && next ? 'continue' : prev ? 'end' : next ? 'begin' : index === 0 ? 'forward hook' : 'backward hook']);
+  }
+  return states;
+};
+
+const writeMeasure = (
+  measure: ScoreMeasure,
+  number: number,
+  tempos: TempoSegment[],
+  lyricState: { continues: boolean },
+): string[] => {
+  const attributes: string[] = [];
+  if (number === 1) attributes.push(...el('divisions', DIVISIONS));
+  if (measure.showKeySignature) {
+    attributes.push(...el('key', [...el('fifths', measure.key.fifths), ...el('mode', measure.key.mode)]));
+  }
+  if (measure.showTimeSignature) {
+    attributes.push(...el('time', [...el('beats', measure.timeSignature[0]), ...el('beat-type', measure.timeSignature[1])]));
+  }
+  if (number === 1) attributes.push(...el('clef', [...el('sign', 'G'), ...el('line', 2)]));
+
+  const lines = attributes.length ? el('attributes', attributes) : [];
+
+  tempos
+    .filter(t => t.beat >= measure.startBeat - 1e-6 && t.beat < measure.startBeat + measure.beats - 1e-6)
+    .forEach(t => {
+      const bpm = Math.round(t.bpm * 100) / 100;
+      const offset = Math.round((t.beat - measure.startBeat) * DIVISIONS);
+      lines.push(...el('direction', [
+        ...el('direction-type', el('metronome', [...el('beat-unit', 'quarter'), ...el('per-minute', Math.round(bpm))])),
+        ...(offset > 0 ? el('offset', offset) : []),
+        ...el('sound', null, { tempo: bpm }),
+      ], { placement: 'above' }));
+    });
+
+  const beamGroups = new Map<number, ScoreEvent[]>();
+  measure.events.forEach(e => {
+    if (e.beamGroup !== null) beamGroups.set(e.beamGroup, [...(beamGroups.get(e.beamGroup) ?? []), e]);
+  });
+
+  measure.events.forEach(event => {
+    const duration = Math.round(event.beats * DIVISIONS);
+    if (event.kind === 'rest') {
+      lines.push(...el('note', event.wholeMeasure
+        ? [...el('rest', null, { measure: 'yes' }), ...el('duration', duration), ...el('voice', 1)]
+        : [...el('rest'), ...el('duration', duration), ...el('voice', 1), ...el('type', NOTE_TYPES[event.value]), ...(event.dotted ? el('dot') : [])]));
+      return;
+    }
+
+    event.spelled.forEach((pitch, i) => {
+      const ties = [...(event.tieFromPrev ? ['stop'] : []), ...(event.tieToNext ? ['start'] : [])];
+      const accidental = event.accidentals[i];
+      const notations: string[] = ties.map(type => el('tied', null, { type })[0]);
+
+      if (i === 0) {
+        const marks = event.articulations.map(a => ARTICULATION_ELEMENTS[a]).filter((m): m is string => !!m);
+        if (marks.length) notations.push(...el('articulations', marks.flatMap(m => el(m))));
+        if (event.articulations.includes('fermata')) notations.push(...el('fermata', null, { type: 'upright' }));
+      }
+
+      const beams = i === 0 && event.beamGroup !== null
+        ? beamStates(beamGroups.get(event.beamGroup)!, beamGroups.get(event.beamGroup)!.indexOf(event))
+            .flatMap(([level, state]) => el('beam', state, { number: level }))
+        : [];
+
+      let lyric: string[] = [];
+      if (i === 0 && event.lyric) {
+        const continuesNext = event.lyric.endsWith('-');
+        const syllabic = lyricState.continues
+          ? (continuesNext ? 'middle' : 'end')
+          : (continuesNext ? 'begin' : 'single');
+        lyricState.continues = continuesNext;
+        lyric = el('lyric', [...el('syllabic', syllabic), ...el('text', event.lyric.replace(/-$/, ''))], { number: 1 });
+      }
+
+      lines.push(...el('note', [
+        ...(i > 0 ? el('chord') : []),
+        ...el('pitch', [
+          ...el('step', pitch.letter),
+          ...(pitch.alter !== 0 ? el('alter', pitch.alter) : []),
+          ...el('octave', pitch.octave),
+        ]),
+        ...el('duration', duration),
+        ...ties.flatMap(type => el('tie', null, { type })),
+        ...el('voice', 1),
+        ...el('type', NOTE_TYPES[event.value]),
+        ...(event.dotted ? el('dot') : []),
+        ...(accidental !== null ? el('accidental', ACCIDENTAL_NAMES[accidental], event.courtesy[i] ? { parentheses: 'yes' } : {}) : []),
+        ...beams,
+        ...(notations.length ? el('notations', notations) : []),
+        ...lyric,
+      ]));
+    });
+  });
+
+  return el('measure', lines, { number });
+};
+
+// Tracks that become parts: drum kits and empty tracks have nothing to write on a staff
+const scoreTracks = (midiData: MidiData) =>
+  midiData.tracks.filter(t => t.notes.length > 0 && !isPercussionTrack(t));
+
+export const canExportMusicXml = (midiData: MidiData) => scoreTracks(midiData).length > 0;
+
+/**
+ * Writes the song as a partwise MusicXML score, one part per pitched track,
+ * quantized the same way the sheet music view draws it. Throws a MusicXmlError
+ * when no track has pitched notes.
+ */
+export const exportMusicXml = (midiData: MidiData): string => {
+  const tracks = scoreTracks(midiData);
+  if (tracks.length === 0) {
+    throw new MusicXmlError("La canción no tiene ninguna pista con notas que escribir en una partitura.");
+  }
+  const scores = tracks.map(track => buildScore(midiData, track));
+  const measureCount = Math.max(...scores.map(s => s.measures.length));
+
+  const partList = tracks.flatMap((track, i) => {
+    const id = `P${i + 1}`;
+    return el('score-part', [
+      ...el('part-name', track.name),
+      ...el('score-instrument', el('instrument-name', track.instrument.name || track.name), { id: `${id}-I1` }),
+      ...el('midi-instrument', [
+        ...el('midi-channel', ((track.channel ?? i) % 16) + 1),
+        ...el('midi-program', (track.instrument.number ?? 0) + 1),
+      ], { id: `${id}-I1` }),
+    ], { id });
+  });
+
+  const parts = scores.flatMap((score, i) => {
+    const measures = [...score.measures];
+    // Every part needs the same number of measures
+    while (measures.length < measureCount) {
+      const last = measures[measures.length - 1];
+      measures.push({
+        ...last,
+        index: last.index + 1,
+        startBeat: last.startBeat + last.beats,
+        showTimeSignature: false,
+        showKeySignature: false,
+        previousFifths: null,
+        events: [{
+          kind: 'rest', startBeat: last.startBeat + last.beats, beats: last.beats, value: 'whole', dotted: false,
+          pitches: [], noteIndex: -1, tieToNext: false, tieFromPrev: false, beamGroup: null, wholeMeasure: true,
+          written: [], spelled: [], accidentals: [], courtesy: [], articulations: [],
+        }],
+      });
+    }
+    // Tempo marks only go in the first part
+    const tempos = i === 0 ? score.tempoSegments : [];
+    const lyricState = { continues: false };
+    return el('part', measures.flatMap((m, n) => writeMeasure(m, n + 1, tempos, lyricState)), { id: `P${i + 1}` });
+  });
+
+  const composer = midiData.header.composer;
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    ...el('score-partwise', [
+      ...el('work', el('work-title', midiData.header.name)),
+      ...el('identification', [
+        ...(composer ? el('creator', composer, { type: 'composer' }) : []),
+        ...el('encoding', [
+          ...el('software', 'FlautaMaster'),
+          ...el('encoding-date', new Date().toISOString().slice(0, 10)),
+        ]),
+      ]),
+      ...el('part-list', partList),
+      ...parts,
+    ], { version: '4.0' }),
+    '',
+  ].join('\n');
+};
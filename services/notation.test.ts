@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildScore, hasOffGridNotes, splitDuration } from './notation';
+import { parseAbc } from './abcNotation';
+
+const values = (parts: ReturnType<typeof splitDuration>) =>
+  parts.map(p => `${p.value}${p.dotted ? '.' : ''}`);
+
+describe('splitDuration', () => {
+  it('ties values of a beat or longer that start off the beat', () => {
+    expect(values(splitDuration(0, 1.5))).toEqual(['quarter.']);
+    expect(values(splitDuration(0.5, 1))).toEqual(['eighth', 'eighth']);
+  });
+
+  it('keeps dotted quarters on the second pulse of compound meters', () => {
+    expect(values(splitDuration(1.5, 1.5, 1.5))).toEqual(['quarter.']);
+    expect(values(splitDuration(0.5, 1, 1.5))).toEqual(['quarter']);
+    // A half note would cross the pulse
+    expect(values(splitDuration(0, 2, 1.5))).toEqual(['quarter.', 'eighth']);
+    expect(values(splitDuration(0, 6, 1.5))).toEqual(['whole.']);
+  });
+});
+
+describe('buildScore in compound meters', () => {
+  it('writes two dotted quarters in 6/8 without ties', () => {
+    const song = parseAbc('X:1\nM:6/8\nL:1/8\nK:C\nc3 d3 |]\n');
+    const [measure] = buildScore(song, song.tracks[0]).measures;
+    expect(measure.events.map(e => [e.value, e.dotted, e.tieToNext])).toEqual([
+      ['quarter', true, false],
+      ['quarter', true, false],
+    ]);
+  });
+});
+
+describe('hasOffGridNotes', () => {
+  it('spots triplets, which the staff rounds to the grid', () => {
+    const tune = (body: string) => parseAbc(`X:1\nM:2/4\nL:1/8\nK:C\n${body} |]\n`);
+    const triplets = tune('(3efg c2');
+    const sixteenths = tune('e/f/g c2');
+    expect(hasOffGridNotes(triplets, triplets.tracks[0])).toBe(true);
+    expect(hasOffGridNotes(sixteenths, sixteenths.tracks[0])).toBe(false);
+  });
+});
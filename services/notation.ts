@@ -0,0 +1,348 @@
+import { Articulation, MidiData, Note, Track } from "../types";
+import {
+  MeasureInfo,
+  TempoSegment,
+  beatsToSeconds,
+  buildMeasures,
+  buildTempoSegments,
+  secondsToBeats,
+} from "./tempoMap";
+import {
+  KeySignature,
+  Letter,
+  SpelledPitch,
+  detectKey,
+  keyAlterations,
+  keyFromMidiEvent,
+  spellPitch,
+  writtenSpelling,
+} from "./pitchSpelling";
+
+export type NoteValue = 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth';
+
+export interface ScoreEvent {
+  kind: 'note' | 'rest';
+  startBeat: number;
+  beats: number;
+  value: NoteValue;
+  dotted: boolean;
+  // MIDI pitches (more than one for chords), empty for rests
+  pitches: number[];
+  // Index into Score.notes of the source note, -1 for rests
+  noteIndex: number;
+  tieToNext: boolean;
+  tieFromPrev: boolean;
+  // Events sharing a beam id are drawn joined by a beam
+  beamGroup: number | null;
+  // True for a rest filling a whole measure of any meter
+  wholeMeasure?: boolean;
+  // Spelling the file gives each pitch (MusicXML), null to spell it in the key
+  written: (SpelledPitch | null)[];
+  // Spelling of each pitch in the measure's key
+  spelled: SpelledPitch[];
+  // Accidental to draw before each pitch (alter value), null for none
+  accidentals: (number | null)[];
+  // Accidentals shown only as a reminder, drawn in parentheses
+  courtesy: boolean[];
+  // Only on the first segment of a tied note
+  lyric?: string;
+  articulations: Articulation[];
+}
+
+export interface ScoreMeasure extends MeasureInfo {
+  events: ScoreEvent[];
+  showTimeSignature: boolean;
+  key: KeySignature;
+  showKeySignature: boolean;
+  // Fifths of the key being replaced, so its accidentals can be cancelled
+  previousFifths: number | null;
+}
+
+export interface Score {
+  key: KeySignature;
+  notes: Note[];
+  measures: ScoreMeasure[];
+  tempoSegments: TempoSegment[];
+  totalBeats: number;
+}
+
+// Sixteenth-note grid
+const GRID = 0.25;
+const EPSILON = 1e-6;
+
+const VALUES: { value: NoteValue; beats: number; dotted: boolean }[] = [
+  { value: 'whole', beats: 6, dotted: true },
+  { value: 'whole', beats: 4, dotted: false },
+  { value: 'half', beats: 3, dotted: true },
+  { value: 'half', beats: 2, dotted: false },
+  { value: 'quarter', beats: 1.5, dotted: true },
+  { value: 'quarter', beats: 1, dotted: false },
+  { value: 'eighth', beats: 0.75, dotted: true },
+  { value: 'eighth', beats: 0.5, dotted: false },
+  { value: 'sixteenth', beats: 0.25, dotted: false },
+];
+
+const quantize = (beat: number) => Math.round(beat / GRID) * GRID;
+
+// How far, in beats, a note may start from the grid before it counts as off it
+const OFF_GRID = 0.02;
+
+/**
+ * True when some note starts between sixteenths, as triplets do. The staff
+ * rounds those onsets to the grid, so their rhythm is only approximated.
+ */
+export const hasOffGridNotes = (midiData: MidiData, track: Track | undefined) => {
+  const segments = buildTempoSegments(midiData.header.tempos);
+  return (track?.notes ?? []).some(note => {
+    const beat = secondsToBeats(segments, note.time);
+    return Math.abs(beat - quantize(beat)) > OFF_GRID;
+  });
+};
+
+const isMultiple = (value: number, unit: number) =>
+  Math.abs(value / unit - Math.round(value / unit)) < EPSILON;
+
+/**
+ * Breaks a span inside one measure into writable note values. Values of a
+ * pulse or longer only start on a pulse, and off-pulse values stop at the
+ * next one, so syncopations are tied instead of hiding the pulse. The pulse
+ * is a quarter note, or a dotted quarter in compound meters, where longer
+ * values fill whole pulses.
+ */
+export const splitDuration = (offsetInMeasure: number, beats: number, pulse = 1) => {
+  const parts: { beats: number; value: NoteValue; dotted: boolean }[] = [];
+  let pos = offsetInMeasure;
+  let remaining = beats;
+  while (remaining > EPSILON) {
+    const fit = VALUES.find(v => {
+      if (v.beats > remaining + EPSILON) return false;
+      if (!isMultiple(pos, pulse)) return v.beats < pulse && pos + v.beats <= Math.ceil(pos / pulse) * pulse + EPSILON;
+      return pulse === 1 || v.beats < pulse || isMultiple(v.beats, pulse);
+    }) ?? VALUES[VALUES.length - 1];
+    parts.push(fit);
+    pos += fit.beats;
+    remaining -= fit.beats;
+  }
+  return parts;
+};
+
+interface QuantizedNote {
+  start: number;
+  end: number;
+  pitches: number[];
+  noteIndex: number;
+  // Every source note, more than one for chords
+  sources: Note[];
+}
+
+// Quantizes the track into a monophonic line; simultaneous onsets become chords
+const quantizeNotes = (notes: Note[], segments: TempoSegment[]): QuantizedNote[] => {
+  const result: QuantizedNote[] = [];
+  notes.forEach((note, noteIndex) => {
+    const start = quantize(secondsToBeats(segments, note.time));
+    let end = quantize(secondsToBeats(segments, note.time + note.duration));
+    if (end <= start) end = start + GRID;
+
+    const prev = result[result.length - 1];
+    if (prev && Math.abs(prev.start - start) < EPSILON) {
+      if (!prev.pitches.includes(note.midi)) prev.pitches.push(note.midi);
+      prev.sources.push(note);
+      prev.end = Math.max(prev.end, end);
+      return;
+    }
+    // Overlapping notes are cut where the next one starts
+    if (prev && prev.end > start) prev.end = start;
+    result.push({ start, end, pitches: [note.midi], noteIndex, sources: [note] });
+  });
+  result.forEach(n => n.pitches.sort((a, b) => a - b));
+  return result;
+};
+
+// Beat grouping used for beaming and for splitting notes: dotted quarters in compound meters
+const beamUnit = ([numerator, denominator]: [number, number]) =>
+  denominator === 8 && numerator % 3 === 0 && numerator > 3 ? 1.5 : 1;
+
+const assignBeams = (measure: ScoreMeasure, nextBeamId: { current: number }) => {
+  const unit = beamUnit(measure.timeSignature);
+  let group: ScoreEvent[] = [];
+  let groupSlot = -1;
+
+  const flush = () => {
+    if (group.length > 1) {
+      const id = nextBeamId.current++;
+      group.forEach(e => { e.beamGroup = id; });
+    }
+    group = [];
+  };
+
+  for (const event of measure.events) {
+    const slot = Math.floor((event.startBeat - measure.startBeat + EPSILON) / unit);
+    if (event.kind === 'rest' || event.beats >= 1) {
+      flush();
+      continue;
+    }
+    if (slot !== groupSlot) flush();
+    groupSlot = slot;
+    group.push(event);
+  }
+  flush();
+};
+
+/**
+ * Spells every note in its measure's key and decides which accidentals to
+ * draw. Accidentals last until the bar line; a note altered in the previous
+ * measure gets a courtesy accidental when it returns to the key's pitch.
+ */
+const assignAccidentals = (measures: ScoreMeasure[]) => {
+  let previouslyAltered = new Set<string>();
+
+  for (const measure of measures) {
+    const keyAlters = keyAlterations(measure.key.fifths);
+    const current = new Map<string, number>();
+    const altered = new Set<string>();
+    const courtesyUsed = new Set<string>();
+
+    for (const event of measure.events) {
+      if (event.kind !== 'note') continue;
+      event.spelled = event.pitches.map((p, i) => event.written[i] ?? spellPitch(p, measure.key));
+      event.accidentals = event.spelled.map(() => null);
+      event.courtesy = event.spelled.map(() => false);
+      // Tied continuations never repeat the accidental
+      if (event.tieFromPrev) continue;
+
+      event.spelled.forEach((pitch, i) => {
+        const slot = `${pitch.letter}${pitch.octave}`;
+        const inForce = current.get(slot) ?? keyAlters[pitch.letter as Letter];
+        if (pitch.alter !== inForce) {
+          event.accidentals[i] = pitch.alter;
+          current.set(slot, pitch.alter);
+          if (pitch.alter !== keyAlters[pitch.letter]) altered.add(slot);
+        } else if (!current.has(slot) && previouslyAltered.has(slot) && !courtesyUsed.has(slot)) {
+          event.accidentals[i] = pitch.alter;
+          event.courtesy[i] = true;
+        }
+        courtesyUsed.add(slot);
+      });
+    }
+    previouslyAltered = altered;
+  }
+};
+
+export const buildScore = (midiData: MidiData, track: Track | undefined): Score => {
+  const tempoSegments = buildTempoSegments(midiData.header.tempos);
+  const notes = [...(track?.notes ?? [])].sort((a, b) => a.time - b.time || a.midi - b.midi);
+  const quantized = quantizeNotes(notes, tempoSegments);
+
+  const measureInfo = buildMeasures(midiData, tempoSegments);
+  const keyChanges = (midiData.header.keySignatures ?? [])
+    .map(ks => ({ beat: secondsToBeats(tempoSegments, ks.time ?? 0), key: keyFromMidiEvent(ks) }))
+    .sort((a, b) => a.beat - b.beat);
+  // Without key signature events, guess the key from the notes themselves
+  const initialKey = detectKey(midiData, notes);
+  const keyAt = (beat: number) => {
+    let key = initialKey;
+    keyChanges.forEach(change => { if (change.beat <= beat + EPSILON) key = change.key; });
+    return key;
+  };
+
+  const measures: ScoreMeasure[] = measureInfo.map((m, i) => ({
+    ...m,
+    events: [],
+    showTimeSignature: i === 0 ||
+      m.timeSignature[0] !== measureInfo[i - 1].timeSignature[0] ||
+      m.timeSignature[1] !== measureInfo[i - 1].timeSignature[1],
+    key: keyAt(m.startBeat),
+    showKeySignature: false,
+    previousFifths: null,
+  }));
+  measures.forEach((m, i) => {
+    const prev = measures[i - 1];
+    m.showKeySignature = i === 0 || prev.key.fifths !== m.key.fifths;
+    m.previousFifths = i > 0 && m.showKeySignature ? prev.key.fifths : null;
+  });
+
+  // Extend the score if the last note rings past the song's nominal end
+  const lastEnd = quantized.length ? quantized[quantized.length - 1].end : 0;
+  while (lastEnd > measures[measures.length - 1].startBeat + measures[measures.length - 1].beats + EPSILON) {
+    const last = measures[measures.length - 1];
+    measures.push({
+      ...last,
+      index: last.index + 1,
+      startBeat: last.startBeat + last.beats,
+      startTime: beatsToSeconds(tempoSegments, last.startBeat + last.beats),
+      events: [],
+      showTimeSignature: false,
+      showKeySignature: false,
+      previousFifths: null,
+    });
+  }
+
+  const pushSpan = (
+    kind: 'note' | 'rest',
+    start: number,
+    end: number,
+    pitches: number[],
+    noteIndex: number,
+    sources: Note[],
+  ) => {
+    const written = pitches.map(p => writtenSpelling(p, sources.find(n => n.midi === p)?.spelling));
+    const lyric = sources.find(n => n.lyric)?.lyric;
+    const articulations = Array.from(new Set(sources.flatMap(n => n.articulations ?? [])));
+
+    for (const measure of measures) {
+      const mStart = measure.startBeat;
+      const mEnd = mStart + measure.beats;
+      if (mEnd <= start + EPSILON || mStart >= end - EPSILON) continue;
+      const segStart = Math.max(start, mStart);
+      const segEnd = Math.min(end, mEnd);
+
+      if (kind === 'rest' && Math.abs(segStart - mStart) < EPSILON && Math.abs(segEnd - mEnd) < EPSILON) {
+        measure.events.push({
+          kind, startBeat: segStart, beats: measure.beats, value: 'whole', dotted: false,
+          pitches: [], noteIndex: -1, tieToNext: false, tieFromPrev: false, beamGroup: null,
+          wholeMeasure: true, written: [], spelled: [], accidentals: [], courtesy: [], articulations: [],
+        });
+        continue;
+      }
+
+      let pos = segStart;
+      for (const part of splitDuration(segStart - mStart, segEnd - segStart, beamUnit(measure.timeSignature))) {
+        measure.events.push({
+          kind,
+          startBeat: pos,
+          beats: part.beats,
+          value: part.value,
+          dotted: part.dotted,
+          pitches,
+          noteIndex,
+          tieFromPrev: kind === 'note' && pos > start + EPSILON,
+          tieToNext: kind === 'note' && pos + part.beats < end - EPSILON,
+          beamGroup: null,
+          written,
+          spelled: [],
+          accidentals: [],
+          courtesy: [],
+          lyric: pos > start + EPSILON ? undefined : lyric,
+          articulations: pos > start + EPSILON ? [] : articulations,
+        });
+        pos += part.beats;
+      }
+    }
+  };
+
+  let cursor = 0;
+  for (const q of quantized) {
+    if (q.start > cursor + EPSILON) pushSpan('rest', cursor, q.start, [], -1, []);
+    pushSpan('note', q.start, q.end, q.pitches, q.noteIndex, q.sources);
+    cursor = Math.max(cursor, q.end);
+  }
+  const last = measures[measures.length - 1];
+  const scoreEnd = last.startBeat + last.beats;
+  if (scoreEnd > cursor + EPSILON) pushSpan('rest', cursor, scoreEnd, [], -1, []);
+
+  const nextBeamId = { current: 0 };
+  measures.forEach(m => assignBeams(m, nextBeamId));
+  assignAccidentals(measures);
+
+  return { key: initialKey, notes, measures, tempoSegments, totalBeats: scoreEnd };
+};
@@ -0,0 +1,48 @@
+import { PageSize } from "./pageLayout";
+import { buildPdf } from "./pdfWriter";
+import { svgToPdfContent } from "./svgToPdf";
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// Gap between pages when they are stacked into one SVG
+const PAGE_GAP = 24;
+
+export class PageExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageExportError';
+  }
+}
+
+// A standalone copy of an on-screen page, sized in points
+const pageClone = (svg: SVGSVGElement, size: PageSize) => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(size.width));
+  clone.setAttribute('height', String(size.height));
+  clone.removeAttribute('class');
+  return clone;
+};
+
+// Every page in one SVG document, one under the other
+export const pagesToSvg = (pages: SVGSVGElement[], size: PageSize): string => {
+  const height = pages.length * size.height + (pages.length - 1) * PAGE_GAP;
+  const root = document.createElementNS(SVG_NS, 'svg');
+  root.setAttribute('xmlns', SVG_NS);
+  root.setAttribute('width', String(size.width));
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `0 0 ${size.width} ${height}`);
+  pages.forEach((page, i) => {
+    const clone = pageClone(page, size);
+    clone.setAttribute('y', String(i * (size.height + PAGE_GAP)));
+    root.appendChild(clone);
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(root)}`;
+};
+
+export const pagesToPdf = (pages: SVGSVGElement[], size: PageSize, title: string): Uint8Array => {
+  if (!pages.length) throw new PageExportError('No hay páginas que exportar.');
+  return buildPdf(
+    pages.map(page => ({ width: size.width, height: size.height, content: svgToPdfContent(page, size.width, size.height) })),
+    title
+  );
+};
@@ -0,0 +1,74 @@
+// Page sizes in PostScript points (1/72 inch), the unit PDF pages use
+export type PageSizeId = 'a4' | 'letter';
+
+export interface PageSize {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const PAGE_SIZES: Record<PageSizeId, PageSize> = {
+  a4: { label: 'A4', width: 595, height: 842 },
+  letter: { label: 'Carta', width: 612, height: 792 },
+};
+
+// A run of measures [first, end) drawn on one staff
+export interface SystemRange {
+  first: number;
+  end: number;
+}
+
+export interface ScorePage {
+  number: number;
+  systems: SystemRange[];
+}
+
+/**
+ * Fills systems greedily from left to right. `widthOf` gives a measure's
+ * natural width, which is larger when it opens a system and has to repeat
+ * the key signature. A measure wider than the line still gets a system.
+ */
+export const breakIntoSystems = (
+  count: number,
+  available: number,
+  widthOf: (index: number, opensSystem: boolean) => number,
+): SystemRange[] => {
+  const systems: SystemRange[] = [];
+  let first = 0;
+  let used = 0;
+  for (let i = 0; i < count; i++) {
+    const width = widthOf(i, i === first);
+    if (i > first && used + width > available) {
+      systems.push({ first, end: i });
+      first = i;
+      used = widthOf(i, true);
+    } else {
+      used += width;
+    }
+  }
+  if (count > first) systems.push({ first, end: count });
+  return systems;
+};
+
+// Stacks systems onto pages; the first page loses room to the title
+export const paginate = (
+  systems: SystemRange[],
+  systemHeight: number,
+  pageHeight: number,
+  firstPageHeight: number,
+): ScorePage[] => {
+  const pages: ScorePage[] = [];
+  let current: SystemRange[] = [];
+  let room = firstPageHeight;
+  for (const system of systems) {
+    if (current.length > 0 && room < systemHeight) {
+      pages.push({ number: pages.length + 1, systems: current });
+      current = [];
+      room = pageHeight;
+    }
+    current.push(system);
+    room -= systemHeight;
+  }
+  pages.push({ number: pages.length + 1, systems: current });
+  return pages;
+};
@@ -0,0 +1,82 @@
+// Just enough of PDF 1.4 to draw vector pages with the standard fonts
+
+export interface PdfPage {
+  // Drawing operators in points, origin at the bottom left of the page
+  content: string;
+  // Page size in points
+  width: number;
+  height: number;
+}
+
+// Every PDF reader has these built in, so nothing needs embedding
+export type PdfFont = 'Helvetica' | 'Helvetica-Bold' | 'Times-Roman' | 'Times-Bold';
+
+const FONTS: PdfFont[] = ['Helvetica', 'Helvetica-Bold', 'Times-Roman', 'Times-Bold'];
+
+// Name a content stream uses to select the font, e.g. "/F1"
+export const pdfFontResource = (font: PdfFont) => `/F${FONTS.indexOf(font) + 1}`;
+
+const encoder = new TextEncoder();
+
+// PDF text strings: UTF-16BE with a byte order mark, written in hex
+const pdfString = (text: string) => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex.toUpperCase()}>`;
+};
+
+export const buildPdf = (pages: PdfPage[], title: string): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  // Objects are numbered from 1 in the order they are written
+  const object = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // 1: catalog, 2: page tree, 3: info, then the fonts, then page and contents per page
+  const firstFont = 4;
+  const pageRef = (i: number) => firstFont + FONTS.length + i * 2;
+  const fontResources = FONTS.map((_, i) => `/F${i + 1} ${firstFont + i} 0 R`).join(' ');
+  write('%PDF-1.4\n%âãÏÓ\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageRef(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(`<< /Title ${pdfString(title)} /Producer (FlautaMaster) >>`);
+  FONTS.forEach(font => object(`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`));
+
+  pages.forEach((page, i) => {
+    const ref = pageRef(i);
+    object(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      `/Resources << /Font << ${fontResources} >> >> /Contents ${ref + 1} 0 R >>`
+    );
+    const contents = encoder.encode(page.content);
+    object(`<< /Length ${contents.length} >>`, contents);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { analyzeSignal, centsOff, decodeWav } from './pitchDetection';
+
+// Quarter-second, 22.05 kHz, 16-bit mono recordings. The tones have a few
+// weak harmonics, like a recorder, so the detector can't lock onto them.
+const fixture = (name: string) => {
+  const file = readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url));
+  return decodeWav(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+};
+
+const voicedFrames = (name: string) => {
+  const { samples, sampleRate } = fixture(name);
+  return analyzeSignal(samples, sampleRate).filter(frame => frame.pitch !== null);
+};
+
+describe('pitch detection on WAV fixtures', () => {
+  it('decodes the header and samples', () => {
+    const { samples, sampleRate } = fixture('a4.wav');
+    expect(sampleRate).toBe(22050);
+    expect(samples.length).toBe(5513);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(1);
+  });
+
+  it('finds a steady A4 within 5 cents', () => {
+    const frames = voicedFrames('a4.wav');
+    expect(frames.length).toBeGreaterThan(0);
+    frames.forEach(frame => {
+      expect(Math.abs(centsOff(frame.pitch!.midi, 69))).toBeLessThan(5);
+      expect(frame.pitch!.frequency).toBeCloseTo(440, 0);
+    });
+  });
+
+  it('measures a note 20 cents flat', () => {
+    const frames = voicedFrames('a4-20-cents-flat.wav');
+    expect(frames.length).toBeGreaterThan(0);
+    frames.forEach(frame => {
+      expect(centsOff(frame.pitch!.midi, 69)).toBeGreaterThan(-25);
+      expect(centsOff(frame.pitch!.midi, 69)).toBeLessThan(-15);
+    });
+  });
+
+  it('rejects silence', () => {
+    const { samples, sampleRate } = fixture('silence.wav');
+    const frames = analyzeSignal(samples, sampleRate);
+    expect(frames.length).toBeGreaterThan(0);
+    expect(frames.every(frame => frame.pitch === null && frame.rms === 0)).toBe(true);
+  });
+
+  it('rejects white noise', () => {
+    expect(voicedFrames('noise.wav')).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+// Pure pitch detection (YIN). No Web Audio here so it can run on recorded
+// buffers, e.g. WAV fixtures decoded with decodeWav.
+
+export interface DetectedPitch {
+  frequency: number;
+  // Fractional MIDI number, e.g. 69.1 is A4 ten cents sharp
+  midi: number;
+  // 0..1, how periodic the frame is
+  clarity: number;
+}
+
+export interface PitchFrame {
+  time: number;
+  rms: number;
+  pitch: DetectedPitch | null;
+}
+
+export interface PitchDetectorOptions {
+  threshold?: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+  // Frames quieter than this are treated as silence
+  silenceRms?: number;
+}
+
+// Covers every recorder from the bass (F3) to the top of the soprano (D7) and a bit more
+const DEFAULTS: Required<PitchDetectorOptions> = {
+  threshold: 0.15,
+  minFrequency: 150,
+  maxFrequency: 2800,
+  silenceRms: 0.01,
+};
+
+export const frequencyToMidi = (frequency: number) => 69 + 12 * Math.log2(frequency / 440);
+
+export const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+// Signed distance in cents from detected pitch to the expected MIDI note
+export const centsOff = (detectedMidi: number, expectedMidi: number) => (detectedMidi - expectedMidi) * 100;
+
+export const rootMeanSquare = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (samples.length || 1));
+};
+
+/**
+ * YIN fundamental frequency estimation (de Cheveigné & Kawahara, 2002) on a
+ * single frame. Returns null for silence or unpitched frames.
+ */
+export const detectPitch = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: PitchDetectorOptions = {},
+): DetectedPitch | null => {
+  const { threshold, minFrequency, maxFrequency, silenceRms } = { ...DEFAULTS, ...options };
+  if (rootMeanSquare(samples) < silenceRms) return null;
+
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const tauMax = Math.min(Math.floor(sampleRate / minFrequency), Math.floor(samples.length / 2));
+  if (tauMax <= tauMin) return null;
+  const windowSize = samples.length - tauMax;
+
+  // Cumulative mean normalized difference function
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let diff = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const delta = samples[j] - samples[j + tau];
+      diff += delta * delta;
+    }
+    runningSum += diff;
+    cmnd[tau] = runningSum === 0 ? 1 : (diff * tau) / runningSum;
+  }
+
+  // First dip below the threshold, then slide down to its local minimum
+  let tau = -1;
+  for (let t = tauMin; t <= tauMax; t++) {
+    if (cmnd[t] < threshold) {
+      while (t + 1 <= tauMax && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau < 0) return null;
+
+  // Parabolic interpolation for sub-sample accuracy
+  let betterTau = tau;
+  if (tau > 1 && tau < tauMax) {
+    const s0 = cmnd[tau - 1];
+    const s1 = cmnd[tau];
+    const s2 = cmnd[tau + 1];
+    const denominator = 2 * (2 * s1 - s2 - s0);
+    if (denominator !== 0) betterTau = tau + (s2 - s0) / denominator;
+  }
+
+  const frequency = sampleRate / betterTau;
+  if (frequency < minFrequency || frequency > maxFrequency) return null;
+  return { frequency, midi: frequencyToMidi(frequency), clarity: 1 - cmnd[tau] };
+};
+
+/**
+ * Runs the detector over a whole recording, one frame every `hopSize`
+ * samples. Frame times refer to the centre of each frame.
+ */
+export const analyzeSignal = (
+  samples: Float32Array,
+  sampleRate: number,
+  frameSize = 2048,
+  hopSize = 512,
+  options: PitchDetectorOptions = {},
+): PitchFrame[] => {
+  const frames: PitchFrame[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    const frame = samples.subarray(start, start + frameSize);
+    frames.push({
+      time: (start + frameSize / 2) / sampleRate,
+      rms: rootMeanSquare(frame),
+      pitch: detectPitch(frame, sampleRate, options),
+    });
+  }
+  return frames;
+};
+
+export class WavDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WavDecodeError";
+  }
+}
+
+/**
+ * Decodes a PCM (8/16/24/32-bit) or 32-bit float WAV file into mono samples,
+ * averaging the channels.
+ */
+export const decodeWav = (buffer: ArrayBuffer): { samples: Float32Array; sampleRate: number } => {
+  const view = new DataView(buffer);
+  const tag = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+  if (buffer.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new WavDecodeError("Not a RIFF/WAVE file");
+  }
+
+  let format = 0, subFormat = 0, channels = 0, sampleRate = 0, bitsPerSample = 0;
+  let dataOffset = -1, dataLength = 0;
+  for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      format = view.getUint16(offset + 8, true);
+      channels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+      bitsPerSample = view.getUint16(offset + 22, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+      if (format === 0xfffe && size >= 40) subFormat = view.getUint16(offset + 32, true);
+    } else if (id === 'data') {
+      dataOffset = offset + 8;
+      dataLength = Math.min(size, buffer.byteLength - dataOffset);
+    }
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+
+  const effectiveFormat = format === 0xfffe ? subFormat : format;
+  const isFloat = effectiveFormat === 3;
+  if (dataOffset < 0 || !channels || !sampleRate || (effectiveFormat !== 1 && effectiveFormat !== 3)) {
+    throw new WavDecodeError("Unsupported WAV format");
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frameCount);
+
+  const read = (offset: number) => {
+    if (isFloat) return view.getFloat32(offset, true);
+    switch (bitsPerSample) {
+      case 8: return (view.getUint8(offset) - 128) / 128;
+      case 16: return view.getInt16(offset, true) / 32768;
+      case 24: {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        return value / 8388608;
+      }
+      case 32: return view.getInt32(offset, true) / 2147483648;
+      default: throw new WavDecodeError(`Unsupported bit depth: ${bitsPerSample}`);
+    }
+  };
+
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += read(dataOffset + (i * channels + c) * bytesPerSample);
+    }
+    samples[i] = sum / channels;
+  }
+  return { samples, sampleRate };
+};
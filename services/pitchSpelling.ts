@@ -0,0 +1,188 @@
+import { KeySignatureEvent, MidiData, Note } from "../types";
+
+// Keys are measured in fifths: -7 (Cb / 7 flats) ... 0 (C) ... 7 (C# / 7 sharps)
+export interface KeySignature {
+  fifths: number;
+  mode: 'major' | 'minor';
+}
+
+export type Letter = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
+
+export interface SpelledPitch {
+  letter: Letter;
+  // -2 double flat ... 2 double sharp
+  alter: number;
+  octave: number;
+  // Diatonic position: octave * 7 + letter index (C4 = 28)
+  step: number;
+}
+
+const LETTERS: Letter[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASS = [0, 2, 4, 5, 7, 9, 11];
+
+// Line of fifths starting at F: F C G D A E B
+const FIFTHS_ORDER: Letter[] = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+
+const MAJOR_KEY_NAMES = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+
+export const keyFromMidiEvent = (event: KeySignatureEvent): KeySignature => {
+  const index = MAJOR_KEY_NAMES.indexOf(event.key);
+  return {
+    fifths: index >= 0 ? index - 7 : 0,
+    mode: event.scale === 'minor' ? 'minor' : 'major',
+  };
+};
+
+export const keyToMidiEvent = (key: KeySignature, time = 0): KeySignatureEvent => ({
+  key: MAJOR_KEY_NAMES[key.fifths + 7],
+  scale: key.mode,
+  time,
+});
+
+// Krumhansl-Kessler key profiles, indexed from the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const correlation = (a: number[], b: number[]) => {
+  const meanA = a.reduce((s, v) => s + v, 0) / a.length;
+  const meanB = b.reduce((s, v) => s + v, 0) / b.length;
+  let num = 0, denA = 0, denB = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - meanA) * (b[i] - meanB);
+    denA += (a[i] - meanA) ** 2;
+    denB += (b[i] - meanB) ** 2;
+  }
+  return denA && denB ? num / Math.sqrt(denA * denB) : 0;
+};
+
+// Fifths of the major key whose tonic has this pitch class (prefers fewer accidentals)
+const MAJOR_FIFTHS_BY_TONIC = [0, -5, 2, -3, 4, -1, 6, 1, -4, 3, -2, 5];
+
+/**
+ * Guesses the key from the pitch classes weighted by duration
+ * (Krumhansl-Schmuckler). Defaults to C major when there are no notes.
+ */
+export const estimateKey = (notes: Note[]): KeySignature => {
+  const histogram = new Array(12).fill(0);
+  notes.forEach(n => { histogram[((n.midi % 12) + 12) % 12] += n.duration || 0.1; });
+  if (histogram.every(v => v === 0)) return { fifths: 0, mode: 'major' };
+
+  let best: KeySignature = { fifths: 0, mode: 'major' };
+  let bestScore = -Infinity;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = histogram.map((_, i) => histogram[(i + tonic) % 12]);
+    const major = correlation(rotated, MAJOR_PROFILE);
+    const minor = correlation(rotated, MINOR_PROFILE);
+    if (major > bestScore) {
+      bestScore = major;
+      best = { fifths: MAJOR_FIFTHS_BY_TONIC[tonic], mode: 'major' };
+    }
+    if (minor > bestScore) {
+      bestScore = minor;
+      // A minor shares its signature with C major, three semitones up
+      best = { fifths: MAJOR_FIFTHS_BY_TONIC[(tonic + 3) % 12], mode: 'minor' };
+    }
+  }
+  return best;
+};
+
+// Uses the file's key signature when it has one, otherwise estimates it
+export const detectKey = (midiData: MidiData, notes: Note[]): KeySignature => {
+  const first = [...(midiData.header.keySignatures ?? [])].sort((a, b) => (a.time ?? 0) - (b.time ?? 0))[0];
+  return first ? keyFromMidiEvent(first) : estimateKey(notes);
+};
+
+const WHITE_KEYS = [0, 2, 4, 5, 7, 9, 11];
+
+/**
+ * Spells a MIDI pitch in a key by picking, on the line of fifths, the
+ * spelling closest to the key's diatonic notes. Spellings such as B# or Fb
+ * and double accidentals are only used when the key calls for them.
+ */
+export const spellPitch = (midi: number, key: KeySignature): SpelledPitch => {
+  const pitchClass = ((midi % 12) + 12) % 12;
+  // Centre of the key's seven diatonic notes on the line of fifths
+  const centre = key.fifths + 2;
+
+  let bestPosition = 0;
+  let bestDistance = Infinity;
+  for (let position = -15; position <= 19; position++) {
+    if ((((position * 7) % 12) + 12) % 12 !== pitchClass) continue;
+    const alter = Math.floor((position + 1) / 7);
+    const diatonic = position >= key.fifths - 1 && position <= key.fifths + 5;
+    const awkward = Math.abs(alter) > 1 || (alter !== 0 && WHITE_KEYS.includes(pitchClass));
+    const distance = Math.abs(position - centre) + (awkward && !diatonic ? 4 : 0);
+    // On ties, sharp keys spell with sharps and flat keys with flats
+    const better = distance < bestDistance ||
+      (distance === bestDistance && (key.fifths >= 0 ? position > bestPosition : position < bestPosition));
+    if (better) {
+      bestDistance = distance;
+      bestPosition = position;
+    }
+  }
+
+  const letter = FIFTHS_ORDER[(((bestPosition + 1) % 7) + 7) % 7];
+  const alter = Math.floor((bestPosition + 1) / 7);
+  const letterIndex = LETTERS.indexOf(letter);
+  const octave = Math.floor((midi - alter - LETTER_PITCH_CLASS[letterIndex]) / 12) - 1;
+  return { letter, alter, octave, step: octave * 7 + letterIndex };
+};
+
+/**
+ * The spelling a score gives a note, as a SpelledPitch. Returns null when it
+ * doesn't name the note's pitch any more, e.g. after transposing.
+ */
+export const writtenSpelling = (midi: number, spelling: { step: string; alter: number } | undefined): SpelledPitch | null => {
+  const letterIndex = LETTERS.indexOf(spelling?.step as Letter);
+  if (!spelling || letterIndex < 0) return null;
+  const octave = (midi - spelling.alter - LETTER_PITCH_CLASS[letterIndex]) / 12 - 1;
+  if (!Number.isInteger(octave)) return null;
+  return { letter: LETTERS[letterIndex], alter: spelling.alter, octave, step: octave * 7 + letterIndex };
+};
+
+// Alteration the key signature gives to each letter
+export const keyAlterations = (fifths: number): Record<Letter, number> => {
+  const alters = { C: 0, D: 0, E: 0, F: 0, G: 0, A: 0, B: 0 } as Record<Letter, number>;
+  if (fifths > 0) FIFTHS_ORDER.slice(0, fifths).forEach(l => { alters[l] = 1; });
+  if (fifths < 0) [...FIFTHS_ORDER].reverse().slice(0, -fifths).forEach(l => { alters[l] = -1; });
+  return alters;
+};
+
+// Treble-clef diatonic steps where key signature accidentals are drawn
+const SHARP_STEPS = [38, 35, 39, 36, 33, 37, 34]; // F5 C5 G5 D5 A4 E5 B4
+const FLAT_STEPS = [34, 37, 33, 36, 32, 35, 31]; // B4 E5 A4 D5 G4 C5 F4
+
+export const keySignatureSteps = (fifths: number) =>
+  fifths >= 0 ? SHARP_STEPS.slice(0, fifths) : FLAT_STEPS.slice(0, -fifths);
+
+export const ACCIDENTAL_SYMBOLS: Record<number, string> = {
+  [-2]: '𝄫',
+  [-1]: '♭',
+  0: '♮',
+  1: '♯',
+  2: '𝄪',
+};
+
+export const spelledName = (pitch: SpelledPitch, withOctave = false) => {
+  const symbol = pitch.alter === 0 ? '' : pitch.alter > 0 ? '#'.repeat(pitch.alter) : 'b'.repeat(-pitch.alter);
+  return `${pitch.letter}${symbol}${withOctave ? pitch.octave : ''}`;
+};
+
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Note name as @tonejs/midi writes it, e.g. 61 -> "C#4"
+export const midiToNoteName = (midi: number) =>
+  `${SHARP_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+
+const SOLFEGE: Record<Letter, string> = { C: 'Do', D: 'Re', E: 'Mi', F: 'Fa', G: 'Sol', A: 'La', B: 'Si' };
+
+// Human-readable key in Spanish, e.g. "Fa mayor" or "Mi menor"
+export const keyDisplayName = (key: KeySignature) => {
+  const majorTonicPosition = key.fifths;
+  // The minor tonic sits three fifths to the right of its relative major
+  const position = key.mode === 'minor' ? majorTonicPosition + 3 : majorTonicPosition;
+  const letter = FIFTHS_ORDER[(((position + 1) % 7) + 7) % 7];
+  const alter = Math.floor((position + 1) / 7);
+  const accidental = alter > 0 ? ' sostenido' : alter < 0 ? ' bemol' : '';
+  return `${SOLFEGE[letter]}${accidental} ${key.mode === 'minor' ? 'menor' : 'mayor'}`;
+};
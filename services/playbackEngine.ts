@@ -0,0 +1,230 @@
+import * as Tone from 'tone';
+import { MidiData, Note } from "../types";
+import {
+  MeasureInfo,
+  TempoSegment,
+  buildMeasures,
+  buildTempoSegments,
+  measureAtBeat,
+  secondsToBeats,
+} from "./tempoMap";
+
+// The transport runs one quarter note per song second. Note times from the
+// MIDI file already follow its tempo map, so everything is scheduled in ticks
+// of song time and the speed control only has to scale the bpm.
+const SECONDS_BPM = 60;
+const PPQ = 960;
+
+export interface PlaybackPosition {
+  // Song seconds at the written tempo, independent of the playback speed
+  time: number;
+  // Quarter-note beats through the tempo map
+  beat: number;
+  measure: number;
+}
+
+export interface PlaybackPart {
+  mute: boolean;
+  dispose: () => void;
+}
+
+// Called for every note of a part; duration is in real seconds at the current speed
+export type NoteTrigger = (time: number, note: Note, duration: number) => void;
+
+export interface PlaybackEngine {
+  load: (data: MidiData) => void;
+  addPart: (notes: Note[], trigger: NoteTrigger) => PlaybackPart;
+  // Any other timed events in song seconds, e.g. metronome clicks
+  addEvents: <T extends { time: number }>(events: T[], callback: (time: number, event: T) => void) => PlaybackPart;
+  // Runs the callback (with its audio time) when playback reaches a song time
+  schedule: (callback: (time: number) => void, seconds: number) => void;
+  clearScheduled: () => void;
+  play: (time?: number) => void;
+  pause: (time?: number) => void;
+  stop: () => void;
+  seek: (seconds: number) => void;
+  seekToMeasure: (index: number) => void;
+  setRate: (rate: number) => void;
+  setLoop: (range: { start: number; end: number } | null) => void;
+  // Seconds to wait at each loop restart, e.g. for a count-in scheduled from `time`
+  setLoopLeadIn: (leadIn: ((time: number) => number) | null) => void;
+  getPosition: () => PlaybackPosition;
+  isPlaying: () => boolean;
+  onPosition: (listener: (position: PlaybackPosition) => void) => () => void;
+  onLoop: (listener: (time: number) => void) => () => void;
+  dispose: () => void;
+}
+
+export const createPlaybackEngine = (): PlaybackEngine => {
+  const transport = Tone.getTransport();
+  transport.PPQ = PPQ;
+  transport.bpm.value = SECONDS_BPM;
+
+  let rate = 1;
+  let duration = 0;
+  let segments: TempoSegment[] = buildTempoSegments([]);
+  let measures: MeasureInfo[] = [];
+  const scheduled: number[] = [];
+  const positionListeners = new Set<(position: PlaybackPosition) => void>();
+  const loopListeners = new Set<(time: number) => void>();
+  let frame: number | null = null;
+  let loop: { start: number; end: number } | null = null;
+  let loopEvent: number | null = null;
+  let loopLeadIn: ((time: number) => number) | null = null;
+
+  const toTicks = (seconds: number) => `${Math.round(seconds * PPQ)}i`;
+
+  const getPosition = (): PlaybackPosition => {
+    const time = transport.ticks / PPQ;
+    const beat = secondsToBeats(segments, time);
+    return { time, beat, measure: measures.length ? measureAtBeat(measures, beat).index : 0 };
+  };
+
+  const emitPosition = () => {
+    const position = getPosition();
+    positionListeners.forEach(listener => listener(position));
+  };
+
+  // Position events follow the display refresh while the transport runs
+  const startFrames = () => {
+    if (frame !== null) return;
+    const step = () => {
+      emitPosition();
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+  };
+
+  const stopFrames = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+    emitPosition();
+  };
+
+  const emitLoop = (time: number) => loopListeners.forEach(listener => listener(time));
+
+  transport.on('start', startFrames);
+  transport.on('pause', stopFrames);
+  transport.on('stop', stopFrames);
+  transport.on('loop', emitLoop);
+
+  // Tone's own loop is seamless; with a lead-in the engine loops by hand,
+  // pausing just before the loop end and restarting from its start
+  const applyLoop = () => {
+    if (loopEvent !== null) transport.clear(loopEvent);
+    loopEvent = null;
+    transport.loop = false;
+    if (!loop) return;
+
+    if (!loopLeadIn) {
+      transport.setLoopPoints(toTicks(loop.start), toTicks(loop.end));
+      transport.loop = true;
+      return;
+    }
+    const { start, end } = loop;
+    const leadIn = loopLeadIn;
+    loopEvent = transport.schedule((time) => {
+      transport.pause(time);
+      emitLoop(time);
+      transport.start(time + leadIn(time), toTicks(start));
+    }, `${Math.round(end * PPQ) - 1}i`);
+  };
+
+  const clearScheduled = () => {
+    scheduled.splice(0).forEach(id => transport.clear(id));
+  };
+
+  const stop = () => {
+    transport.stop();
+    emitPosition();
+  };
+
+  const addEvents = <T extends { time: number }>(events: T[], callback: (time: number, event: T) => void) => {
+    const part = new Tone.Part<{ time: string; event: T }>(
+      (time, value) => callback(time, value.event),
+      events.map(event => ({ time: toTicks(event.time), event }))
+    );
+    part.start(0);
+    return part;
+  };
+
+  const seek = (seconds: number) => {
+    transport.ticks = Math.round(Math.min(Math.max(0, seconds), duration) * PPQ);
+    emitPosition();
+  };
+
+  return {
+    load: (data) => {
+      stop();
+      clearScheduled();
+      duration = data.duration;
+      segments = buildTempoSegments(data.header.tempos);
+      measures = buildMeasures(data, segments);
+      emitPosition();
+    },
+
+    addPart: (notes, trigger) => addEvents(notes, (time, note) => trigger(time, note, note.duration / rate)),
+    addEvents,
+
+    schedule: (callback, seconds) => {
+      scheduled.push(transport.schedule(callback, toTicks(seconds)));
+    },
+
+    clearScheduled,
+    play: (time) => transport.start(time),
+    pause: (time) => transport.pause(time),
+    stop,
+    seek,
+
+    seekToMeasure: (index) => {
+      const measure = measures[Math.min(Math.max(0, index), measures.length - 1)];
+      if (measure) seek(measure.startTime);
+    },
+
+    setRate: (value) => {
+      rate = value;
+      transport.bpm.value = SECONDS_BPM * value;
+    },
+
+    setLoop: (range) => {
+      loop = range;
+      applyLoop();
+    },
+
+    setLoopLeadIn: (leadIn) => {
+      loopLeadIn = leadIn;
+      applyLoop();
+    },
+
+    getPosition,
+    isPlaying: () => transport.state === 'started',
+
+    onPosition: (listener) => {
+      positionListeners.add(listener);
+      return () => {
+        positionListeners.delete(listener);
+      };
+    },
+
+    onLoop: (listener) => {
+      loopListeners.add(listener);
+      return () => {
+        loopListeners.delete(listener);
+      };
+    },
+
+    dispose: () => {
+      stop();
+      clearScheduled();
+      stopFrames();
+      loop = null;
+      applyLoop();
+      positionListeners.clear();
+      loopListeners.clear();
+      transport.off('start', startFrames);
+      transport.off('pause', stopFrames);
+      transport.off('stop', stopFrames);
+      transport.off('loop', emitLoop);
+    },
+  };
+};
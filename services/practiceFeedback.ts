@@ -0,0 +1,247 @@
+import { NoteResult } from "./practiceScoring";
+import { MeasureInfo, TempoSegment, measureAtBeat, secondsToBeats } from "./tempoMap";
+import { LoopRegion, describeLoop } from "./loopRegion";
+import { midiToNoteName } from "./pitchSpelling";
+import { RecorderProfile } from "./recorders";
+import { ResponseSchema } from "./responseSchema";
+import { TUTOR_SYSTEM, askTutor } from "./tutorService";
+
+export interface MeasureDigest {
+  // 0-based
+  measure: number;
+  total: number;
+  wrong: number;
+  late: number;
+  // Median intonation of the notes that were found, in cents
+  cents: number | null;
+  // Mean onset error in seconds, positive = late
+  onset: number | null;
+}
+
+/** What the student actually did in one practice run, small enough for a prompt. */
+export interface PracticeDigest {
+  songName: string;
+  recorderLabel: string;
+  rate: number;
+  loop: LoopRegion | null;
+  accuracy: number;
+  measureCount: number;
+  measures: MeasureDigest[];
+  // Expected pitch played as another one, most frequent first
+  wrongPitches: { expected: number; heard: number; count: number }[];
+  // Runs of silence where the student stopped playing, in measures
+  stops: LoopRegion[];
+  // How the intonation moved from the first to the last third of the run
+  drift: number | null;
+}
+
+export interface NextStep {
+  text: string;
+  loop: LoopRegion;
+  rate: number;
+}
+
+export interface PracticeFeedback {
+  feedback: string[];
+  nextStep: NextStep;
+}
+
+// Consecutive notes with nothing heard that count as having stopped
+const STOP_NOTES = 3;
+const MIN_RATE = 0.5;
+const MAX_RATE = 1;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export const digestPractice = (
+  results: NoteResult[],
+  measures: MeasureInfo[],
+  segments: TempoSegment[],
+  context: { songName: string; recorder: RecorderProfile; rate: number; loop: LoopRegion | null },
+): PracticeDigest => {
+  const measureOf = (result: NoteResult) => measureAtBeat(measures, secondsToBeats(segments, result.note.time)).index;
+
+  const byMeasure = new Map<number, NoteResult[]>();
+  results.forEach(r => byMeasure.set(measureOf(r), [...(byMeasure.get(measureOf(r)) ?? []), r]));
+  const measureDigests = Array.from(byMeasure.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([measure, rs]) => ({
+      measure,
+      total: rs.length,
+      wrong: rs.filter(r => r.status === 'wrong').length,
+      late: rs.filter(r => r.status === 'late').length,
+      cents: median(rs.filter(r => r.centsError !== null).map(r => r.centsError!)),
+      onset: mean(rs.filter(r => r.onsetError !== null).map(r => r.onsetError!)),
+    }));
+
+  const swaps = new Map<string, { expected: number; heard: number; count: number }>();
+  results.forEach(r => {
+    if (r.status !== 'wrong' || r.detectedMidi === null) return;
+    // Detected pitches are sounding pitches; compare in written terms
+    const heard = r.detectedMidi - context.recorder.soundingOffset;
+    if (heard === r.note.midi) return;
+    const key = `${r.note.midi}:${heard}`;
+    const swap = swaps.get(key) ?? { expected: r.note.midi, heard, count: 0 };
+    swap.count++;
+    swaps.set(key, swap);
+  });
+
+  const stops: LoopRegion[] = [];
+  let run: NoteResult[] = [];
+  const closeRun = () => {
+    if (run.length >= STOP_NOTES) stops.push({ startMeasure: measureOf(run[0]), endMeasure: measureOf(run[run.length - 1]) });
+    run = [];
+  };
+  results.forEach(r => {
+    if (r.status === 'wrong' && r.detectedMidi === null) run.push(r);
+    else closeRun();
+  });
+  closeRun();
+
+  const tuned = results.filter(r => r.centsError !== null);
+  const third = Math.floor(tuned.length / 3);
+  const first = mean(tuned.slice(0, third).map(r => r.centsError!));
+  const last = mean(tuned.slice(-third).map(r => r.centsError!));
+
+  return {
+    songName: context.songName,
+    recorderLabel: context.recorder.label,
+    rate: context.rate,
+    loop: context.loop,
+    accuracy: results.length ? results.filter(r => r.status === 'correct').length / results.length : 0,
+    measureCount: measures.length,
+    measures: measureDigests,
+    wrongPitches: Array.from(swaps.values()).sort((a, b) => b.count - a.count).slice(0, 5),
+    stops,
+    drift: third >= 2 && first !== null && last !== null ? last - first : null,
+  };
+};
+
+// "en el compás 3" / "en los compases 3–4"
+const inMeasures = (loop: LoopRegion) =>
+  `${loop.startMeasure === loop.endMeasure ? 'en el' : 'en los'} ${describeLoop(loop).toLowerCase()}`;
+
+const measureLabel = (measure: MeasureDigest) => {
+  const parts = [`${measure.total - measure.wrong - measure.late}/${measure.total} bien`];
+  if (measure.wrong) parts.push(`${measure.wrong} falladas`);
+  if (measure.late) parts.push(`${measure.late} tarde o desafinadas`);
+  if (measure.cents !== null && Math.abs(measure.cents) >= 15) parts.push(`${Math.round(measure.cents)} cents`);
+  if (measure.onset !== null && Math.abs(measure.onset) >= 0.08) parts.push(`entradas ${Math.round(measure.onset * 1000)} ms`);
+  return `Compás ${measure.measure + 1}: ${parts.join(', ')}`;
+};
+
+// The results as plain lines for the AI prompt; clean measures are left out
+export const describePractice = (digest: PracticeDigest) => [
+  `Canción: ${digest.songName}; flauta ${digest.recorderLabel}`,
+  `Velocidad: ${Math.round(digest.rate * 100)}%${digest.loop ? `; repitiendo ${describeLoop(digest.loop).toLowerCase()}` : ''}`,
+  `Acierto total: ${Math.round(digest.accuracy * 100)}% de ${digest.measures.reduce((sum, m) => sum + m.total, 0)} notas`,
+  ...digest.measures.filter(m => m.wrong || m.late).map(measureLabel),
+  ...digest.wrongPitches.map(w => `Tocó ${midiToNoteName(w.heard)} en vez de ${midiToNoteName(w.expected)} (${w.count} ${w.count === 1 ? 'vez' : 'veces'})`),
+  ...digest.stops.map(s => `Se paró ${inMeasures(s)}`),
+  ...(digest.drift !== null && Math.abs(digest.drift) >= 10
+    ? [`La afinación se fue ${digest.drift > 0 ? 'subiendo' : 'bajando'} ${Math.abs(Math.round(digest.drift))} cents a lo largo de la práctica`]
+    : []),
+].map(line => `- ${line}`).join('\n');
+
+// The stretch of up to two measures with the most mistakes
+const hardestStretch = (digest: PracticeDigest): LoopRegion | null => {
+  const errors = (m: MeasureDigest | undefined) => (m ? m.wrong * 2 + m.late : 0);
+  let best: LoopRegion | null = null;
+  let bestErrors = 0;
+  for (const m of digest.measures) {
+    const next = digest.measures.find(n => n.measure === m.measure + 1);
+    const total = errors(m) + errors(next);
+    if (total > bestErrors) {
+      bestErrors = total;
+      best = { startMeasure: m.measure, endMeasure: next && errors(next) > 0 ? next.measure : m.measure };
+    }
+  }
+  return best;
+};
+
+const suggestedRate = (digest: PracticeDigest) => {
+  const rate = digest.accuracy < 0.5 ? digest.rate * 0.7 : digest.accuracy < 0.8 ? digest.rate * 0.85 : digest.rate + 0.1;
+  return Math.min(MAX_RATE, Math.max(MIN_RATE, Math.round(rate * 20) / 20));
+};
+
+const describeNextStep = (loop: LoopRegion, rate: number) =>
+  `Repite ${describeLoop(loop).toLowerCase()} al ${Math.round(rate * 100)}%`;
+
+// The offline answer, built from the same digest
+export const localPracticeFeedback = (digest: PracticeDigest): PracticeFeedback => {
+  const feedback: string[] = [];
+  const swap = digest.wrongPitches[0];
+  if (swap) feedback.push(`A veces tocas ${midiToNoteName(swap.heard)} en lugar de ${midiToNoteName(swap.expected)}: mira bien la digitación de esa nota.`);
+  if (digest.stops.length) feedback.push(`Te paraste ${inMeasures(digest.stops[0])}: no pasa nada, sigue tocando aunque falles una nota.`);
+  const late = digest.measures.filter(m => m.onset !== null && m.onset > 0.1);
+  if (late.length) feedback.push(`Entras un poco tarde ${inMeasures({ startMeasure: late[0].measure, endMeasure: late[0].measure })}: prepara los dedos antes.`);
+  if (digest.drift !== null && Math.abs(digest.drift) >= 10) {
+    feedback.push(digest.drift < 0
+      ? 'La afinación baja al final: mantén el aire constante aunque te canses.'
+      : 'La afinación sube al final: sopla más suave.');
+  }
+  if (feedback.length === 0) {
+    feedback.push(digest.accuracy >= 0.9 ? '¡Muy limpio! Ya puedes subir la velocidad.' : 'Vas bien, repite las partes difíciles con calma.');
+  }
+
+  const rate = suggestedRate(digest);
+  const loop = hardestStretch(digest) ?? digest.loop ?? { startMeasure: 0, endMeasure: Math.max(0, digest.measureCount - 1) };
+  return { feedback: feedback.slice(0, 3), nextStep: { text: describeNextStep(loop, rate), loop, rate } };
+};
+
+const FEEDBACK_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    feedback: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 4 },
+    nextStep: {
+      type: 'object',
+      properties: {
+        startMeasure: { type: 'integer', description: 'Primer compás a repetir, empezando en 1' },
+        endMeasure: { type: 'integer', description: 'Último compás a repetir, empezando en 1' },
+        ratePercent: { type: 'integer', description: 'Velocidad en porcentaje, de 50 a 100' },
+      },
+      required: ['startMeasure', 'endMeasure', 'ratePercent'],
+    },
+  },
+  required: ['feedback', 'nextStep'],
+};
+
+/**
+ * Asks the tutor about one practice run. The suggested loop and speed are
+ * clamped to the song so the student can apply them with one click.
+ */
+export const getPracticeFeedback = async (digest: PracticeDigest): Promise<PracticeFeedback> => {
+  const local = localPracticeFeedback(digest);
+  try {
+    const answer = await askTutor<{
+      feedback: string[];
+      nextStep: { startMeasure: number; endMeasure: number; ratePercent: number };
+    }>({
+      task: 'practice_feedback',
+      system: TUTOR_SYSTEM,
+      prompt: `El alumno acaba de tocar esta canción y así le ha ido:
+${describePractice(digest)}
+
+Dale de 2 a 3 comentarios concretos sobre lo que ha tocado (nombra compases y notas, nada genérico) y propón el siguiente paso: qué compases repetir y a qué velocidad.`,
+      schema: FEEDBACK_SCHEMA,
+    });
+
+    const last = digest.measureCount - 1;
+    const clampMeasure = (measure: number) => Math.min(last, Math.max(0, measure - 1));
+    const a = clampMeasure(answer.nextStep.startMeasure);
+    const b = clampMeasure(answer.nextStep.endMeasure);
+    const loop = { startMeasure: Math.min(a, b), endMeasure: Math.max(a, b) };
+    const rate = Math.min(MAX_RATE, Math.max(MIN_RATE, Math.round(answer.nextStep.ratePercent / 5) / 20));
+    return { feedback: answer.feedback, nextStep: { text: describeNextStep(loop, rate), loop, rate } };
+  } catch (error) {
+    console.error("Error generating practice feedback:", error);
+    return local;
+  }
+};
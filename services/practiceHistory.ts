@@ -0,0 +1,122 @@
+import { LoopRegion } from "./loopRegion";
+import { NoteStatus } from "./practiceScoring";
+import { RecorderType } from "./recorders";
+import { transact } from "./localDatabase";
+
+export interface SessionNote {
+  // 0-based measure and written pitch of the note
+  measure: number;
+  midi: number;
+  status: NoteStatus;
+}
+
+/** One finished practice run, as stored. */
+export interface PracticeSession {
+  id: string;
+  // Content hash of the song and track, so renamed files still match
+  songId: string;
+  songName: string;
+  trackIndex: number;
+  recorderType: RecorderType;
+  // Epoch milliseconds
+  startedAt: number;
+  durationSeconds: number;
+  // Playback speed (1 = written tempo) and the tempo it gave at the start
+  rate: number;
+  bpm: number;
+  loop: LoopRegion | null;
+  accuracy: number;
+  notes: SessionNote[];
+}
+
+export class HistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HistoryError";
+  }
+}
+
+const EXPORT_FORMAT = 'flautamaster-history';
+const EXPORT_VERSION = 1;
+
+export const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveSession = async (session: PracticeSession) => {
+  await transact('sessions', 'readwrite', store => store.put(session));
+};
+
+// Oldest first
+export const listSessions = async (): Promise<PracticeSession[]> => {
+  const sessions = await transact<PracticeSession[]>('sessions', 'readonly', store => store.getAll());
+  return (sessions ?? []).sort((a, b) => a.startedAt - b.startedAt);
+};
+
+export const clearHistory = async () => {
+  await transact('sessions', 'readwrite', store => store.clear());
+};
+
+export const exportHistory = async () =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: Date.now(), sessions: await listSessions() });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isLoop = (value: unknown) =>
+  value === null || (isRecord(value) && isInteger(value.startMeasure) && isInteger(value.endMeasure));
+
+const isNoteResult = (value: unknown) =>
+  isRecord(value) &&
+  isInteger(value.measure) &&
+  isFiniteNumber(value.midi) &&
+  (value.status === 'correct' || value.status === 'late' || value.status === 'wrong');
+
+const isSession = (value: unknown): value is PracticeSession =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.songId === 'string' &&
+  typeof value.songName === 'string' &&
+  isInteger(value.trackIndex) &&
+  typeof value.recorderType === 'string' &&
+  isFiniteNumber(value.startedAt) &&
+  isFiniteNumber(value.durationSeconds) &&
+  isFiniteNumber(value.rate) &&
+  isFiniteNumber(value.bpm) &&
+  isLoop(value.loop) &&
+  isFiniteNumber(value.accuracy) &&
+  Array.isArray(value.notes) &&
+  value.notes.every(isNoteResult);
+
+export interface HistoryImport {
+  imported: number;
+  // Sessions in the file that were damaged or incomplete and were left out
+  skipped: number;
+}
+
+/**
+ * Merges an exported history into this device's. Sessions keep their ids, so
+ * importing the same file twice doesn't duplicate anything. Returns how many
+ * sessions were read from the file and how many had to be left out.
+ */
+export const importHistory = async (json: string): Promise<HistoryImport> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new HistoryError("El archivo no es un historial válido.");
+  }
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.sessions)) {
+    throw new HistoryError("El archivo no es un historial de FlautaMaster.");
+  }
+  if (typeof data.version === 'number' && data.version > EXPORT_VERSION) {
+    throw new HistoryError("El historial es de una versión más nueva de la aplicación.");
+  }
+  const sessions = data.sessions.filter(isSession);
+  await transact('sessions', 'readwrite', store => {
+    sessions.forEach(session => store.put(session));
+  });
+  return { imported: sessions.length, skipped: data.sessions.length - sessions.length };
+};
@@ -0,0 +1,135 @@
+import { Note } from "../types";
+import { PitchFrame, centsOff } from "./pitchDetection";
+
+// correct = right pitch on time; late = right note but late or out of tune; wrong = never played
+export type NoteStatus = 'correct' | 'late' | 'wrong';
+
+export interface NoteResult {
+  note: Note;
+  status: NoteStatus;
+  // Seconds between the written onset and the first matching frame
+  onsetError: number | null;
+  // Median deviation while the note was held
+  centsError: number | null;
+  // Most common pitch heard during the note, rounded to a semitone
+  detectedMidi: number | null;
+}
+
+export interface PracticeSummary {
+  total: number;
+  correct: number;
+  late: number;
+  wrong: number;
+  // Share of notes played correctly, 0..1
+  accuracy: number;
+  meanOnsetError: number | null;
+  meanCentsError: number | null;
+}
+
+export interface ScoringOptions {
+  // Semitones between the written notes and what the instrument sounds
+  soundingOffset?: number;
+  // Largest timing error still counted as on time
+  onTimeWindow?: number;
+  // Deviation still counted as in tune
+  inTuneCents?: number;
+  // Detected pitches further than this don't count as the note at all
+  matchCents?: number;
+  // How early a matching pitch may start and still count
+  earlyWindow?: number;
+  // Average input delay of microphone capture, subtracted from frame times
+  latency?: number;
+}
+
+const DEFAULTS: Required<ScoringOptions> = {
+  soundingOffset: 0,
+  onTimeWindow: 0.15,
+  inTuneCents: 30,
+  matchCents: 50,
+  earlyWindow: 0.1,
+  latency: 0.05,
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mostCommon = (values: number[]) => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  let best: number | null = null;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Scores one expected note against the detected frames. Frames must be
+ * sorted by time and share the clock of the note times.
+ */
+export const scoreNote = (note: Note, frames: PitchFrame[], options: ScoringOptions = {}): NoteResult => {
+  const { soundingOffset, onTimeWindow, inTuneCents, matchCents, earlyWindow, latency } = { ...DEFAULTS, ...options };
+  const expected = note.midi + soundingOffset;
+  const start = note.time - earlyWindow;
+  const end = note.time + note.duration;
+
+  const heard = frames.filter(f => f.pitch && f.time - latency >= start && f.time - latency < end);
+  const matching = heard.filter(f => Math.abs(centsOff(f.pitch!.midi, expected)) <= matchCents);
+  const detectedMidi = mostCommon(heard.map(f => Math.round(f.pitch!.midi)));
+
+  if (matching.length === 0) {
+    return { note, status: 'wrong', onsetError: null, centsError: null, detectedMidi };
+  }
+
+  const onsetError = matching[0].time - latency - note.time;
+  const centsError = median(matching.map(f => centsOff(f.pitch!.midi, expected)))!;
+  const onTime = Math.abs(onsetError) <= onTimeWindow;
+  const inTune = Math.abs(centsError) <= inTuneCents;
+
+  return {
+    note,
+    status: onTime && inTune ? 'correct' : 'late',
+    onsetError,
+    centsError,
+    detectedMidi,
+  };
+};
+
+/**
+ * Scores every note whose time window has fully passed `upTo`, so results
+ * can be shown while the student is still playing.
+ */
+export const scorePerformance = (
+  notes: Note[],
+  frames: PitchFrame[],
+  upTo = Infinity,
+  options: ScoringOptions = {},
+): NoteResult[] =>
+  notes
+    .filter(n => n.time + n.duration <= upTo)
+    .map(n => scoreNote(n, frames, options));
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((s, v) => s + v, 0) / values.length : null;
+
+export const summarizeResults = (results: NoteResult[]): PracticeSummary => {
+  const count = (status: NoteStatus) => results.filter(r => r.status === status).length;
+  const correct = count('correct');
+  return {
+    total: results.length,
+    correct,
+    late: count('late'),
+    wrong: count('wrong'),
+    accuracy: results.length ? correct / results.length : 0,
+    meanOnsetError: mean(results.filter(r => r.onsetError !== null).map(r => r.onsetError!)),
+    meanCentsError: mean(results.filter(r => r.centsError !== null).map(r => r.centsError!)),
+  };
+};
@@ -0,0 +1,146 @@
+import { LoopRegion } from "./loopRegion";
+import { PracticeSession } from "./practiceHistory";
+
+export interface SongSummary {
+  songId: string;
+  songName: string;
+  sessions: number;
+  lastPlayed: number;
+  bestAccuracy: number;
+}
+
+export interface MeasureScore {
+  measure: number;
+  // Share of correct notes in that measure, per session (null = not played)
+  bySession: (number | null)[];
+}
+
+export interface WeakPassage extends LoopRegion {
+  // Mean accuracy over the recent sessions that played it
+  accuracy: number;
+}
+
+export interface Streak {
+  current: number;
+  longest: number;
+  // Days with practice, as local YYYY-MM-DD
+  days: Set<string>;
+}
+
+// Sessions looked at when deciding what is "consistently" weak
+const RECENT_SESSIONS = 5;
+const WEAK_ACCURACY = 0.7;
+// A measure must be weak in at least this many of the recent sessions
+const WEAK_MIN_SESSIONS = 2;
+
+export const dayKey = (time: number) => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const previousDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return dayKey(new Date(y, m - 1, d - 1).getTime());
+};
+
+export const summarizeSongs = (sessions: PracticeSession[]): SongSummary[] => {
+  const songs = new Map<string, SongSummary>();
+  sessions.forEach(s => {
+    const song = songs.get(s.songId) ?? { songId: s.songId, songName: s.songName, sessions: 0, lastPlayed: 0, bestAccuracy: 0 };
+    song.sessions++;
+    // The latest name wins, in case the file was renamed
+    if (s.startedAt >= song.lastPlayed) {
+      song.lastPlayed = s.startedAt;
+      song.songName = s.songName;
+    }
+    song.bestAccuracy = Math.max(song.bestAccuracy, s.accuracy);
+    songs.set(s.songId, song);
+  });
+  return Array.from(songs.values()).sort((a, b) => b.lastPlayed - a.lastPlayed);
+};
+
+export const sessionsForSong = (sessions: PracticeSession[], songId: string) =>
+  sessions.filter(s => s.songId === songId).sort((a, b) => a.startedAt - b.startedAt);
+
+/** Accuracy of every measure in every session of one song (sessions oldest first). */
+export const measureScores = (songSessions: PracticeSession[]): MeasureScore[] => {
+  const count = songSessions.reduce((max, s) => Math.max(max, ...s.notes.map(n => n.measure + 1)), 0);
+  return Array.from({ length: count }, (_, measure) => ({
+    measure,
+    bySession: songSessions.map(s => {
+      const notes = s.notes.filter(n => n.measure === measure);
+      return notes.length ? notes.filter(n => n.status === 'correct').length / notes.length : null;
+    }),
+  }));
+};
+
+/**
+ * Measures that keep going wrong across the recent sessions, merged into
+ * passages of neighbouring measures, weakest first.
+ */
+export const weakPassages = (songSessions: PracticeSession[]): WeakPassage[] => {
+  const recent = songSessions.slice(-RECENT_SESSIONS);
+  const weak = measureScores(recent)
+    .map(({ measure, bySession }) => {
+      const played = bySession.filter((a): a is number => a !== null);
+      const mean = played.length ? played.reduce((s, a) => s + a, 0) / played.length : 1;
+      const weakCount = played.filter(a => a < WEAK_ACCURACY).length;
+      return { measure, mean, weak: weakCount >= Math.min(WEAK_MIN_SESSIONS, recent.length) && mean < WEAK_ACCURACY };
+    })
+    .filter(m => m.weak);
+
+  const passages: (WeakPassage & { total: number; count: number })[] = [];
+  weak.forEach(m => {
+    const last = passages[passages.length - 1];
+    if (last && last.endMeasure === m.measure - 1) {
+      last.endMeasure = m.measure;
+      last.total += m.mean;
+      last.count++;
+      last.accuracy = last.total / last.count;
+    } else {
+      passages.push({ startMeasure: m.measure, endMeasure: m.measure, accuracy: m.mean, total: m.mean, count: 1 });
+    }
+  });
+  return passages
+    .map(({ startMeasure, endMeasure, accuracy }) => ({ startMeasure, endMeasure, accuracy }))
+    .sort((a, b) => a.accuracy - b.accuracy);
+};
+
+/** Consecutive days with practice, counting today or, if not yet, yesterday. */
+export const practiceStreak = (sessions: PracticeSession[], now = Date.now()): Streak => {
+  const days = new Set(sessions.map(s => dayKey(s.startedAt)));
+
+  let longest = 0;
+  days.forEach(day => {
+    // Only count runs from their first day
+    if (days.has(previousDay(day))) return;
+    let length = 0;
+    let cursor = day;
+    while (days.has(cursor)) {
+      length++;
+      const [y, m, d] = cursor.split('-').map(Number);
+      cursor = dayKey(new Date(y, m - 1, d + 1).getTime());
+    }
+    longest = Math.max(longest, length);
+  });
+
+  let current = 0;
+  let cursor = days.has(dayKey(now)) ? dayKey(now) : previousDay(dayKey(now));
+  while (days.has(cursor)) {
+    current++;
+    cursor = previousDay(cursor);
+  }
+  return { current, longest, days };
+};
+
+// Minutes practised per day over the last `count` days, oldest first
+export const dailyMinutes = (sessions: PracticeSession[], count: number, now = Date.now()) => {
+  const totals = new Map<string, number>();
+  sessions.forEach(s => totals.set(dayKey(s.startedAt), (totals.get(dayKey(s.startedAt)) ?? 0) + s.durationSeconds / 60));
+  const today = new Date(now);
+  return Array.from({ length: count }, (_, i) => {
+    const day = dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (count - 1 - i)).getTime());
+    return { day, minutes: totals.get(day) ?? 0 };
+  });
+};
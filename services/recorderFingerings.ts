@@ -0,0 +1,92 @@
+// Recorder fingering charts. Holes are listed thumb first, then 1-7 from the
+// top; holes 6 and 7 are double holes on modern recorders.
+
+export type FingeringSystem = 'baroque' | 'german';
+
+export type HoleState = 'closed' | 'open' | 'half';
+
+export interface Fingering {
+  // [thumb, 1, 2, 3, 4, 5, 6, 7]
+  holes: HoleState[];
+  // The thumb hole is pinched (half-holed) for the upper octave
+  thumbHalf: boolean;
+}
+
+export const FINGERING_SYSTEM_LABELS: Record<FingeringSystem, string> = {
+  baroque: 'Barroca',
+  german: 'Alemana',
+};
+
+// Written lowest note of a C recorder (soprano), C4 in the written octave
+export const DEFAULT_LOWEST_NOTE = 60;
+
+// x = closed, o = open, h = half covered; indexed by semitones above the lowest note
+const BAROQUE_CHART = [
+  'xxxxxxxx', // C
+  'xxxxxxxh', // C#
+  'xxxxxxxo', // D
+  'xxxxxxho', // D#
+  'xxxxxxoo', // E
+  'xxxxxoxx', // F
+  'xxxxoxxo', // F#
+  'xxxxoooo', // G
+  'xxxoxxho', // G#
+  'xxxooooo', // A
+  'xxoxxooo', // A#
+  'xxoooooo', // B
+  'xoxooooo', // C
+  'oxxooooo', // C#
+  'ooxooooo', // D
+  'ooxxxxxo', // D#
+  'hxxxxxoo', // E
+  'hxxxxoxo', // F
+  'hxxxoxoo', // F#
+  'hxxxoooo', // G
+  'hxxoxooo', // G#
+  'hxxooooo', // A
+  'hxxoxxxo', // A#
+  'hxxoxxoo', // B
+  'hxoxxooo', // C
+  'hxoxxoxx', // C#
+  'hxoxxoxo', // D
+];
+
+// German fingering simplifies F (and moves the fork to F#) in both octaves
+const GERMAN_OVERRIDES: Record<number, string> = {
+  5: 'xxxxxooo', // F
+  6: 'xxxxoxxx', // F#
+  17: 'hxxxxooo', // F
+  18: 'hxxxoxxo', // F#
+};
+
+const parseChart = (pattern: string): Fingering => {
+  const holes = pattern.split('').map(c => (c === 'x' ? 'closed' : c === 'h' ? 'half' : 'open')) as HoleState[];
+  return { holes, thumbHalf: holes[0] === 'half' };
+};
+
+export const FINGERING_RANGE = BAROQUE_CHART.length;
+
+/**
+ * Fingering for a written MIDI pitch, or null when the recorder can't play it.
+ * `lowestNote` is the written pitch of the instrument's lowest note.
+ */
+export const getFingering = (
+  midi: number,
+  system: FingeringSystem,
+  lowestNote = DEFAULT_LOWEST_NOTE,
+): Fingering | null => {
+  const offset = midi - lowestNote;
+  if (offset < 0 || offset >= FINGERING_RANGE) return null;
+  const pattern = system === 'german' ? GERMAN_OVERRIDES[offset] ?? BAROQUE_CHART[offset] : BAROQUE_CHART[offset];
+  return parseChart(pattern);
+};
+
+/**
+ * Forked ("cross") fingerings leave a hole open with closed holes below it,
+ * which beginners find awkward. Half-covered double holes don't count.
+ */
+export const isForkedFingering = (fingering: Fingering) => {
+  const front = fingering.holes.slice(1);
+  const firstOpen = front.findIndex(h => h === 'open');
+  return firstOpen >= 0 && front.slice(firstOpen + 1).some(h => h === 'closed');
+};
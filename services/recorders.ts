@@ -0,0 +1,33 @@
+import { FINGERING_RANGE } from "./recorderFingerings";
+
+export type RecorderType = 'soprano' | 'alto' | 'tenor' | 'bass';
+
+export interface RecorderProfile {
+  type: RecorderType;
+  label: string;
+  // Written range in MIDI numbers (the pitches on the staff)
+  lowestNote: number;
+  highestNote: number;
+  // Semitones between the written and the sounding pitch
+  soundingOffset: number;
+}
+
+const profile = (type: RecorderType, label: string, lowestNote: number, soundingOffset: number): RecorderProfile => ({
+  type,
+  label,
+  lowestNote,
+  highestNote: lowestNote + FINGERING_RANGE - 1,
+  soundingOffset,
+});
+
+// Soprano music is written an octave below where it sounds (C5-D7 sounding).
+// The bass is shown at sounding pitch since the app only draws a treble staff.
+export const RECORDERS: Record<RecorderType, RecorderProfile> = {
+  soprano: profile('soprano', 'Soprano (Do)', 60, 12),
+  alto: profile('alto', 'Contralto (Fa)', 65, 0),
+  tenor: profile('tenor', 'Tenor (Do)', 60, 0),
+  bass: profile('bass', 'Bajo (Fa)', 53, 0),
+};
+
+export const isInRecorderRange = (midi: number, recorder: RecorderProfile) =>
+  midi >= recorder.lowestNote && midi <= recorder.highestNote;
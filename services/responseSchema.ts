@@ -0,0 +1,76 @@
+// A small subset of JSON Schema: enough to describe the tutor's answers, and
+// plain JSON Schema so every provider can be sent the same object.
+export type ResponseSchema =
+  | { type: 'string'; enum?: string[]; description?: string }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items: ResponseSchema; minItems?: number; maxItems?: number; description?: string }
+  | { type: 'object'; properties: Record<string, ResponseSchema>; required?: string[]; description?: string };
+
+export class ResponseValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResponseValidationError";
+  }
+}
+
+/**
+ * Checks a parsed answer against the schema and returns a copy with only the
+ * declared properties. Throws with the path of the first offending field.
+ */
+export const validateResponse = <T>(value: unknown, schema: ResponseSchema, path = 'respuesta'): T => {
+  const fail = (expected: string): never => {
+    throw new ResponseValidationError(`${path}: se esperaba ${expected}`);
+  };
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') fail('texto');
+      if (schema.enum && !schema.enum.includes(value as string)) fail(`uno de ${schema.enum.join(', ')}`);
+      return value as T;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail('un número');
+      if (schema.type === 'integer' && !Number.isInteger(value)) fail('un número entero');
+      if (schema.minimum !== undefined && (value as number) < schema.minimum) fail(`un número ≥ ${schema.minimum}`);
+      if (schema.maximum !== undefined && (value as number) > schema.maximum) fail(`un número ≤ ${schema.maximum}`);
+      return value as T;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('verdadero o falso');
+      return value as T;
+    case 'array': {
+      if (!Array.isArray(value)) fail('una lista');
+      const items = value as unknown[];
+      if (schema.minItems !== undefined && items.length < schema.minItems) fail(`al menos ${schema.minItems} elementos`);
+      if (schema.maxItems !== undefined && items.length > schema.maxItems) fail(`como mucho ${schema.maxItems} elementos`);
+      return items.map((item, i) => validateResponse(item, schema.items, `${path}[${i}]`)) as T;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) fail('un objeto');
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      Object.entries(schema.properties).forEach(([key, property]) => {
+        if (record[key] === undefined || record[key] === null) {
+          if (schema.required?.includes(key)) fail(`el campo "${key}"`);
+          return;
+        }
+        result[key] = validateResponse(record[key], property, `${path}.${key}`);
+      });
+      return result as T;
+    }
+  }
+};
+
+// Some self-hosted models wrap their JSON in a markdown code fence
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+export const parseResponse = <T>(text: string, schema: ResponseSchema): T => {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(text));
+  } catch {
+    throw new ResponseValidationError("La respuesta no es JSON válido");
+  }
+  return validateResponse<T>(value, schema);
+};
@@ -0,0 +1,140 @@
+import { MidiData } from "../types";
+import { transact } from "./localDatabase";
+import { detectMelodyTrack, getActiveTrack } from "./trackSelection";
+import { RECORDERS, RecorderType } from "./recorders";
+import { DifficultyLevel, analyzeDifficulty } from "./difficultyAnalysis";
+import { detectKey, keyDisplayName } from "./pitchSpelling";
+import { TranspositionSettings } from "./transposition";
+import { LoopRegion } from "./loopRegion";
+import { hashString } from "./tutorProviders";
+
+// How the student left the song, restored when it is opened again
+export interface SongSettings {
+  rate: number;
+  selectedTrack: number;
+  transposition: TranspositionSettings;
+  loop: LoopRegion | null;
+}
+
+export interface LibrarySong {
+  // Content hash, so adding the same file twice finds the existing entry
+  id: string;
+  title: string;
+  composer: string;
+  tags: string[];
+  recorderType: RecorderType;
+  difficulty: DifficultyLevel;
+  difficultyScore: number;
+  keyName: string;
+  // Epoch milliseconds
+  addedAt: number;
+  lastOpenedAt: number;
+  data: MidiData;
+  settings: SongSettings | null;
+}
+
+export type LibrarySort = 'recent' | 'title' | 'difficulty' | 'added';
+
+export const LIBRARY_SORT_LABELS: Record<LibrarySort, string> = {
+  recent: 'Abiertas hace poco',
+  title: 'Título',
+  difficulty: 'Dificultad',
+  added: 'Añadidas hace poco',
+};
+
+export interface LibraryFilter {
+  query: string;
+  difficulty: DifficultyLevel | null;
+  keyName: string | null;
+  sort: LibrarySort;
+}
+
+export const DEFAULT_LIBRARY_FILTER: LibraryFilter = { query: '', difficulty: null, keyName: null, sort: 'recent' };
+
+export const librarySongId = (data: MidiData) =>
+  hashString(JSON.stringify(data.tracks.map(t => t.notes.map(n => [n.midi, n.time.toFixed(3), n.duration.toFixed(3)]))));
+
+// Difficulty and key are measured on the melody, for the given recorder
+const describeSong = (data: MidiData, recorderType: RecorderType) => {
+  const melody = detectMelodyTrack(data);
+  const report = analyzeDifficulty(data, melody, RECORDERS[recorderType]);
+  const key = detectKey(data, getActiveTrack(data, melody)?.notes ?? []);
+  return { difficulty: report.level, difficultyScore: report.score, keyName: keyDisplayName(key) };
+};
+
+const getSong = async (id: string) => transact<LibrarySong | undefined>('songs', 'readonly', store => store.get(id));
+
+const putSong = async (song: LibrarySong) => {
+  await transact('songs', 'readwrite', store => store.put(song));
+  return song;
+};
+
+/**
+ * Adds a song, or returns the stored one (marked as just opened) when the same
+ * notes are already in the library.
+ */
+export const addSong = async (data: MidiData, recorderType: RecorderType): Promise<LibrarySong> => {
+  const id = librarySongId(data);
+  const now = Date.now();
+  const existing = await getSong(id);
+  if (existing) return putSong({ ...existing, lastOpenedAt: now });
+  return putSong({
+    id,
+    title: data.header.name,
+    composer: data.header.composer ?? '',
+    tags: [],
+    recorderType,
+    ...describeSong(data, recorderType),
+    addedAt: now,
+    lastOpenedAt: now,
+    data,
+    settings: null,
+  });
+};
+
+export const listSongs = async (): Promise<LibrarySong[]> =>
+  (await transact<LibrarySong[]>('songs', 'readonly', store => store.getAll())) ?? [];
+
+export type SongChanges = Partial<Pick<LibrarySong, 'title' | 'composer' | 'tags' | 'recorderType' | 'settings' | 'lastOpenedAt'>>;
+
+export const updateSong = async (id: string, changes: SongChanges): Promise<LibrarySong | null> => {
+  const song = await getSong(id);
+  if (!song) return null;
+  const updated = { ...song, ...changes };
+  // The difficulty depends on the recorder it is played on
+  if (changes.recorderType && changes.recorderType !== song.recorderType) {
+    Object.assign(updated, describeSong(song.data, changes.recorderType));
+  }
+  return putSong(updated);
+};
+
+export const deleteSong = async (id: string) => {
+  await transact('songs', 'readwrite', store => store.delete(id));
+};
+
+// "canon, navidad ,  " -> ["canon", "navidad"]
+export const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+const DIFFICULTY_ORDER: Record<DifficultyLevel, number> = { 'Fácil': 0, 'Intermedio': 1, 'Avanzado': 2 };
+
+// Accents don't matter when searching: "cancion" finds "Canción"
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const filterSongs = (songs: LibrarySong[], filter: LibraryFilter) => {
+  const words = normalize(filter.query).split(/\s+/).filter(Boolean);
+  const matches = songs.filter(song => {
+    if (filter.difficulty && song.difficulty !== filter.difficulty) return false;
+    if (filter.keyName && song.keyName !== filter.keyName) return false;
+    const haystack = normalize([song.title, song.composer, ...song.tags].join(' '));
+    return words.every(word => haystack.includes(word));
+  });
+
+  const compare: Record<LibrarySort, (a: LibrarySong, b: LibrarySong) => number> = {
+    recent: (a, b) => b.lastOpenedAt - a.lastOpenedAt,
+    title: (a, b) => a.title.localeCompare(b.title, 'es'),
+    difficulty: (a, b) => DIFFICULTY_ORDER[a.difficulty] - DIFFICULTY_ORDER[b.difficulty] || a.difficultyScore - b.difficultyScore,
+    added: (a, b) => b.addedAt - a.addedAt,
+  };
+  return matches.sort(compare[filter.sort]);
+};
@@ -0,0 +1,96 @@
+import { JSDOM } from 'jsdom';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { buildPdf } from './pdfWriter';
+import { pathOps, svgToPdfContent } from './svgToPdf';
+
+const page = (body: string) =>
+  new (globalThis.DOMParser)().parseFromString(
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100">${body}</svg>`,
+    'image/svg+xml'
+  ).documentElement;
+
+// Drawing operators for the body, on a page twice the size of the viewBox
+const draw = (body: string) => svgToPdfContent(page(body), 400, 200).split('\n');
+
+describe('SVG to PDF drawing operators', () => {
+  beforeAll(() => {
+    globalThis.DOMParser = new JSDOM().window.DOMParser;
+  });
+
+  it('flips the page and fits the viewBox', () => {
+    const ops = draw('');
+    expect(ops.slice(0, 4)).toEqual(['q', '1 0 0 -1 0 200 cm', '4 M', '1 0 0 1 0 0 cm']);
+    expect(ops).toContain('2 0 0 2 0 0 cm');
+  });
+
+  it('fills and strokes shapes with their colours', () => {
+    const ops = draw('<rect x="1" y="2" width="30" height="4" fill="#ff0000" stroke="#000" stroke-width="0.5"/>');
+    expect(ops).toEqual(expect.arrayContaining(['1 0 0 rg', '0 0 0 RG', '0.5 w', '1 2 30 4 re', 'B']));
+  });
+
+  it('strokes lines and skips transparent paint', () => {
+    const ops = draw('<line x1="0" y1="5" x2="50" y2="5" stroke="#1e293b"/><rect width="9" height="9" fill="transparent"/>');
+    expect(ops).toEqual(expect.arrayContaining(['0 5 m', '50 5 l', 'S']));
+    expect(ops.some(op => op.endsWith(' re'))).toBe(false);
+  });
+
+  it('applies each transform inside its group', () => {
+    const ops = draw('<g transform="translate(10, 20) scale(2)"><circle cx="0" cy="0" r="1"/></g>');
+    const start = ops.indexOf('1 0 0 1 10 20 cm');
+    expect(start).toBeGreaterThan(0);
+    expect(ops[start - 1]).toBe('q');
+    expect(ops[start + 1]).toBe('2 0 0 2 0 0 cm');
+    expect(ops.filter(op => op.endsWith(' c')).length).toBe(4);
+    expect(ops[ops.length - 2]).toBe('Q');
+  });
+
+  it('draws ellipses and arcs as curves', () => {
+    expect(draw('<ellipse cx="10" cy="10" rx="4" ry="2" transform="rotate(-15 10 10)"/>').filter(op => op.endsWith(' c')).length).toBe(4);
+    expect(pathOps('M 0 0 a 5 5 0 0 1 10 0').split('\n').pop()).toMatch(/ 10 0 c$/);
+  });
+
+  it('follows relative and smooth path commands', () => {
+    expect(pathOps('m 1 1 l 2 0 h 3 v 4 z').split('\n')).toEqual(['1 1 m', '3 1 l', '6 1 l', '6 5 l', 'h']);
+    expect(pathOps('M 0 0 C 0 1 1 2 2 2 S 4 3 4 4').split('\n')[2]).toBe('3 2 4 3 4 4 c');
+  });
+
+  it('writes text in the standard fonts', () => {
+    const ops = draw('<g font-family="Georgia, serif"><text x="10" y="20" font-size="12" font-weight="bold">Canción</text></g>');
+    expect(ops).toContain('BT /F4 1 Tf 12 0 0 -12 10 20 Tm <43616e6369f36e> Tj ET');
+    expect(draw('<text x="0" y="0">a</text>').join('\n')).toContain('/F1 1 Tf 16 0 0 -16');
+  });
+
+  it('draws accidentals as outlines', () => {
+    const ops = draw('<text x="10" y="20" font-size="10">F♯</text>');
+    expect(ops.filter(op => op.includes(' Tj ')).length).toBe(1);
+    expect(ops).toContain('f*');
+  });
+
+  it('clips to a clip path', () => {
+    const ops = draw(
+      '<defs><clipPath id="half"><rect width="5" height="10"/></clipPath></defs>' +
+      '<circle cx="5" cy="5" r="5" clip-path="url(#half)"/>'
+    );
+    expect(ops).toEqual(expect.arrayContaining(['0 0 5 10 re', 'W n']));
+    expect(ops.indexOf('W n')).toBeLessThan(ops.indexOf('f'));
+    // The clip path's own rectangle isn't painted
+    expect(ops.filter(op => op === '0 0 5 10 re').length).toBe(1);
+  });
+});
+
+describe('PDF file', () => {
+  it('links every page to its contents and the standard fonts', () => {
+    const text = new TextDecoder('latin1').decode(buildPdf([
+      { width: 595, height: 842, content: '0 0 m 10 10 l S\n' },
+      { width: 595, height: 842, content: 'BT /F1 1 Tf ET\n' },
+    ], 'Título'));
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/Kids [8 0 R 10 0 R] /Count 2');
+    expect(text).toContain('/BaseFont /Helvetica /Encoding /WinAnsiEncoding');
+    expect(text).not.toContain('/Image');
+    // The cross-reference table points at each object
+    const xref = Number(text.match(/startxref\n(\d+)/)![1]);
+    const offsets = text.slice(xref).match(/\d{10} 00000 n/g)!.map(entry => Number(entry.slice(0, 10)));
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+});
@@ -0,0 +1,546 @@
+import { PdfFont, pdfFontResource } from "./pdfWriter";
+
+// Turns the SVG the score views draw into PDF drawing operators, so printed
+// pages keep sharp lines and selectable text. It covers what the staff uses:
+// groups, transforms, lines, rectangles, circles, ellipses, polygons, paths,
+// text and rectangular clip paths.
+
+interface Style {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  fontSize: number;
+  fontWeight: string;
+  fontFamily: string;
+  textAnchor: string;
+}
+
+const INITIAL_STYLE: Style = {
+  fill: '#000000',
+  stroke: 'none',
+  strokeWidth: 1,
+  fontSize: 16,
+  fontWeight: 'normal',
+  fontFamily: '',
+  textAnchor: 'start',
+};
+
+// Elements that hold definitions or nothing printable
+const SKIPPED = new Set(['defs', 'clipPath', 'mask', 'pattern', 'linearGradient', 'radialGradient', 'title', 'desc', 'style', 'script', 'foreignObject', 'image']);
+
+// Three decimals are far below what a printer can show
+const num = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const length = (value: string | null, fallback = 0) => {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// ---------------------------------------------------------------------------
+// Colours
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  gray: '#808080',
+  grey: '#808080',
+};
+
+// Red, green and blue from 0 to 1, or null for no paint
+const parseColor = (value: string): [number, number, number] | null => {
+  const color = value.trim().toLowerCase();
+  if (color === 'none' || color === 'transparent') return null;
+  const hex = NAMED_COLORS[color] ?? color;
+  const short = hex.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  if (short) return [short[1], short[2], short[3]].map(h => parseInt(h + h, 16) / 255) as [number, number, number];
+  const long = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/);
+  if (long) return [long[1], long[2], long[3]].map(h => parseInt(h, 16) / 255) as [number, number, number];
+  const rgb = color.match(/^rgba?\(([^)]*)\)$/);
+  if (rgb) {
+    const [r, g, b, alpha = 1] = rgb[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    return alpha === 0 ? null : [r / 255, g / 255, b / 255];
+  }
+  // currentColor and anything unusual print in black
+  return [0, 0, 0];
+};
+
+const colorOperands = (color: [number, number, number]) => color.map(num).join(' ');
+
+// ---------------------------------------------------------------------------
+// Geometry
+
+// "cm" operators for an SVG transform list; each one applies inside the previous
+const transformOps = (value: string) => {
+  const ops: string[] = [];
+  for (const [, name, list] of value.matchAll(/([a-zA-Z]+)\s*\(([^)]*)\)/g)) {
+    const a = list.split(/[\s,]+/).filter(Boolean).map(Number);
+    let matrix: number[] | null = null;
+    switch (name) {
+      case 'translate':
+        matrix = [1, 0, 0, 1, a[0] ?? 0, a[1] ?? 0];
+        break;
+      case 'scale':
+        matrix = [a[0] ?? 1, 0, 0, a[1] ?? a[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((a[0] ?? 0) * Math.PI) / 180;
+        const [cx, cy] = [a[1] ?? 0, a[2] ?? 0];
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        matrix = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        matrix = [1, 0, Math.tan(((a[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        matrix = [1, Math.tan(((a[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+      case 'matrix':
+        if (a.length === 6) matrix = a;
+        break;
+    }
+    if (matrix) ops.push(`${matrix.map(num).join(' ')} cm`);
+  }
+  return ops.join('\n');
+};
+
+// Elliptical arc as cubic curves, following the SVG implementation notes
+const arcToCurves = (
+  x1: number, y1: number, rx: number, ry: number, rotation: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number,
+): number[][] => {
+  if (rx === 0 || ry === 0) return [[x1, y1, x2, y2, x2, y2]];
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (factor * rx * y1p) / ry;
+  const cyp = (-factor * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // Quarter turns or less keep each curve close to the arc
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (t: number) => [
+    cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+  ];
+  const derivative = (t: number) => [
+    -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos,
+  ];
+  const curves: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = start + i * step;
+    const t2 = t1 + step;
+    const [px1, py1] = point(t1);
+    const [px2, py2] = point(t2);
+    const [dx1, dy1] = derivative(t1);
+    const [dx2, dy2] = derivative(t2);
+    curves.push([px1 + k * dx1, py1 + k * dy1, px2 - k * dx2, py2 - k * dy2, px2, py2]);
+  }
+  return curves;
+};
+
+const PATH_ARITY: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+// Path data as "m", "l", "c" and "h" operators
+export const pathOps = (d: string) => {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? [];
+  const ops: string[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Reflected control points for the smooth curve commands
+  let lastCubic: [number, number] | null = null;
+  let lastQuad: [number, number] | null = null;
+  let command = '';
+  let i = 0;
+
+  const curve = (c1x: number, c1y: number, c2x: number, c2y: number, ex: number, ey: number) =>
+    ops.push(`${[c1x, c1y, c2x, c2y, ex, ey].map(num).join(' ')} c`);
+  const quad = (qx: number, qy: number, ex: number, ey: number) =>
+    curve(x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y), ex + (2 / 3) * (qx - ex), ey + (2 / 3) * (qy - ey), ex, ey);
+
+  while (i < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[i])) command = tokens[i++];
+    const lower = command.toLowerCase();
+    const arity = PATH_ARITY[lower];
+    if (arity === undefined) break;
+    const relative = command !== command.toUpperCase();
+    const a = tokens.slice(i, i + arity).map(Number);
+    if (a.length < arity || a.some(n => !Number.isFinite(n))) break;
+    i += arity;
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    let cubic: [number, number] | null = null;
+    let quadratic: [number, number] | null = null;
+
+    switch (lower) {
+      case 'm':
+        x = a[0] + ox;
+        y = a[1] + oy;
+        startX = x;
+        startY = y;
+        ops.push(`${num(x)} ${num(y)} m`);
+        // Further pairs are lines
+        command = relative ? 'l' : 'L';
+        break;
+      case 'l':
+        x = a[0] + ox;
+        y = a[1] + oy;
+        ops.push(`${num(x)} ${num(y)} l`);
+        break;
+      case 'h':
+        x = a[0] + ox;
+        ops.push(`${num(x)} ${num(y)} l`);
+        break;
+      case 'v':
+        y = a[0] + oy;
+        ops.push(`${num(x)} ${num(y)} l`);
+        break;
+      case 'c':
+        curve(a[0] + ox, a[1] + oy, a[2] + ox, a[3] + oy, a[4] + ox, a[5] + oy);
+        cubic = [a[2] + ox, a[3] + oy];
+        x = a[4] + ox;
+        y = a[5] + oy;
+        break;
+      case 's': {
+        const [c1x, c1y] = lastCubic ? [2 * x - lastCubic[0], 2 * y - lastCubic[1]] : [x, y];
+        curve(c1x, c1y, a[0] + ox, a[1] + oy, a[2] + ox, a[3] + oy);
+        cubic = [a[0] + ox, a[1] + oy];
+        x = a[2] + ox;
+        y = a[3] + oy;
+        break;
+      }
+      case 'q':
+        quad(a[0] + ox, a[1] + oy, a[2] + ox, a[3] + oy);
+        quadratic = [a[0] + ox, a[1] + oy];
+        x = a[2] + ox;
+        y = a[3] + oy;
+        break;
+      case 't': {
+        const [qx, qy] = lastQuad ? [2 * x - lastQuad[0], 2 * y - lastQuad[1]] : [x, y];
+        quad(qx, qy, a[0] + ox, a[1] + oy);
+        quadratic = [qx, qy];
+        x = a[0] + ox;
+        y = a[1] + oy;
+        break;
+      }
+      case 'a': {
+        const ex = a[5] + ox;
+        const ey = a[6] + oy;
+        arcToCurves(x, y, a[0], a[1], a[2], a[3] !== 0, a[4] !== 0, ex, ey).forEach(c => curve(c[0], c[1], c[2], c[3], c[4], c[5]));
+        x = ex;
+        y = ey;
+        break;
+      }
+      case 'z':
+        ops.push('h');
+        x = startX;
+        y = startY;
+        break;
+    }
+    lastCubic = cubic;
+    lastQuad = quadratic;
+  }
+  return ops.join('\n');
+};
+
+const ellipseOps = (cx: number, cy: number, rx: number, ry: number) =>
+  rx > 0 && ry > 0
+    ? pathOps(`M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`)
+    : '';
+
+const rectOps = (el: Element) => {
+  const x = length(el.getAttribute('x'));
+  const y = length(el.getAttribute('y'));
+  const width = length(el.getAttribute('width'));
+  const height = length(el.getAttribute('height'));
+  if (width <= 0 || height <= 0) return '';
+  let rx = length(el.getAttribute('rx'), NaN);
+  let ry = length(el.getAttribute('ry'), NaN);
+  if (Number.isNaN(rx)) rx = Number.isNaN(ry) ? 0 : ry;
+  if (Number.isNaN(ry)) ry = rx;
+  rx = Math.min(rx, width / 2);
+  ry = Math.min(ry, height / 2);
+  if (rx <= 0 || ry <= 0) return `${num(x)} ${num(y)} ${num(width)} ${num(height)} re`;
+  return pathOps(
+    `M ${x + rx} ${y} H ${x + width - rx} A ${rx} ${ry} 0 0 1 ${x + width} ${y + ry} V ${y + height - ry} ` +
+    `A ${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height} H ${x + rx} A ${rx} ${ry} 0 0 1 ${x} ${y + height - ry} ` +
+    `V ${y + ry} A ${rx} ${ry} 0 0 1 ${x + rx} ${y} Z`
+  );
+};
+
+const pointsOps = (points: string | null, close: boolean) => {
+  const values = (points ?? '').split(/[\s,]+/).filter(Boolean).map(Number);
+  if (values.length < 4) return '';
+  const ops = [];
+  for (let i = 0; i + 1 < values.length; i += 2) ops.push(`${num(values[i])} ${num(values[i + 1])} ${i === 0 ? 'm' : 'l'}`);
+  if (close) ops.push('h');
+  return ops.join('\n');
+};
+
+// Outline of a shape element, or null for anything that isn't one
+const shapeOps = (el: Element): string | null => {
+  switch (el.localName) {
+    case 'rect':
+      return rectOps(el);
+    case 'circle': {
+      const r = length(el.getAttribute('r'));
+      return ellipseOps(length(el.getAttribute('cx')), length(el.getAttribute('cy')), r, r);
+    }
+    case 'ellipse':
+      return ellipseOps(
+        length(el.getAttribute('cx')), length(el.getAttribute('cy')),
+        length(el.getAttribute('rx')), length(el.getAttribute('ry')),
+      );
+    case 'line':
+      return `${num(length(el.getAttribute('x1')))} ${num(length(el.getAttribute('y1')))} m\n` +
+        `${num(length(el.getAttribute('x2')))} ${num(length(el.getAttribute('y2')))} l`;
+    case 'polygon':
+      return pointsOps(el.getAttribute('points'), true);
+    case 'polyline':
+      return pointsOps(el.getAttribute('points'), false);
+    case 'path':
+      return pathOps(el.getAttribute('d') ?? '');
+    default:
+      return null;
+  }
+};
+
+// Fills and strokes an outline the way SVG paints it
+const paint = (outline: string, style: Style, fillable: boolean) => {
+  const fill = fillable ? parseColor(style.fill) : null;
+  const stroke = style.strokeWidth > 0 ? parseColor(style.stroke) : null;
+  if (!outline || (!fill && !stroke)) return '';
+  const ops = [];
+  if (fill) ops.push(`${colorOperands(fill)} rg`);
+  if (stroke) ops.push(`${colorOperands(stroke)} RG`, `${num(style.strokeWidth)} w`);
+  ops.push(outline, fill && stroke ? 'B' : fill ? 'f' : 'S');
+  return ops.join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Text
+
+// Music symbols aren't in the standard fonts, so they are drawn as outlines.
+// Units are ems from the left end of the baseline, with y pointing down.
+interface MusicGlyph {
+  advance: number;
+  outline: string;
+}
+
+const SHARP = 'M0.14 -0.8 h0.05 v0.9 h-0.05 Z M0.31 -0.86 h0.05 v0.9 h-0.05 Z ' +
+  'M0.06 -0.4 L0.44 -0.5 v0.1 L0.06 -0.3 Z M0.06 -0.18 L0.44 -0.28 v0.1 L0.06 -0.08 Z';
+const FLAT = 'M0.08 -0.92 h0.05 v0.56 C0.22 -0.46 0.42 -0.46 0.42 -0.31 C0.42 -0.17 0.27 -0.08 0.08 0 Z ' +
+  'M0.13 -0.3 v0.23 C0.25 -0.13 0.34 -0.21 0.34 -0.29 C0.34 -0.38 0.22 -0.38 0.13 -0.3 Z';
+const NATURAL = 'M0.08 -0.84 h0.05 v0.72 h-0.05 Z M0.29 -0.6 h0.05 v0.72 h-0.05 Z ' +
+  'M0.08 -0.44 L0.34 -0.52 v0.11 L0.08 -0.33 Z M0.08 -0.2 L0.34 -0.28 v0.11 L0.08 -0.09 Z';
+const DOUBLE_SHARP = 'M0.06 -0.46 h0.1 L0.2 -0.38 L0.24 -0.46 h0.1 v0.1 L0.26 -0.32 L0.34 -0.28 v0.1 h-0.1 ' +
+  'L0.2 -0.26 L0.16 -0.18 h-0.1 v-0.1 L0.14 -0.32 L0.06 -0.36 Z';
+
+const MUSIC_GLYPHS: Record<string, MusicGlyph> = {
+  '♯': { advance: 0.5, outline: SHARP },
+  '♭': { advance: 0.46, outline: FLAT },
+  '♮': { advance: 0.42, outline: NATURAL },
+  '𝄪': { advance: 0.42, outline: DOUBLE_SHARP },
+  '𝄫': { advance: 0.8, outline: `${FLAT} ${FLAT.replace(/(-?\d*\.\d+) (-?\d*\.\d+)/g, (_, x, y) => `${+x + 0.34} ${y}`)}` },
+};
+
+// Characters the standard fonts' WinAnsi encoding places outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, 'Œ': 0x8c, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99, 'œ': 0x9c,
+};
+
+const winAnsiHex = (text: string) =>
+  Array.from(text).map(char => {
+    const code = char.codePointAt(0)!;
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f);
+    return byte.toString(16).padStart(2, '0');
+  }).join('');
+
+const pdfFont = (style: Style): PdfFont => {
+  const bold = style.fontWeight === 'bold' || style.fontWeight === 'bolder' || Number(style.fontWeight) >= 600;
+  const serif = /georgia|times|(^|,)\s*serif\s*$/i.test(style.fontFamily);
+  return serif ? (bold ? 'Times-Bold' : 'Times-Roman') : bold ? 'Helvetica-Bold' : 'Helvetica';
+};
+
+// Metric-compatible faces the browser has, so widths match the PDF's fonts
+const CANVAS_FONTS: Record<PdfFont, string> = {
+  'Helvetica': '100px Arial, Helvetica, "Liberation Sans", sans-serif',
+  'Helvetica-Bold': 'bold 100px Arial, Helvetica, "Liberation Sans", sans-serif',
+  'Times-Roman': '100px "Times New Roman", Times, "Liberation Serif", serif',
+  'Times-Bold': 'bold 100px "Times New Roman", Times, "Liberation Serif", serif',
+};
+
+let measuringContext: OffscreenCanvasRenderingContext2D | null | undefined;
+
+const textWidth = (text: string, font: PdfFont, size: number) => {
+  if (measuringContext === undefined) {
+    measuringContext = typeof OffscreenCanvas === 'undefined' ? null : new OffscreenCanvas(1, 1).getContext('2d');
+  }
+  // Without a canvas, an average width is close enough to place the text
+  if (!measuringContext) return text.length * size * 0.5;
+  measuringContext.font = CANVAS_FONTS[font];
+  return (measuringContext.measureText(text).width * size) / 100;
+};
+
+const textOps = (el: Element, style: Style) => {
+  const content = (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+  const fill = parseColor(style.fill);
+  if (!content || !fill) return '';
+  const font = pdfFont(style);
+  const size = style.fontSize;
+
+  // Runs of plain text between music symbols
+  const runs: { text: string; glyph: MusicGlyph | null }[] = [];
+  for (const char of Array.from(content)) {
+    const glyph = MUSIC_GLYPHS[char] ?? null;
+    const last = runs[runs.length - 1];
+    if (!glyph && last && !last.glyph) last.text += char;
+    else runs.push({ text: char, glyph });
+  }
+  const widths = runs.map(run => (run.glyph ? run.glyph.advance * size : textWidth(run.text, font, size)));
+  const total = widths.reduce((sum, w) => sum + w, 0);
+  let x = length(el.getAttribute('x')) + length(el.getAttribute('dx'));
+  const y = length(el.getAttribute('y')) + length(el.getAttribute('dy'));
+  if (style.textAnchor === 'middle') x -= total / 2;
+  else if (style.textAnchor === 'end') x -= total;
+
+  const ops = [`${colorOperands(fill)} rg`];
+  runs.forEach((run, i) => {
+    if (run.glyph) {
+      ops.push('q', `${num(size)} 0 0 ${num(size)} ${num(x)} ${num(y)} cm`, pathOps(run.glyph.outline), 'f*', 'Q');
+    } else {
+      // The page is drawn with y pointing down, so the text matrix flips it back
+      ops.push(`BT ${pdfFontResource(font)} 1 Tf ${num(size)} 0 0 ${num(-size)} ${num(x)} ${num(y)} Tm <${winAnsiHex(run.text)}> Tj ET`);
+    }
+    x += widths[i];
+  });
+  return ops.join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Walking the tree
+
+const STYLE_PROPERTIES: Record<string, keyof Style> = {
+  'fill': 'fill',
+  'stroke': 'stroke',
+  'stroke-width': 'strokeWidth',
+  'font-size': 'fontSize',
+  'font-weight': 'fontWeight',
+  'font-family': 'fontFamily',
+  'text-anchor': 'textAnchor',
+};
+
+// Presentation attributes, then the style attribute, over what the parent set
+const readStyle = (el: Element, inherited: Style): Style => {
+  const style = { ...inherited };
+  const declarations: [string, string][] = Object.keys(STYLE_PROPERTIES)
+    .map(name => [name, el.getAttribute(name)] as [string, string | null])
+    .filter((entry): entry is [string, string] => entry[1] !== null);
+  (el.getAttribute('style') ?? '').split(';').forEach(declaration => {
+    const [name, ...value] = declaration.split(':');
+    if (name && value.length) declarations.push([name.trim(), value.join(':').trim()]);
+  });
+  declarations.forEach(([name, value]) => {
+    const key = STYLE_PROPERTIES[name];
+    if (!key) return;
+    if (key === 'strokeWidth' || key === 'fontSize') style[key] = length(value, style[key]);
+    else style[key] = value;
+  });
+  return style;
+};
+
+// Clip region an element asks for with clip-path="url(#id)"
+const clipOps = (el: Element, root: Element) => {
+  const id = el.getAttribute('clip-path')?.match(/url\(\s*#([^)\s]+)\s*\)/)?.[1];
+  if (!id) return '';
+  const clip = Array.from(root.getElementsByTagName('clipPath')).find(c => c.getAttribute('id') === id);
+  const outlines = clip ? Array.from(clip.children).map(shapeOps).filter(Boolean) : [];
+  return outlines.length ? `${outlines.join('\n')}\nW n` : '';
+};
+
+const walk = (el: Element, inherited: Style, root: Element, out: string[]) => {
+  const name = el.localName;
+  if (SKIPPED.has(name)) return;
+  if (el.getAttribute('display') === 'none' || el.getAttribute('visibility') === 'hidden') return;
+  if (el.getAttribute('opacity') !== null && length(el.getAttribute('opacity'), 1) === 0) return;
+
+  const style = readStyle(el, inherited);
+  const transform = el.getAttribute('transform');
+  const clip = clipOps(el, root);
+  const nested = name === 'svg' && el !== root;
+  const isolated = !!transform || !!clip || nested;
+  if (isolated) out.push('q');
+  if (transform) out.push(transformOps(transform));
+  if (clip) out.push(clip);
+  if (nested) out.push(viewportOps(el, true));
+
+  if (name === 'g' || name === 'svg' || name === 'a') {
+    Array.from(el.children).forEach(child => walk(child, style, root, out));
+  } else if (name === 'text') {
+    out.push(textOps(el, style));
+  } else {
+    const outline = shapeOps(el);
+    if (outline !== null) out.push(paint(outline, style, name !== 'line'));
+  }
+
+  if (isolated) out.push('Q');
+};
+
+// Places an <svg>'s viewBox in its viewport; nested ones also clip to it
+const viewportOps = (svg: Element, clip: boolean, width?: number, height?: number) => {
+  const box = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).filter(Boolean).map(Number);
+  const [vx, vy, vw, vh] = box.length === 4 && box[2] > 0 && box[3] > 0 ? box : [0, 0, 0, 0];
+  const w = width ?? length(svg.getAttribute('width'), vw);
+  const h = height ?? length(svg.getAttribute('height'), vh);
+  const ops = [`1 0 0 1 ${num(length(svg.getAttribute('x')))} ${num(length(svg.getAttribute('y')))} cm`];
+  if (clip && w > 0 && h > 0) ops.push(`0 0 ${num(w)} ${num(h)} re W n`);
+  if (vw > 0 && vh > 0 && w > 0 && h > 0) ops.push(`${num(w / vw)} 0 0 ${num(h / vh)} ${num((-vx * w) / vw)} ${num((-vy * h) / vh)} cm`);
+  return ops.join('\n');
+};
+
+/**
+ * Drawing operators for one page: the SVG's viewBox is fitted to a page of
+ * `width` by `height` points.
+ */
+export const svgToPdfContent = (svg: Element, width: number, height: number): string => {
+  // PDF pages grow upwards; flipping once lets the SVG coordinates through unchanged
+  const out = ['q', `1 0 0 -1 0 ${num(height)} cm`, '4 M', viewportOps(svg, false, width, height)];
+  walk(svg, INITIAL_STYLE, svg, out);
+  out.push('Q');
+  return out.filter(Boolean).join('\n') + '\n';
+};
@@ -0,0 +1,135 @@
+import { MidiData, TempoEvent } from "../types";
+
+// Beats are always quarter notes, whatever the time signature says
+
+export interface TempoSegment {
+  time: number;
+  beat: number;
+  bpm: number;
+}
+
+export interface MeasureInfo {
+  index: number;
+  startBeat: number;
+  beats: number;
+  startTime: number;
+  timeSignature: [number, number];
+}
+
+const DEFAULT_BPM = 120;
+
+export const buildTempoSegments = (tempos: TempoEvent[]): TempoSegment[] => {
+  const sorted = tempos
+    .filter(t => t.bpm > 0)
+    .map(t => ({ time: t.time ?? 0, bpm: t.bpm }))
+    .sort((a, b) => a.time - b.time);
+
+  if (sorted.length === 0) return [{ time: 0, beat: 0, bpm: DEFAULT_BPM }];
+
+  // The first tempo applies from the very beginning
+  const segments: TempoSegment[] = [{ time: 0, beat: 0, bpm: sorted[0].bpm }];
+  for (const tempo of sorted.slice(1)) {
+    const prev = segments[segments.length - 1];
+    if (tempo.time <= prev.time) {
+      prev.bpm = tempo.bpm;
+      continue;
+    }
+    const beat = prev.beat + (tempo.time - prev.time) * prev.bpm / 60;
+    segments.push({ time: tempo.time, beat, bpm: tempo.bpm });
+  }
+  return segments;
+};
+
+const segmentAt = <K extends 'time' | 'beat'>(segments: TempoSegment[], key: K, value: number) => {
+  let segment = segments[0];
+  for (const s of segments) {
+    if (s[key] <= value) segment = s;
+    else break;
+  }
+  return segment;
+};
+
+/**
+ * Tempo segments from changes placed in beats, as notation formats write
+ * them. The first change applies from the start; 120 BPM without any.
+ */
+export const segmentsFromBeats = (changes: { beat: number; bpm: number }[]): TempoSegment[] => {
+  const sorted = changes.filter(c => c.bpm > 0).sort((a, b) => a.beat - b.beat);
+  const segments: TempoSegment[] = [{ time: 0, beat: 0, bpm: sorted[0]?.bpm ?? DEFAULT_BPM }];
+  for (const change of sorted.slice(1)) {
+    const prev = segments[segments.length - 1];
+    if (change.beat <= prev.beat + 1e-6) {
+      prev.bpm = change.bpm;
+      continue;
+    }
+    segments.push({ time: beatsToSeconds(segments, change.beat), beat: change.beat, bpm: change.bpm });
+  }
+  return segments;
+};
+
+export const secondsToBeats = (segments: TempoSegment[], seconds: number) => {
+  const s = segmentAt(segments, 'time', seconds);
+  return s.beat + (seconds - s.time) * s.bpm / 60;
+};
+
+export const beatsToSeconds = (segments: TempoSegment[], beats: number) => {
+  const s = segmentAt(segments, 'beat', beats);
+  return s.time + (beats - s.beat) * 60 / s.bpm;
+};
+
+export const bpmAtSeconds = (segments: TempoSegment[], seconds: number) =>
+  segmentAt(segments, 'time', seconds).bpm;
+
+// Length of a measure in quarter-note beats, e.g. 6/8 -> 3
+export const measureLengthInBeats = ([numerator, denominator]: [number, number]) =>
+  numerator * 4 / denominator;
+
+/**
+ * Splits the song into measures following the time signature changes.
+ * A change that falls mid-measure takes effect at the next bar line.
+ */
+export const buildMeasures = (midiData: MidiData, segments: TempoSegment[]): MeasureInfo[] => {
+  const changes = midiData.header.timeSignatures
+    .map(ts => ({
+      beat: secondsToBeats(segments, ts.time ?? 0),
+      timeSignature: [ts.timeSignature[0] || 4, ts.timeSignature[1] || 4] as [number, number],
+    }))
+    .sort((a, b) => a.beat - b.beat);
+
+  if (changes.length === 0 || changes[0].beat > 0.01) {
+    changes.unshift({ beat: 0, timeSignature: changes[0]?.timeSignature ?? [4, 4] });
+  }
+
+  const totalBeats = secondsToBeats(segments, midiData.duration);
+  const measures: MeasureInfo[] = [];
+  let beat = 0;
+  let changeIndex = 0;
+  let timeSignature = changes[0].timeSignature;
+
+  // Always at least one measure, and stop before an empty trailing one
+  while (measures.length === 0 || beat < totalBeats - 0.01) {
+    while (changeIndex + 1 < changes.length && changes[changeIndex + 1].beat <= beat + 0.01) {
+      changeIndex++;
+      timeSignature = changes[changeIndex].timeSignature;
+    }
+    const beats = measureLengthInBeats(timeSignature);
+    measures.push({
+      index: measures.length,
+      startBeat: beat,
+      beats,
+      startTime: beatsToSeconds(segments, beat),
+      timeSignature,
+    });
+    beat += beats;
+  }
+  return measures;
+};
+
+export const measureAtBeat = (measures: MeasureInfo[], beat: number) => {
+  let found = measures[0];
+  for (const m of measures) {
+    if (m.startBeat <= beat + 1e-6) found = m;
+    else break;
+  }
+  return found;
+};
@@ -0,0 +1,93 @@
+import { MidiData, Track } from "../types";
+
+// General MIDI reserves channel 10 (index 9) for drum kits
+const PERCUSSION_CHANNEL = 9;
+
+// Instrument families that usually carry a singable lead line
+const MELODIC_FAMILIES: Record<string, number> = {
+  "pipe": 3,
+  "reed": 2,
+  "brass": 1.5,
+  "synth lead": 1.5,
+  "strings": 1,
+  "ensemble": 0.5,
+  "organ": 0.5,
+  "chromatic percussion": 0.5,
+  "guitar": 0,
+  "piano": 0,
+  "synth pad": -1,
+  "bass": -3,
+  "percussive": -3,
+  "sound effects": -4,
+};
+
+export const isPercussionTrack = (track: Track) =>
+  track.channel === PERCUSSION_CHANNEL ||
+  track.instrument.percussion === true ||
+  track.instrument.family === "drums";
+
+// Share of notes that don't overlap the next one (1 = strictly monophonic)
+const monophonyRatio = (track: Track) => {
+  const notes = [...track.notes].sort((a, b) => a.time - b.time);
+  if (notes.length < 2) return 1;
+  let overlapping = 0;
+  for (let i = 1; i < notes.length; i++) {
+    const prev = notes[i - 1];
+    // Small tolerance so legato releases don't count as chords
+    if (notes[i].time < prev.time + prev.duration - 0.03) overlapping++;
+  }
+  return 1 - overlapping / (notes.length - 1);
+};
+
+/**
+ * Scores how likely a track is to be the melody. Returns -Infinity for
+ * tracks that can never be the melody (empty or percussion).
+ */
+export const scoreMelodyTrack = (track: Track): number => {
+  if (track.notes.length === 0 || isPercussionTrack(track)) return -Infinity;
+
+  const pitches = track.notes.map(n => n.midi).sort((a, b) => a - b);
+  const median = pitches[Math.floor(pitches.length / 2)];
+  const span = pitches[pitches.length - 1] - pitches[0];
+
+  let score = 0;
+
+  // Monophony is the strongest signal: accompaniment plays chords
+  score += monophonyRatio(track) * 6;
+
+  // Melodies sit in the treble register, around the recorder's range
+  if (median >= 60 && median <= 84) score += 3;
+  else if (median >= 55 && median <= 90) score += 1;
+  else score -= 2;
+
+  // A singable line rarely spans more than two and a half octaves
+  if (span <= 30) score += 1;
+  else score -= (span - 30) / 6;
+
+  // Enough notes to be a tune, with diminishing returns
+  score += Math.min(2, Math.log10(track.notes.length));
+
+  score += MELODIC_FAMILIES[track.instrument.family] ?? 0;
+
+  return score;
+};
+
+// Index of the track that most likely carries the melody
+export const detectMelodyTrack = (midiData: MidiData): number => {
+  let bestIndex = -1;
+  let bestScore = -Infinity;
+  midiData.tracks.forEach((track, index) => {
+    const score = scoreMelodyTrack(track);
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+  if (bestIndex >= 0) return bestIndex;
+  // Only percussion or empty tracks: fall back to the first one with notes
+  const withNotes = midiData.tracks.findIndex(t => t.notes.length > 0);
+  return Math.max(0, withNotes);
+};
+
+export const getActiveTrack = (midiData: MidiData, trackIndex: number): Track | undefined =>
+  midiData.tracks[trackIndex] ?? midiData.tracks[0];
@@ -0,0 +1,133 @@
+import { MidiData, Note } from "../types";
+import { RecorderProfile, isInRecorderRange } from "./recorders";
+import { isPercussionTrack } from "./trackSelection";
+import { keyFromMidiEvent, keyToMidiEvent, midiToNoteName } from "./pitchSpelling";
+
+export interface TranspositionSettings {
+  // Whole-song shift in semitones
+  semitones: number;
+  // Move the remaining out-of-range notes of the active track by octaves
+  foldOutOfRange: boolean;
+}
+
+export const NO_TRANSPOSITION: TranspositionSettings = { semitones: 0, foldOutOfRange: false };
+
+export interface RangeReport {
+  total: number;
+  below: number;
+  above: number;
+  lowest: number | null;
+  highest: number | null;
+  fits: boolean;
+}
+
+export const analyzeRange = (notes: Note[], recorder: RecorderProfile): RangeReport => {
+  const pitches = notes.map(n => n.midi);
+  const below = pitches.filter(p => p < recorder.lowestNote).length;
+  const above = pitches.filter(p => p > recorder.highestNote).length;
+  return {
+    total: pitches.length,
+    below,
+    above,
+    lowest: pitches.length ? Math.min(...pitches) : null,
+    highest: pitches.length ? Math.max(...pitches) : null,
+    fits: below + above === 0,
+  };
+};
+
+/**
+ * Whole-song shift that leaves the fewest notes out of range. Octave shifts
+ * win ties because they keep the song in its key, then smaller shifts.
+ */
+export const suggestTransposition = (notes: Note[], recorder: RecorderProfile): number => {
+  let best = 0;
+  let bestOut = Infinity;
+  const candidates = Array.from({ length: 49 }, (_, i) => i - 24).sort((a, b) => {
+    const octaveA = a % 12 === 0 ? 0 : 1;
+    const octaveB = b % 12 === 0 ? 0 : 1;
+    return octaveA - octaveB || Math.abs(a) - Math.abs(b);
+  });
+  for (const shift of candidates) {
+    const out = notes.filter(n => !isInRecorderRange(n.midi + shift, recorder)).length;
+    if (out < bestOut) {
+      bestOut = out;
+      best = shift;
+    }
+  }
+  return best;
+};
+
+// Moves a pitch by octaves until it sits inside the recorder's range
+export const foldIntoRange = (midi: number, recorder: RecorderProfile) => {
+  let pitch = midi;
+  while (pitch < recorder.lowestNote) pitch += 12;
+  while (pitch > recorder.highestNote) pitch -= 12;
+  // Recorder ranges span more than an octave, so this only guards odd profiles
+  return isInRecorderRange(pitch, recorder) ? pitch : midi;
+};
+
+// A moved note loses its written spelling and is spelled in the new key
+const shiftNote = (note: Note, midi: number): Note =>
+  midi === note.midi ? note : { ...note, midi, name: midiToNoteName(midi), spelling: undefined };
+
+// Keeps the key signature in step with the notes, preferring fewer accidentals
+const transposeFifths = (fifths: number, semitones: number) =>
+  ((((fifths + semitones * 7 + 6) % 12) + 12) % 12) - 6;
+
+/**
+ * Applies the student's transposition. The whole song moves together so the
+ * accompaniment stays in tune; folding only touches the active track.
+ */
+export const applyTransposition = (
+  midiData: MidiData,
+  trackIndex: number,
+  recorder: RecorderProfile,
+  settings: TranspositionSettings,
+): MidiData => {
+  if (settings.semitones === 0 && !settings.foldOutOfRange) return midiData;
+
+  const tracks = midiData.tracks.map((track, index) => {
+    // Drum kits map pitches to instruments, never transpose them
+    if (isPercussionTrack(track)) return track;
+    return {
+      ...track,
+      notes: track.notes.map(note => {
+        let midi = note.midi + settings.semitones;
+        if (settings.foldOutOfRange && index === trackIndex) midi = foldIntoRange(midi, recorder);
+        return shiftNote(note, Math.max(0, Math.min(127, midi)));
+      }),
+    };
+  });
+
+  const keySignatures = settings.semitones % 12 === 0
+    ? midiData.header.keySignatures
+    : midiData.header.keySignatures?.map(ks => {
+        const key = keyFromMidiEvent(ks);
+        return keyToMidiEvent({ ...key, fifths: transposeFifths(key.fifths, settings.semitones) }, ks.time);
+      });
+
+  return {
+    ...midiData,
+    header: { ...midiData.header, keySignatures },
+    tracks,
+  };
+};
+
+const INTERVAL_NAMES: Record<number, string> = {
+  0: 'unísono', 1: 'semitono', 2: 'tono', 3: '3ª menor', 4: '3ª mayor', 5: '4ª justa',
+  6: 'tritono', 7: '5ª justa', 8: '6ª menor', 9: '6ª mayor', 10: '7ª menor', 11: '7ª mayor',
+};
+
+// Short Spanish description, e.g. "+1 octava" or "-5ª justa"
+export const describeTransposition = (semitones: number) => {
+  if (semitones === 0) return 'Sin transportar';
+  const sign = semitones > 0 ? '+' : '-';
+  const abs = Math.abs(semitones);
+  const octaves = Math.floor(abs / 12);
+  const rest = abs % 12;
+  const parts = [
+    octaves ? `${octaves} octava${octaves > 1 ? 's' : ''}` : null,
+    rest ? INTERVAL_NAMES[rest] : null,
+  ].filter(Boolean);
+  return `${sign}${parts.join(' y ')}`;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { splitMeasureReferences } from './tutorChat';
+
+describe('splitMeasureReferences', () => {
+  it('links a single measure', () => {
+    expect(splitMeasureReferences('Repasa el compás 12 despacio.', 20)).toEqual([
+      { text: 'Repasa el ' },
+      { text: 'compás 12', measure: 11 },
+      { text: ' despacio.' },
+    ]);
+  });
+
+  it('links every measure of a range or a list', () => {
+    expect(splitMeasureReferences('Mira los compases 3-4 y los compases 5 y 7.', 10)).toEqual([
+      { text: 'Mira los ' },
+      { text: 'compases 3', measure: 2 },
+      { text: '-' },
+      { text: '4', measure: 3 },
+      { text: ' y los ' },
+      { text: 'compases 5', measure: 4 },
+      { text: ' y ' },
+      { text: '7', measure: 6 },
+      { text: '.' },
+    ]);
+    expect(splitMeasureReferences('compases 2, 5 a 6', 10).filter(s => s.measure !== undefined).map(s => s.measure))
+      .toEqual([1, 4, 5]);
+  });
+
+  it('leaves measures past the end of the song as text', () => {
+    expect(splitMeasureReferences('compases 8 a 12', 10)).toEqual([
+      { text: 'compases 8', measure: 7 },
+      { text: ' a 12' },
+    ]);
+  });
+});
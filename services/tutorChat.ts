@@ -0,0 +1,134 @@
+import { MidiData } from "../types";
+import { getActiveTrack } from "./trackSelection";
+import { RecorderProfile } from "./recorders";
+import { Fingering, FingeringSystem, FINGERING_SYSTEM_LABELS, getFingering } from "./recorderFingerings";
+import { detectKey, keyDisplayName, spellPitch, spelledName } from "./pitchSpelling";
+import { buildMeasures, buildTempoSegments, secondsToBeats, measureAtBeat } from "./tempoMap";
+import { ResponseSchema } from "./responseSchema";
+import { TUTOR_SYSTEM, askTutor } from "./tutorService";
+
+export interface ChatMessage {
+  role: 'student' | 'tutor';
+  text: string;
+}
+
+// A piece of a tutor answer; `measure` (0-based) is set when it names a measure
+export interface ChatSegment {
+  text: string;
+  measure?: number;
+}
+
+// Long songs only send the measures around the playhead
+const MAX_MEASURES = 48;
+// Earlier turns sent back as context
+const HISTORY_TURNS = 8;
+
+const CHAT_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string', description: 'Respuesta al alumno. Nombra los compases como "compás 3" o "compases 3-4".' },
+  },
+  required: ['answer'],
+};
+
+const HOLE_NAMES = ['P', '1', '2', '3', '4', '5', '6', '7'];
+const HOLE_SYMBOLS = { closed: '●', open: '○', half: '◐' };
+
+const describeFingering = (fingering: Fingering | null) =>
+  fingering
+    ? fingering.holes.map((hole, i) => `${HOLE_NAMES[i]}${HOLE_SYMBOLS[hole]}`).join(' ') +
+      (fingering.thumbHalf ? ' (pulgar medio tapado)' : '')
+    : 'fuera del registro de la flauta';
+
+/**
+ * Everything the tutor needs to answer about this song: notes grouped by
+ * measure (with durations in beats), the fingering of every pitch used and
+ * where the student is right now.
+ */
+export const buildChatContext = (
+  midiData: MidiData,
+  trackIndex: number,
+  recorder: RecorderProfile,
+  system: FingeringSystem,
+  currentTime: number,
+) => {
+  const notes = getActiveTrack(midiData, trackIndex)?.notes ?? [];
+  const segments = buildTempoSegments(midiData.header.tempos);
+  const measures = buildMeasures(midiData, segments);
+  const key = detectKey(midiData, notes);
+  const current = measureAtBeat(measures, secondsToBeats(segments, currentTime));
+
+  const byMeasure = measures.map(() => [] as string[]);
+  notes.forEach(note => {
+    const start = secondsToBeats(segments, note.time);
+    const beats = secondsToBeats(segments, note.time + note.duration) - start;
+    const measure = measureAtBeat(measures, start);
+    byMeasure[measure.index].push(`${spelledName(spellPitch(note.midi, key), true)}(${Number(beats.toFixed(2))})`);
+  });
+
+  const first = Math.max(0, Math.min(current.index - MAX_MEASURES / 2, measures.length - MAX_MEASURES));
+  const shown = measures.slice(first, first + MAX_MEASURES);
+  const pitches = Array.from(new Set(notes.map(n => n.midi))).sort((a, b) => a - b);
+
+  return [
+    `Canción: ${midiData.header.name}, ${keyDisplayName(key)}, ${measures.length} compases`,
+    `Flauta del alumno: ${recorder.label}, digitación ${FINGERING_SYSTEM_LABELS[system].toLowerCase()}`,
+    `El alumno está ahora en el compás ${current.index + 1}`,
+    '',
+    'Digitaciones (P = pulgar, 1-7 agujeros de arriba abajo; ● tapado, ○ abierto, ◐ medio tapado):',
+    ...pitches.map(midi => `- ${spelledName(spellPitch(midi, key), true)}: ${describeFingering(getFingering(midi, system, recorder.lowestNote))}`),
+    '',
+    `Notas por compás (entre paréntesis la duración en negras)${shown.length < measures.length ? `, compases ${first + 1} a ${first + shown.length}` : ''}:`,
+    ...shown.map(m =>
+      `Compás ${m.index + 1} (${m.timeSignature[0]}/${m.timeSignature[1]}): ${byMeasure[m.index].join(' ') || 'silencio'}`),
+  ].join('\n');
+};
+
+export const askTutorFollowUp = async (
+  context: string,
+  history: ChatMessage[],
+  question: string,
+): Promise<string> => {
+  const conversation = history
+    .slice(-HISTORY_TURNS)
+    .map(m => `${m.role === 'student' ? 'Alumno' : 'Profesor'}: ${m.text}`)
+    .join('\n');
+
+  const answer = await askTutor<{ answer: string }>({
+    task: 'chat',
+    system: TUTOR_SYSTEM,
+    prompt: `Datos de la canción que está practicando el alumno:
+${context}
+
+${conversation ? `Conversación hasta ahora:\n${conversation}\n\n` : ''}Pregunta del alumno: ${question}
+
+Contesta en 2-4 frases. Cuando hables de un sitio concreto de la canción, nombra el compás ("compás 3").`,
+    schema: CHAT_SCHEMA,
+  });
+  return answer.answer;
+};
+
+// "compás 3", and lists or ranges such as "compases 3-4", "compases 3 a 6" or "compases 2, 5 y 7"
+const MEASURE_REFERENCE = /compás\s+\d+|compases\s+\d+(?:(?:\s*[-–,]\s*|\s+(?:a|al|y)\s+)\d+)*/gi;
+
+// Splits an answer so the measures it names can be shown as links, one per number
+export const splitMeasureReferences = (text: string, measureCount: number): ChatSegment[] => {
+  const segments: ChatSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MEASURE_REFERENCE)) {
+    let linked = false;
+    for (const number of match[0].matchAll(/\d+/g)) {
+      const measure = parseInt(number[0], 10) - 1;
+      if (measure < 0 || measure >= measureCount) continue;
+      // The first link keeps the word: "compases 3", then "4"
+      const start = match.index + (linked ? number.index : 0);
+      const end = match.index + number.index + number[0].length;
+      linked = true;
+      if (start > last) segments.push({ text: text.slice(last, start) });
+      segments.push({ text: text.slice(start, end), measure });
+      last = end;
+    }
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
@@ -0,0 +1,171 @@
+import { GoogleGenAI } from "@google/genai";
+import { ResponseSchema } from "./responseSchema";
+
+export interface TutorRequest {
+  // Short stable name of what is being asked, e.g. "analysis"
+  task: string;
+  system: string;
+  prompt: string;
+  schema: ResponseSchema;
+}
+
+export interface TutorProvider {
+  name: string;
+  // Resolves to the raw JSON text of the answer
+  complete: (request: TutorRequest, signal: AbortSignal) => Promise<string>;
+}
+
+export class TutorError extends Error {
+  constructor(message: string, readonly retryable = false) {
+    super(message);
+    this.name = "TutorError";
+  }
+}
+
+export type TutorProviderKind = 'gemini' | 'http' | 'mock';
+
+export interface TutorConfig {
+  provider: TutorProviderKind;
+  model?: string;
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  url?: string;
+  apiKey?: string;
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): TutorProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: `Gemini (${model})`,
+    complete: async (request, signal) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.system,
+          responseMimeType: "application/json",
+          responseJsonSchema: request.schema,
+          abortSignal: signal,
+        },
+      });
+      if (!response.text) throw new TutorError("Gemini no devolvió ninguna respuesta", true);
+      return response.text;
+    },
+  };
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * self-hosted model behind llama.cpp, Ollama, vLLM, LM Studio...
+ */
+export const createHttpProvider = (url: string, model: string, apiKey?: string): TutorProvider => ({
+  name: `${model} (${new URL(url).host})`,
+  complete: async (request, signal) => {
+    const response = await fetch(`${url.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.4,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.task, schema: request.schema },
+        },
+      }),
+    });
+    if (!response.ok) {
+      // Rate limits and server errors are worth another try, the rest aren't
+      throw new TutorError(`El servidor respondió ${response.status}`, response.status === 429 || response.status >= 500);
+    }
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new TutorError("Respuesta sin contenido", true);
+    return content;
+  },
+});
+
+export const hashString = (text: string) => {
+  // cyrb53: fast, and 53 bits make collisions between songs unlikely
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Fills the schema with values picked from the seed, so the same request
+// always gets the same answer
+const sampleFromSchema = (schema: ResponseSchema, seed: string): unknown => {
+  const pick = parseInt(hashString(seed), 36);
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? schema.enum[pick % schema.enum.length] : `Respuesta de prueba ${pick % 1000}`;
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 10;
+      return schema.type === 'integer' ? min + (pick % (max - min + 1)) : min + ((pick % 1000) / 1000) * (max - min);
+    }
+    case 'boolean':
+      return pick % 2 === 0;
+    case 'array': {
+      const length = Math.max(schema.minItems ?? 0, Math.min(schema.maxItems ?? 3, 3));
+      return Array.from({ length }, (_, i) => sampleFromSchema(schema.items, `${seed}[${i}]`));
+    }
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, property]) => [key, sampleFromSchema(property, `${seed}.${key}`)]),
+      );
+  }
+};
+
+// Offline and deterministic: for developing the UI without an API key
+export const createMockProvider = (): TutorProvider => ({
+  name: 'Profesor de prueba',
+  complete: async (request) => JSON.stringify(sampleFromSchema(request.schema, `${request.task}:${request.prompt}`)),
+});
+
+export const tutorConfigFromEnv = (): TutorConfig => {
+  const provider = process.env.TUTOR_PROVIDER;
+  return {
+    provider: provider === 'http' || provider === 'mock' ? provider : 'gemini',
+    model: process.env.TUTOR_MODEL || undefined,
+    url: process.env.TUTOR_API_URL || undefined,
+    apiKey: (provider === 'http' ? process.env.TUTOR_API_KEY : process.env.API_KEY) || undefined,
+  };
+};
+
+export const createTutorProvider = (config: TutorConfig): TutorProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) throw new TutorError("Falta la clave de la API de Gemini");
+      return createGeminiProvider(config.apiKey, config.model);
+    case 'http':
+      if (!config.url || !config.model) throw new TutorError("Falta la URL o el modelo del servidor del profesor");
+      return createHttpProvider(config.url, config.model, config.apiKey);
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+let sharedProvider: TutorProvider | null = null;
+
+// One client for the whole app, built on first use
+export const getTutorProvider = () => {
+  if (!sharedProvider) sharedProvider = createTutorProvider(tutorConfigFromEnv());
+  return sharedProvider;
+};
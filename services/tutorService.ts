@@ -0,0 +1,129 @@
+import { AnalysisResult, MidiData } from "../types";
+import { getActiveTrack } from "./trackSelection";
+import { RecorderProfile } from "./recorders";
+import { FingeringSystem } from "./recorderFingerings";
+import { analyzeDifficulty, describeDifficulty, reportToAnalysis } from "./difficultyAnalysis";
+import { ResponseSchema, ResponseValidationError, parseResponse } from "./responseSchema";
+import { TutorError, TutorRequest, getTutorProvider, hashString } from "./tutorProviders";
+
+const TIMEOUT_MS = 20000;
+const RETRIES = 2;
+const RETRY_DELAY_MS = 800;
+
+export const TUTOR_SYSTEM = "Actúa como un profesor experto de música para niños que aprenden Flauta Dulce (Recorder). Responde siempre en español, con frases cortas y animadas.";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryable = (error: unknown) =>
+  (error instanceof TutorError && error.retryable) ||
+  error instanceof ResponseValidationError ||
+  // fetch reports network failures as TypeError
+  error instanceof TypeError ||
+  (error instanceof DOMException && error.name === 'AbortError');
+
+/**
+ * Sends one request through the configured provider with a timeout per
+ * attempt, retrying transient failures and answers that don't fit the schema.
+ */
+export const askTutor = async <T>(request: TutorRequest): Promise<T> => {
+  const provider = getTutorProvider();
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+    try {
+      const text = await provider.complete(request, controller.signal);
+      return parseResponse<T>(text, request.schema);
+    } catch (error) {
+      if (attempt >= RETRIES || !isRetryable(error)) throw error;
+      await sleep(RETRY_DELAY_MS * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+};
+
+// Answers only depend on the notes, not on the file name or when it was loaded
+export const songHash = (midiData: MidiData, trackIndex: number) => {
+  const track = getActiveTrack(midiData, trackIndex);
+  return hashString(JSON.stringify([
+    midiData.header.tempos.map(t => [t.bpm, t.time ?? 0]),
+    midiData.header.timeSignatures.map(ts => [ts.timeSignature, ts.time ?? 0]),
+    midiData.header.keySignatures?.map(ks => [ks.key, ks.scale, ks.time ?? 0]) ?? [],
+    track?.notes.map(n => [n.midi, n.time.toFixed(3), n.duration.toFixed(3)]) ?? [],
+  ]));
+};
+
+// Pending answers are shared too, so a double click asks only once
+const cache = new Map<string, Promise<unknown>>();
+
+const cached = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  const hit = cache.get(key);
+  if (hit) return hit as Promise<T>;
+  const pending = load();
+  cache.set(key, pending);
+  pending.catch(() => cache.delete(key));
+  return pending;
+};
+
+const ANALYSIS_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    difficulty: { type: 'string', enum: ['Fácil', 'Intermedio', 'Avanzado'] },
+    tips: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5 },
+    description: { type: 'string' },
+  },
+  required: ['difficulty', 'tips', 'description'],
+};
+
+export const analyzeMidiForStudents = async (
+  midiData: MidiData,
+  trackIndex: number,
+  recorder: RecorderProfile,
+  fingeringSystem: FingeringSystem = 'baroque',
+): Promise<AnalysisResult> => {
+  // Computed locally first: it grounds the prompt and is the offline answer
+  const report = analyzeDifficulty(midiData, trackIndex, recorder, fingeringSystem);
+  const local = reportToAnalysis(report);
+
+  const track = getActiveTrack(midiData, trackIndex);
+  if (!track || track.notes.length === 0) return local;
+
+  try {
+    const key = `analysis:${songHash(midiData, trackIndex)}:${recorder.type}:${fingeringSystem}`;
+    const answer = await cached(key, () => {
+      const notes = track.notes.map(n => n.name);
+      const uniqueNotes = Array.from(new Set(notes)).sort();
+      const tempo = midiData.header.tempos[0]?.bpm || 120;
+      const duration = midiData.duration.toFixed(2);
+
+      const prompt = `
+        Analiza los siguientes datos de una canción MIDI:
+        - Pista de la melodía: ${track.name} (${track.instrument.name})
+        - Flauta del alumno: ${recorder.label}
+        - Notas usadas: ${uniqueNotes.join(', ')}
+        - Tempo original: ${tempo} BPM
+        - Duración: ${duration} segundos
+
+        Métricas medidas en la partitura (son exactas, básate en ellas):
+${describeDifficulty(report)}
+
+        Provee una respuesta estructurada en JSON con:
+        1. 'difficulty': Nivel de dificultad (Fácil, Intermedio, Avanzado), coherente con la puntuación local salvo que las métricas justifiquen otra cosa.
+        2. 'tips': Un array de 3 consejos breves y prácticos para tocar esta pieza en flauta dulce, apoyados en las métricas (ej. digitaciones de horquilla concretas, dónde respirar, notas agudas).
+        3. 'description': Una descripción muy breve y animada de qué parece ser la canción (basado en ritmo/notas) o simplemente palabras de ánimo.
+      `;
+
+      return askTutor<Pick<AnalysisResult, 'difficulty' | 'tips' | 'description'>>({
+        task: 'analysis',
+        system: TUTOR_SYSTEM,
+        prompt,
+        schema: ANALYSIS_SCHEMA,
+      });
+    });
+
+    return { ...answer, score: local.score, reasons: local.reasons };
+  } catch (error) {
+    console.error("Error generating analysis:", error);
+    return local;
+  }
+};
@@ -0,0 +1,295 @@
+import { MidiData, Note } from "../types";
+import { getActiveTrack } from "./trackSelection";
+import { RecorderProfile, isInRecorderRange } from "./recorders";
+import { FingeringSystem, getFingering, isForkedFingering } from "./recorderFingerings";
+import { analyzeDifficulty, describeDifficulty, melodicLine } from "./difficultyAnalysis";
+import { midiToNoteName } from "./pitchSpelling";
+import { ResponseSchema } from "./responseSchema";
+import { TUTOR_SYSTEM, askTutor, songHash } from "./tutorService";
+
+export interface WarmUpExercise {
+  title: string;
+  goal: string;
+  data: MidiData;
+  // What had to be fixed in the model's answer, shown to the student
+  repairs: string[];
+}
+
+// One step of an exercise as the model writes it: a note name or "R" for a rest
+interface RawStep {
+  note: string;
+  beats: number;
+}
+
+interface RawExercise {
+  title: string;
+  goal: string;
+  bpm: number;
+  steps: RawStep[];
+}
+
+const WARM_UP_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    exercises: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 4,
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          goal: { type: 'string', description: 'Qué trabaja el ejercicio, en una frase' },
+          bpm: { type: 'number' },
+          steps: {
+            type: 'array',
+            minItems: 2,
+            items: {
+              type: 'object',
+              properties: {
+                note: { type: 'string', description: 'Nota escrita en notación inglesa con octava (C5, F#5, Bb4) o "R" para un silencio' },
+                beats: { type: 'number', description: 'Duración en negras: 0.5, 1, 1.5, 2, 3 o 4' },
+              },
+              required: ['note', 'beats'],
+            },
+          },
+        },
+        required: ['title', 'goal', 'bpm', 'steps'],
+      },
+    },
+  },
+  required: ['exercises'],
+};
+
+// Durations we accept, in quarter notes; anything else is snapped to the nearest
+const ALLOWED_BEATS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4];
+const MIN_BPM = 40;
+const MAX_BPM = 160;
+const MAX_STEPS = 48;
+const MAX_BEATS = 64;
+
+const LETTER_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "F#5" -> 78, "Bb4" -> 70, "R" -> null; undefined when it can't be read
+export const parseNoteName = (name: string): number | null | undefined => {
+  const trimmed = name.trim();
+  if (/^(r|rest|silencio)$/i.test(trimmed)) return null;
+  const match = /^([A-Ga-g])(#|♯|b|♭)?(-?\d)$/.exec(trimmed);
+  if (!match) return undefined;
+  const alter = match[2] === '#' || match[2] === '♯' ? 1 : match[2] ? -1 : 0;
+  return (parseInt(match[3], 10) + 1) * 12 + LETTER_SEMITONES[match[1].toUpperCase()] + alter;
+};
+
+const snapBeats = (beats: number) =>
+  ALLOWED_BEATS.reduce((best, value) => (Math.abs(value - beats) < Math.abs(best - beats) ? value : best));
+
+// Moves a pitch by octaves into the recorder's range, null if no octave fits
+const fitToRange = (midi: number, recorder: RecorderProfile) => {
+  for (const shift of [0, 12, -12, 24, -24]) {
+    if (isInRecorderRange(midi + shift, recorder)) return midi + shift;
+  }
+  return null;
+};
+
+/** A monophonic line of steps as a one-track song in 4/4. */
+export const stepsToMidiData = (title: string, bpm: number, steps: { midi: number | null; beats: number }[]): MidiData => {
+  const quarter = 60 / bpm;
+  const notes: Note[] = [];
+  let beat = 0;
+  steps.forEach(step => {
+    if (step.midi !== null) {
+      notes.push({
+        name: midiToNoteName(step.midi),
+        midi: step.midi,
+        time: beat * quarter,
+        // A small gap so repeated notes are tongued separately
+        duration: step.beats * quarter * 0.95,
+        velocity: 0.8,
+      });
+    }
+    beat += step.beats;
+  });
+  return {
+    header: {
+      name: title,
+      tempos: [{ bpm, time: 0 }],
+      timeSignatures: [{ timeSignature: [4, 4], time: 0 }],
+      keySignatures: [],
+    },
+    duration: beat * quarter,
+    tracks: [{ name: title, notes, instrument: { family: 'pipe', name: 'recorder', number: 74 } }],
+  };
+};
+
+/**
+ * Turns one exercise from the model into a playable song. Fixable problems
+ * (notes an octave out of range, odd durations, tempo, length) are repaired
+ * and listed; an exercise with unreadable notes or nothing to play is dropped.
+ */
+export const repairExercise = (raw: RawExercise, recorder: RecorderProfile): WarmUpExercise | null => {
+  const repairs: string[] = [];
+  const steps: { midi: number | null; beats: number }[] = [];
+
+  for (const step of raw.steps) {
+    const parsed = parseNoteName(step.note);
+    if (parsed === undefined) return null;
+
+    let midi = parsed;
+    if (midi !== null && !isInRecorderRange(midi, recorder)) {
+      midi = fitToRange(midi, recorder);
+      if (midi === null) return null;
+      repairs.push(`${step.note} se cambió de octava para que quepa en tu flauta`);
+    }
+
+    const beats = snapBeats(step.beats > 0 ? step.beats : 1);
+    if (Math.abs(beats - step.beats) > 1e-3) repairs.push(`una duración de ${step.beats} se ajustó a ${beats}`);
+
+    const total = steps.reduce((sum, s) => sum + s.beats, 0);
+    if (steps.length >= MAX_STEPS || total + beats > MAX_BEATS) {
+      repairs.push('el ejercicio se acortó');
+      break;
+    }
+    steps.push({ midi, beats });
+  }
+
+  // Leading and trailing rests only add silence
+  while (steps.length && steps[0].midi === null) steps.shift();
+  while (steps.length && steps[steps.length - 1].midi === null) steps.pop();
+  if (steps.filter(s => s.midi !== null).length < 2) return null;
+
+  const bpm = Math.round(Math.min(MAX_BPM, Math.max(MIN_BPM, raw.bpm || 60)));
+  if (bpm !== raw.bpm) repairs.push(`el tempo se ajustó a ${bpm} BPM`);
+
+  const title = raw.title.trim() || 'Calentamiento';
+  return {
+    title,
+    goal: raw.goal.trim(),
+    data: stepsToMidiData(`Calentamiento: ${title}`, bpm, steps),
+    repairs: Array.from(new Set(repairs)),
+  };
+};
+
+// The pair of consecutive notes furthest apart
+const largestLeap = (line: Note[]) => {
+  let best: [Note, Note] | null = null;
+  for (let i = 1; i < line.length; i++) {
+    const leap = Math.abs(line[i].midi - line[i - 1].midi);
+    if (!best || leap > Math.abs(best[1].midi - best[0].midi)) best = [line[i - 1], line[i]];
+  }
+  return best;
+};
+
+/**
+ * Exercises built without the model, from the song itself: long tones on the
+ * highest note, the widest leap slowly, and the first forked fingering (or the
+ * song's notes as a scale) with its neighbours.
+ */
+export const localWarmUps = (
+  midiData: MidiData,
+  trackIndex: number,
+  recorder: RecorderProfile,
+  system: FingeringSystem = 'baroque',
+): WarmUpExercise[] => {
+  const line = melodicLine(getActiveTrack(midiData, trackIndex)?.notes ?? [])
+    .filter(n => isInRecorderRange(n.midi, recorder));
+  if (line.length < 2) return [];
+
+  const raws: RawExercise[] = [];
+  const name = midiToNoteName;
+
+  const highest = Math.max(...line.map(n => n.midi));
+  raws.push({
+    title: `Notas largas en ${name(highest)}`,
+    goal: 'Mantener la nota más aguda estable y afinada, con aire constante.',
+    bpm: 60,
+    steps: Array.from({ length: 4 }, () => [{ note: name(highest), beats: 4 }, { note: 'R', beats: 1 }]).flat(),
+  });
+
+  const leap = largestLeap(line);
+  if (leap && Math.abs(leap[1].midi - leap[0].midi) >= 3) {
+    const [a, b] = [name(leap[0].midi), name(leap[1].midi)];
+    raws.push({
+      title: `Salto ${a}–${b}`,
+      goal: 'Preparar los dedos del salto más grande antes de soplar.',
+      bpm: 60,
+      steps: [
+        ...Array.from({ length: 2 }, () => [{ note: a, beats: 2 }, { note: b, beats: 2 }]).flat(),
+        ...Array.from({ length: 4 }, () => [{ note: a, beats: 1 }, { note: b, beats: 1 }]).flat(),
+      ],
+    });
+  }
+
+  const forkedIndex = line.findIndex(n => {
+    const fingering = getFingering(n.midi, system, recorder.lowestNote);
+    return fingering && isForkedFingering(fingering);
+  });
+  if (forkedIndex >= 0) {
+    const around = line.slice(Math.max(0, forkedIndex - 1), forkedIndex + 2).map(n => name(n.midi));
+    raws.push({
+      title: `Horquilla en ${name(line[forkedIndex].midi)}`,
+      goal: 'Cambiar con soltura a la digitación de horquilla y salir de ella.',
+      bpm: 66,
+      steps: Array.from({ length: 3 }, () => [...around.map(note => ({ note, beats: 1 })), { note: 'R', beats: 1 }]).flat(),
+    });
+  } else {
+    const pitches = Array.from(new Set(line.map(n => n.midi))).sort((a, b) => a - b).map(name);
+    raws.push({
+      title: 'Escala de la canción',
+      goal: 'Subir y bajar por todas las notas de la canción.',
+      bpm: 80,
+      steps: [...pitches, ...pitches.slice(0, -1).reverse()].map(note => ({ note, beats: 1 })),
+    });
+  }
+
+  return raws
+    .map(raw => repairExercise(raw, recorder))
+    .filter((exercise): exercise is WarmUpExercise => exercise !== null);
+};
+
+const cache = new Map<string, WarmUpExercise[]>();
+
+export const generateWarmUps = async (
+  midiData: MidiData,
+  trackIndex: number,
+  recorder: RecorderProfile,
+  system: FingeringSystem = 'baroque',
+): Promise<WarmUpExercise[]> => {
+  const key = `${songHash(midiData, trackIndex)}:${recorder.type}:${system}`;
+  const hit = cache.get(key);
+  if (hit) return hit;
+
+  const local = localWarmUps(midiData, trackIndex, recorder, system);
+  const line = melodicLine(getActiveTrack(midiData, trackIndex)?.notes ?? []);
+  if (line.length < 2) return local;
+
+  try {
+    const report = analyzeDifficulty(midiData, trackIndex, recorder, system);
+    const leap = largestLeap(line);
+    const { exercises } = await askTutor<{ exercises: RawExercise[] }>({
+      task: 'warm_ups',
+      system: TUTOR_SYSTEM,
+      prompt: `Crea de 2 a 3 ejercicios de calentamiento cortos (4 a 16 compases de 4/4) para preparar esta canción en flauta dulce.
+Cada ejercicio trabaja una dificultad concreta de la canción: por ejemplo el salto más difícil repetido despacio, notas largas en la nota más aguda o las digitaciones de horquilla.
+
+- Flauta del alumno: ${recorder.label}; registro escrito de ${midiToNoteName(recorder.lowestNote)} a ${midiToNoteName(recorder.highestNote)}. No uses notas fuera de ese registro.
+- Melodía (primeras notas): ${line.slice(0, 32).map(n => midiToNoteName(n.midi)).join(' ')}
+${leap ? `- Salto más grande: ${midiToNoteName(leap[0].midi)} a ${midiToNoteName(leap[1].midi)}` : ''}
+
+Métricas de la canción:
+${describeDifficulty(report)}
+
+Escribe cada ejercicio como una lista de pasos {note, beats}: la nota escrita en notación inglesa con octava (C4 es el do central) o "R" para un silencio, y su duración en negras. Usa tempos lentos (50-90 BPM).`,
+      schema: WARM_UP_SCHEMA,
+    });
+
+    const valid = exercises
+      .map(raw => repairExercise(raw, recorder))
+      .filter((exercise): exercise is WarmUpExercise => exercise !== null);
+    if (valid.length === 0) return local;
+    cache.set(key, valid);
+    return valid;
+  } catch (error) {
+    console.error("Error generating warm-ups:", error);
+    return local;
+  }
+};
@@ -1,28 +1,61 @@
 // Define basic types for MIDI structure used in the app
 // Note: We use @tonejs/midi structure loosely here for typing props
 
+// Marks read from MusicXML scores; MIDI files don't carry them
+export type Articulation = 'staccato' | 'tenuto' | 'accent' | 'marcato' | 'fermata' | 'breath';
+
 export interface Note {
   name: string;
   midi: number;
   time: number;
   duration: number;
   velocity: number;
+  // How the score writes the pitch, e.g. { step: 'A', alter: 1 } for A#
+  // rather than Bb. Without it the pitch is spelled in the key.
+  spelling?: { step: string; alter: number };
+  lyric?: string;
+  articulations?: Articulation[];
 }
 
 export interface Track {
   name: string;
   notes: Note[];
+  channel?: number;
   instrument: {
     family: string;
     name: string;
+    number?: number;
+    percussion?: boolean;
   };
 }
 
+// Tempo and meter changes keep their position in seconds so the UI and the
+// audio engine don't need to know about MIDI ticks.
+export interface TempoEvent {
+  bpm: number;
+  time?: number;
+}
+
+export interface TimeSignatureEvent {
+  timeSignature: number[];
+  time?: number;
+}
+
+// Same shape as @tonejs/midi: `key` names the major key with that signature
+// (A minor is stored as key "C", scale "minor")
+export interface KeySignatureEvent {
+  key: string;
+  scale: string;
+  time?: number;
+}
+
 export interface MidiData {
   header: {
     name: string;
-    tempos: { bpm: number }[];
-    timeSignatures: { timeSignature: number[] }[];
+    composer?: string;
+    tempos: TempoEvent[];
+    timeSignatures: TimeSignatureEvent[];
+    keySignatures?: KeySignatureEvent[];
   };
   duration: number;
   tracks: Track[];
@@ -32,4 +65,7 @@ export interface AnalysisResult {
   difficulty: string;
   tips: string[];
   description: string;
+  // From the local difficulty analysis, 0-100
+  score?: number;
+  reasons?: string[];
 }
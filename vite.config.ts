@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TUTOR_PROVIDER': JSON.stringify(env.TUTOR_PROVIDER),
+        'process.env.TUTOR_MODEL': JSON.stringify(env.TUTOR_MODEL),
+        'process.env.TUTOR_API_URL': JSON.stringify(env.TUTOR_API_URL),
+        'process.env.TUTOR_API_KEY': JSON.stringify(env.TUTOR_API_KEY)
       },
       resolve: {
         alias: {